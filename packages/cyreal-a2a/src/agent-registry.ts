@@ -7,23 +7,82 @@
 
 import * as winston from 'winston';
 import type { A2AAgentCard, IA2AAgentRegistry } from '@cyreal/core';
+import { IAgentRegistryStorage, MemoryRegistryStorage, RegisteredAgent, TokenReference, tokenReference } from './registry-storage';
 
-interface RegisteredAgent {
-  agentCard: A2AAgentCard;
-  token: string;
-  registeredAt: Date;
-  lastHeartbeat: Date;
-  connectionCount: number;
+export interface AgentRegistryOptions {
+  storage?: IAgentRegistryStorage;
+  /**
+   * Re-validates stored token references on load, after the expiry check
+   */
+  tokenValidator?: (agentId: string, token: TokenReference) => Promise<boolean>;
+  /**
+   * Compact once writes since the last compaction exceed this multiple of live agents
+   */
+  compactionRatio?: number;
 }
 
 export class AgentRegistry implements IA2AAgentRegistry {
   private agents: Map<string, RegisteredAgent> = new Map();
   private logger: winston.Logger;
   private agentTimeout: number;
+  private storage: IAgentRegistryStorage;
+  private tokenValidator?: (agentId: string, token: TokenReference) => Promise<boolean>;
+  private compactionRatio: number;
+  private writesSinceCompaction = 0;
+  private persistedAt = new Map<string, number>(); // agentId -> last write
 
-  constructor(logger: winston.Logger, agentTimeout: number = 120000) {
+  constructor(logger: winston.Logger, agentTimeout: number = 120000, options: AgentRegistryOptions = {}) {
     this.logger = logger;
     this.agentTimeout = agentTimeout;
+    this.storage = options.storage || new MemoryRegistryStorage();
+    this.tokenValidator = options.tokenValidator;
+    this.compactionRatio = options.compactionRatio || 10;
+  }
+
+  /**
+   * Reload persisted agents, dropping any whose token no longer validates
+   */
+  public async load(): Promise<number> {
+    const stored = await this.storage.load();
+    let dropped = 0;
+
+    for (const agent of stored) {
+      const agentId = agent.agentCard.agentId;
+      const tokenValid = this.isTokenUnexpired(agent) &&
+        (!this.tokenValidator || await this.tokenValidator(agentId, agent));
+
+      if (!tokenValid) {
+        dropped++;
+        this.logger.info('Stored agent dropped, token no longer valid', { agentId, name: agent.agentCard.name });
+        continue;
+      }
+
+      // Agents could not heartbeat while we were down; give them a full timeout to reconnect
+      agent.lastHeartbeat = new Date();
+      this.agents.set(agentId, agent);
+    }
+
+    this.logger.info('Agent registry loaded', {
+      restored: this.agents.size,
+      dropped
+    });
+
+    // Start from a clean journal holding only the restored agents
+    await this.compact();
+
+    return this.agents.size;
+  }
+
+  /**
+   * Rewrite storage to hold only the live agents
+   */
+  public async compact(): Promise<void> {
+    try {
+      await this.storage.compact(Array.from(this.agents.values()));
+      this.writesSinceCompaction = 0;
+    } catch (error) {
+      this.logger.error('Agent registry compaction failed:', error);
+    }
   }
 
   /**
@@ -35,7 +94,7 @@ export class AgentRegistry implements IA2AAgentRegistry {
     if (existingAgent) {
       // Update existing agent
       existingAgent.agentCard = agentCard;
-      existingAgent.token = token;
+      Object.assign(existingAgent, tokenReference(token));
       existingAgent.lastHeartbeat = new Date();
       existingAgent.connectionCount++;
       
@@ -44,11 +103,13 @@ export class AgentRegistry implements IA2AAgentRegistry {
         name: agentCard.name,
         connectionCount: existingAgent.connectionCount
       });
+
+      await this.persist(existingAgent);
     } else {
       // Register new agent
       const registeredAgent: RegisteredAgent = {
         agentCard,
-        token,
+        ...tokenReference(token),
         registeredAt: new Date(),
         lastHeartbeat: new Date(),
         connectionCount: 1
@@ -62,6 +123,8 @@ export class AgentRegistry implements IA2AAgentRegistry {
         capabilities: agentCard.capabilities.length,
         endpoints: agentCard.endpoints.length
       });
+
+      await this.persist(registeredAgent);
     }
   }
 
@@ -77,6 +140,8 @@ export class AgentRegistry implements IA2AAgentRegistry {
         name: agent.agentCard.name,
         sessionDuration: Date.now() - agent.registeredAt.getTime()
       });
+
+      await this.persistRemoval(agentId);
     }
   }
 
@@ -121,13 +186,17 @@ export class AgentRegistry implements IA2AAgentRegistry {
   }
 
   /**
-   * Update agent heartbeat
+   * Update agent heartbeat. Heartbeats are written at most once per agent
+   * timeout; a restart resets them anyway.
    */
   public async updateHeartbeat(agentId: string): Promise<void> {
     const agent = this.agents.get(agentId);
     if (agent) {
       agent.lastHeartbeat = new Date();
       agent.agentCard.lastSeen = new Date();
+      if (Date.now() - (this.persistedAt.get(agentId) ?? 0) >= this.agentTimeout) {
+        await this.persist(agent);
+      }
     }
   }
 
@@ -151,6 +220,8 @@ export class AgentRegistry implements IA2AAgentRegistry {
           timeoutMs: timeSinceHeartbeat,
           maxTimeoutMs: this.agentTimeout
         });
+
+        await this.persistRemoval(agentId);
       }
     }
     
@@ -164,6 +235,43 @@ export class AgentRegistry implements IA2AAgentRegistry {
     return expiredAgents;
   }
 
+  /**
+   * Write-through of an agent record; storage failures never fail the caller
+   */
+  private async persist(agent: RegisteredAgent): Promise<void> {
+    try {
+      await this.storage.save(agent);
+      this.persistedAt.set(agent.agentCard.agentId, Date.now());
+      await this.afterWrite();
+    } catch (error) {
+      this.logger.error('Failed to persist agent', { agentId: agent.agentCard.agentId, error });
+    }
+  }
+
+  private async persistRemoval(agentId: string): Promise<void> {
+    this.persistedAt.delete(agentId);
+    try {
+      await this.storage.remove(agentId);
+      await this.afterWrite();
+    } catch (error) {
+      this.logger.error('Failed to persist agent removal', { agentId, error });
+    }
+  }
+
+  private async afterWrite(): Promise<void> {
+    this.writesSinceCompaction++;
+    if (this.writesSinceCompaction > Math.max(this.agents.size, 10) * this.compactionRatio) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Token check on reload: the signed expiry must be in the future
+   */
+  private isTokenUnexpired(token: TokenReference): boolean {
+    return typeof token.tokenExpiresAt === 'number' && token.tokenExpiresAt > Date.now();
+  }
+
   /**
    * Get registry statistics for governance
    */
@@ -207,8 +315,9 @@ export class AgentRegistry implements IA2AAgentRegistry {
    * Get agent by token (for authentication)
    */
   public async getAgentByToken(token: string): Promise<A2AAgentCard | null> {
+    const { tokenHash } = tokenReference(token);
     for (const agent of this.agents.values()) {
-      if (agent.token === token) {
+      if (agent.tokenHash === tokenHash) {
         return agent.agentCard;
       }
     }
@@ -220,7 +329,7 @@ export class AgentRegistry implements IA2AAgentRegistry {
    */
   public async validateToken(agentId: string, token: string): Promise<boolean> {
     const agent = this.agents.get(agentId);
-    return agent ? agent.token === token : false;
+    return agent ? agent.tokenHash === tokenReference(token).tokenHash : false;
   }
 
   /**
@@ -7,12 +7,25 @@
  */
 
 import yargs from 'yargs';
+import * as fs from 'fs';
 import * as winston from 'winston';
 import { RFC1918Validator } from '@cyreal/core';
 import type { A2AConfig } from '@cyreal/core';
-import { A2AServer } from '@cyreal/core';
+import {
+  A2AServer,
+  SecureA2ATokenManager,
+  EncryptionManager,
+  PCIAuditLogger,
+  UserAuthenticationManager,
+  EncryptedFileUserStore,
+  createKeyProviderFromEnv,
+  getDataPath,
+  getLogPath
+} from '@cyreal/core';
 import { AgentRegistry } from './agent-registry';
+import { FileRegistryStorage, MemoryRegistryStorage } from './registry-storage';
 import { ServiceDiscovery } from './service-discovery';
+import { CyrealdProvider } from './cyreald-provider';
 
 // Create logger
 const logger = winston.createLogger({
@@ -77,6 +90,19 @@ async function startServer(options: any): Promise<void> {
       process.exit(1);
     }
 
+    if (options.managementApi && options.allowHttp) {
+      logger.error('--management-api requires HTTPS and cannot be combined with --allow-http');
+      process.exit(1);
+    }
+
+    // The persisted key ring is wrapped by the key provider, so it needs one
+    const keyProviderConfigured = !!(process.env.CYREAL_KEY_PROVIDER ||
+      process.env.HARDWARE_ID || process.env.CYREAL_MASTER_KEY_FILE);
+    if (options.keyStore && !keyProviderConfigured) {
+      logger.error('--key-store requires a key provider: set HARDWARE_ID, CYREAL_MASTER_KEY_FILE or CYREAL_KEY_PROVIDER');
+      process.exit(1);
+    }
+
     logger.info('🤖 Starting Cyreal A2A Server', {
       cybernetic: 'PSRLV governance enabled',
       security: 'RFC-1918 enforced',
@@ -102,14 +128,96 @@ async function startServer(options: any): Promise<void> {
       },
       security: {
         ...DEFAULT_CONFIG.security,
-        enforceRFC1918: !options.disableRfc1918 // Allow override for testing
+        enforceRFC1918: !options.disableRfc1918, // Allow override for testing
+        agentPorts: parseAgentPorts(options.agentPorts || [])
       }
     };
 
     // Initialize components
-    const registry = new AgentRegistry(logger);
-    const discovery = new ServiceDiscovery(logger, registry);
-    const server = new A2AServer(logger, registry, discovery);
+    // A persisted key ring lets issued tokens and registrations survive a restart.
+    // CYREAL_A2A_TOKEN_SECRET becomes its fixed signing key and disables rotation.
+    const tokenSecret = process.env.CYREAL_A2A_TOKEN_SECRET;
+    if (tokenSecret) {
+      logger.warn('🔑 CYREAL_A2A_TOKEN_SECRET set - signing with it and not rotating token keys');
+    }
+    if (!keyProviderConfigured) {
+      logger.warn('🔑 No key provider configured (HARDWARE_ID, CYREAL_MASTER_KEY_FILE or CYREAL_KEY_PROVIDER) - ' +
+        (tokenSecret
+          ? 'token revocations do not survive a restart'
+          : 'token signing keys are kept in memory and issued tokens do not survive a restart'));
+    }
+    const tokenManager = new SecureA2ATokenManager(logger, tokenSecret, keyProviderConfigured
+      ? {
+          keyStorePath: options.keyStore || getDataPath('a2a-keyring.json'),
+          keyProvider: createKeyProviderFromEnv(),
+          rotationInterval: tokenSecret ? 0 : options.keyRotationHours * 60 * 60 * 1000
+        }
+      : {});
+    await tokenManager.initialize();
+    const registry = new AgentRegistry(logger, config.discovery.agentTimeout, {
+      storage: options.persistRegistry
+        ? new FileRegistryStorage(options.registryFile)
+        : new MemoryRegistryStorage(),
+      tokenValidator: async (_agentId, token) =>
+        !!token.tokenKid && tokenManager.isTokenReferenceValid(token.tokenHash, token.tokenKid)
+    });
+    await registry.load();
+
+    const discovery = new ServiceDiscovery(logger, registry, {
+      broadcastInterval: config.discovery.broadcastInterval,
+      agentTimeout: config.discovery.agentTimeout,
+      port: options.discoveryPort,
+      secret: options.discoverySecret || process.env.CYREAL_A2A_DISCOVERY_SECRET
+    });
+    const server = new A2AServer(logger, registry, discovery, tokenManager);
+
+    // Serial ports, governors and their events are owned by cyreald; reach them through its command port
+    let cyreald: CyrealdProvider | undefined;
+    if (options.cyreald) {
+      cyreald = new CyrealdProvider(logger, {
+        host: options.cyrealdHost,
+        port: options.cyrealdPort,
+        token: options.cyrealdToken || process.env.CYREAL_A2A_CYREALD_TOKEN,
+        tls: options.cyrealdTls || options.cyrealdCa
+          ? { ca: options.cyrealdCa ? fs.readFileSync(options.cyrealdCa) : undefined }
+          : undefined
+      });
+      await cyreald.start();
+      server.setPortProvider(cyreald);
+      server.setGovernanceProvider(cyreald);
+      server.setNotificationSource(cyreald);
+    }
+
+    // Operator login, MFA enrollment and session management under /manage
+    if (options.managementApi) {
+      const encryption = new EncryptionManager(logger, options.encryptionKeyStore || getDataPath('keys'), createKeyProviderFromEnv());
+      await encryption.initialize();
+
+      // Separate from the cyreald audit trail; each directory has one writer
+      const auditLogger = new PCIAuditLogger({
+        logPath: options.auditLogPath || getLogPath('pci-audit-a2a'),
+        retentionDays: 365,
+        maxFileSize: 100 * 1024 * 1024,
+        maxFiles: 1000,
+        encryptLogs: options.encryptAuditLogs
+      }, encryption);
+      await auditLogger.initialize();
+
+      const userAuth = new UserAuthenticationManager(
+        logger,
+        auditLogger,
+        new EncryptedFileUserStore(logger, encryption, options.userStore || getDataPath('users.enc'))
+      );
+      await userAuth.initialize();
+
+      server.setUserAuthentication(userAuth, auditLogger);
+    }
+
+    // Announce our own card on the LAN as soon as it is known
+    server.on('server:started', (agentCard) => {
+      discovery.setLocalAgentCard(agentCard);
+      discovery.announce().catch(error => logger.error('Error announcing agent:', error));
+    });
 
     // Start server
     await server.start(config);
@@ -118,6 +226,7 @@ async function startServer(options: any): Promise<void> {
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
       try {
+        cyreald?.stop();
         await server.stop();
         process.exit(0);
       } catch (error) {
@@ -138,6 +247,26 @@ async function startServer(options: any): Promise<void> {
   }
 }
 
+/**
+ * Parse --agent-ports grants ("<agentId>=<portId>,<portId>")
+ */
+function parseAgentPorts(entries: string[]): Record<string, string[]> {
+  const grants: Record<string, string[]> = {};
+
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    const agentId = entry.substring(0, separator).trim();
+    const ports = entry.substring(separator + 1).split(',').map(port => port.trim()).filter(Boolean);
+    if (separator < 1 || ports.length === 0) {
+      throw new Error(`Invalid --agent-ports entry '${entry}' (expected <agentId>=<portId>[,<portId>...])`);
+    }
+
+    grants[agentId] = [...(grants[agentId] ?? []), ...ports];
+  }
+
+  return grants;
+}
+
 // CLI definition
 const cli = yargs
   .scriptName('cyreal-a2a')
@@ -190,6 +319,88 @@ const cli = yargs
           default: false,
           description: '🚨 Disable RFC-1918 enforcement (DANGEROUS - testing only)'
         })
+        .option('agent-ports', {
+          type: 'array',
+          string: true,
+          description: 'Ports an agent may use, as <agentId>=<portId>[,<portId>...] (* for any agent or port); agents without a grant get none'
+        })
+        .option('discovery-secret', {
+          type: 'string',
+          description: 'Shared key for signed LAN discovery beacons (or CYREAL_A2A_DISCOVERY_SECRET)'
+        })
+        .option('discovery-port', {
+          type: 'number',
+          default: 3503,
+          description: 'UDP port for LAN discovery beacons'
+        })
+        .option('key-store', {
+          type: 'string',
+          description: 'Token signing key ring (default: <data dir>/a2a-keyring.json; needs a key provider)'
+        })
+        .option('key-rotation-hours', {
+          type: 'number',
+          default: 24,
+          description: 'Hours between token signing key rotations (0 disables; ignored with CYREAL_A2A_TOKEN_SECRET)'
+        })
+        .option('persist-registry', {
+          type: 'boolean',
+          default: true,
+          description: 'Keep agent registrations across restarts'
+        })
+        .option('registry-file', {
+          type: 'string',
+          description: 'Agent registry journal (default: <data dir>/a2a-registry.jsonl)'
+        })
+        .option('cyreald', {
+          type: 'boolean',
+          default: true,
+          description: 'Serve the serial ports of a running cyreald (--no-cyreald for discovery only)'
+        })
+        .option('cyreald-host', {
+          type: 'string',
+          default: '127.0.0.1',
+          description: 'Host of the cyreald TCP command port'
+        })
+        .option('cyreald-port', {
+          type: 'number',
+          default: 3500,
+          description: 'cyreald TCP command port'
+        })
+        .option('cyreald-token', {
+          type: 'string',
+          description: 'cyreald access token (or CYREAL_A2A_CYREALD_TOKEN)'
+        })
+        .option('cyreald-tls', {
+          type: 'boolean',
+          default: false,
+          description: 'Connect to cyreald over TLS'
+        })
+        .option('cyreald-ca', {
+          type: 'string',
+          description: 'CA certificate that issued the cyreald certificate (implies --cyreald-tls)'
+        })
+        .option('management-api', {
+          type: 'boolean',
+          default: false,
+          description: 'Serve operator login, MFA and session management under /manage (HTTPS only)'
+        })
+        .option('user-store', {
+          type: 'string',
+          description: 'Encrypted user store (default: <data dir>/users.enc)'
+        })
+        .option('encryption-key-store', {
+          type: 'string',
+          description: 'Encryption key store for users and audit logs (default: <data dir>/keys)'
+        })
+        .option('encrypt-audit-logs', {
+          type: 'boolean',
+          default: true,
+          description: 'Encrypt audit entries and the SIEM spool with the encryption key store'
+        })
+        .option('audit-log-path', {
+          type: 'string',
+          description: 'PCI audit log directory (default: <log dir>/pci-audit-a2a)'
+        })
         .option('verbose', {
           type: 'boolean',
           default: false,
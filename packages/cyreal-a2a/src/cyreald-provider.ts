@@ -0,0 +1,356 @@
+/**
+ * Cyreald Provider - Serial ports, governors and notifications of a running cyreald for the A2A server
+ *
+ * cyreald owns the serial ports; the A2A server runs as its own process.
+ * This provider keeps one authenticated connection to the cyreald TCP
+ * command port (NDJSON, optionally over TLS) and turns A2A calls into
+ * cyreald commands. Every command carries a requestId, so concurrent agent
+ * requests can share the connection. A dropped connection is re-established
+ * in the background; calls made while it is down fail immediately.
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as winston from 'winston';
+import type {
+  IA2APortProvider,
+  IA2AGovernanceProvider,
+  IA2ANotificationSource,
+  A2ANotification,
+  A2ASerialPortInfo,
+  A2AGovernorStatus,
+  PortOptions
+} from '@cyreal/core';
+
+export interface CyrealdProviderOptions {
+  host: string;
+  port: number;
+  token?: string;                 // cyreald security.authToken or a security.tokens entry
+  tls?: {
+    ca?: string | Buffer;         // CA that issued the cyreald certificate
+    cert?: string | Buffer;       // Client certificate, when cyreald requests one
+    key?: string | Buffer;
+    servername?: string;
+    rejectUnauthorized?: boolean; // Default: true
+  };
+  requestTimeout?: number;        // Default: 10000ms, added to a read's own timeout
+  reconnectDelay?: number;        // Default: 5000ms
+}
+
+interface PendingCommand {
+  resolve: (reply: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+export class CyrealdProvider extends EventEmitter
+  implements IA2APortProvider, IA2AGovernanceProvider, IA2ANotificationSource {
+  private socket?: net.Socket;
+  private buffer = '';
+  private ready = false;
+  private stopped = true;
+  private reconnectTimer?: NodeJS.Timeout;
+  private pendingCommands = new Map<string, PendingCommand>();
+  private notificationListeners: Array<(notification: A2ANotification) => void> = [];
+  private handshake?: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  };
+  private readonly requestTimeout: number;
+  private readonly reconnectDelay: number;
+
+  constructor(
+    private logger: winston.Logger,
+    private options: CyrealdProviderOptions
+  ) {
+    super();
+    this.requestTimeout = options.requestTimeout ?? 10000;
+    this.reconnectDelay = options.reconnectDelay ?? 5000;
+
+    if (options.tls?.rejectUnauthorized === false) {
+      this.logger.warn('⚠️  cyreald TLS certificate verification disabled - never use in production');
+    }
+  }
+
+  /**
+   * Connect to cyreald; after a failure, keep retrying in the background
+   */
+  public async start(): Promise<void> {
+    this.stopped = false;
+
+    try {
+      await this.connect();
+    } catch (error) {
+      this.logger.warn('cyreald not reachable, retrying in the background', {
+        host: this.options.host,
+        port: this.options.port,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.scheduleReconnect();
+    }
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.socket?.destroy();
+  }
+
+  public isConnected(): boolean {
+    return this.ready;
+  }
+
+  public async listPorts(): Promise<A2ASerialPortInfo[]> {
+    const reply = await this.command('list_system_ports');
+    return reply.ports;
+  }
+
+  public async readPort(portId: string, options: { maxBytes: number; timeout: number }): Promise<Buffer> {
+    const reply = await this.command('read_port', portId, { maxBytes: options.maxBytes, timeout: options.timeout }, options.timeout);
+    return Buffer.from(reply.data, 'base64');
+  }
+
+  public async writePort(portId: string, data: Buffer): Promise<number> {
+    const reply = await this.command('send_data', portId, { data: data.toString('base64'), encoding: 'base64' });
+    return reply.bytes;
+  }
+
+  public async configurePort(portId: string, options: Partial<PortOptions>): Promise<PortOptions | undefined> {
+    const reply = await this.command('configure_port', portId, { options });
+    return reply.options;
+  }
+
+  public async getGovernorStatus(): Promise<A2AGovernorStatus[]> {
+    const reply = await this.command('governor_status');
+    return reply.governors;
+  }
+
+  /**
+   * Receive cyreald notifications; the subscription is renewed on every reconnect
+   */
+  public onNotification(callback: (notification: A2ANotification) => void): void {
+    this.notificationListeners.push(callback);
+    if (this.ready && this.notificationListeners.length === 1) {
+      this.subscribeNotifications();
+    }
+  }
+
+  private subscribeNotifications(): void {
+    this.command('subscribe_notifications').catch(error => {
+      this.logger.warn('cyreald notification subscription failed', { error: error.message });
+    });
+  }
+
+  /**
+   * Send a command and wait for the reply carrying its requestId
+   */
+  private command(command: string, portId?: string, params?: Record<string, any>, extraTimeout = 0): Promise<any> {
+    if (!this.ready || !this.socket) {
+      return Promise.reject(new Error('Not connected to cyreald'));
+    }
+
+    const requestId = crypto.randomUUID();
+    const socket = this.socket;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCommands.delete(requestId);
+        reject(new Error(`cyreald did not answer ${command}`));
+      }, this.requestTimeout + extraTimeout);
+
+      this.pendingCommands.set(requestId, { resolve, reject, timer });
+      socket.write(JSON.stringify({ command, portId, params, requestId }) + '\n');
+    });
+  }
+
+  /**
+   * Open the socket and complete the welcome and auth handshake
+   */
+  private connect(): Promise<void> {
+    const { host, port } = this.options;
+
+    return new Promise((resolve, reject) => {
+      this.buffer = '';
+
+      const socket = this.options.tls
+        ? tls.connect({
+            host,
+            port,
+            ca: this.options.tls.ca,
+            cert: this.options.tls.cert,
+            key: this.options.tls.key,
+            servername: this.options.tls.servername,
+            rejectUnauthorized: this.options.tls.rejectUnauthorized ?? true
+          })
+        : net.connect({ host, port });
+      this.socket = socket;
+
+      // Also catches a port that never sends an NDJSON welcome
+      const timer = setTimeout(() => {
+        this.failHandshake(new Error('cyreald handshake timed out'));
+        socket.destroy();
+      }, this.requestTimeout);
+      this.handshake = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk: string) => this.handleData(chunk));
+      socket.on('error', (error) => this.failHandshake(error));
+      socket.on('close', () => this.handleClose(socket));
+    });
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.substring(0, newline).trim();
+      this.buffer = this.buffer.substring(newline + 1);
+      if (line) {
+        this.handleLine(line);
+      }
+    }
+
+    if (this.buffer.length > MAX_LINE_LENGTH) {
+      this.logger.error('Oversized message from cyreald, reconnecting');
+      this.socket?.destroy();
+    }
+  }
+
+  private handleLine(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.logger.warn('Invalid message from cyreald');
+      return;
+    }
+
+    const pending = message.requestId !== undefined ? this.pendingCommands.get(message.requestId) : undefined;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingCommands.delete(message.requestId);
+      if (message.type === 'error') {
+        pending.reject(new Error(message.message));
+      } else {
+        pending.resolve(message);
+      }
+      return;
+    }
+
+    switch (message.type) {
+      case 'notification':
+        for (const listener of this.notificationListeners) {
+          listener(message.notification);
+        }
+        break;
+
+      case 'welcome':
+        this.handleWelcome(message);
+        break;
+
+      case 'auth_result':
+        if (message.success) {
+          this.completeHandshake();
+        } else {
+          this.failHandshake(new Error(`cyreald rejected the token: ${message.reason}`));
+          this.socket?.destroy();
+        }
+        break;
+    }
+  }
+
+  private handleWelcome(welcome: any): void {
+    if (welcome.framing && welcome.framing !== 'ndjson') {
+      this.failHandshake(new Error(`cyreald uses ${welcome.framing} framing; ndjson is required`));
+      this.socket?.destroy();
+      return;
+    }
+
+    if (this.options.token) {
+      this.socket?.write(JSON.stringify({ command: 'auth', params: { token: this.options.token } }) + '\n');
+    } else if (welcome.authRequired) {
+      this.failHandshake(new Error('cyreald requires authentication but no token is configured'));
+      this.socket?.destroy();
+    } else {
+      this.completeHandshake();
+    }
+  }
+
+  private completeHandshake(): void {
+    this.ready = true;
+    this.handshake?.resolve();
+    this.handshake = undefined;
+
+    this.logger.info('Connected to cyreald', { host: this.options.host, port: this.options.port });
+    if (this.notificationListeners.length > 0) {
+      this.subscribeNotifications();
+    }
+    this.emit('connected');
+  }
+
+  private failHandshake(error: Error): void {
+    if (this.handshake) {
+      this.handshake.reject(error);
+      this.handshake = undefined;
+    } else {
+      this.logger.warn('cyreald connection error', { error: error.message });
+    }
+  }
+
+  private handleClose(socket: net.Socket): void {
+    if (this.socket !== socket) {
+      return;
+    }
+
+    const wasReady = this.ready;
+    this.ready = false;
+    this.socket = undefined;
+    if (this.handshake) {
+      this.failHandshake(new Error('Connection closed during handshake'));
+    }
+
+    for (const [requestId, pending] of this.pendingCommands) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Connection to cyreald lost'));
+      this.pendingCommands.delete(requestId);
+    }
+
+    if (wasReady) {
+      this.logger.warn('Connection to cyreald lost');
+      this.emit('disconnected');
+    }
+
+    if (!this.stopped && wasReady) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch(error => {
+        this.logger.debug('cyreald reconnect failed', { error: error.message });
+        this.scheduleReconnect();
+      });
+    }, this.reconnectDelay);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * A2A Discovery Beacon
+ *
+ * Signed UDP multicast transport for LAN service discovery. Beacons are
+ * HMAC-SHA256 signed with a shared plant secret, carry a timestamp and
+ * nonce against replay, and are only sent and accepted on RFC-1918
+ * interfaces with a TTL of 1 so they never leave the local segment.
+ */
+
+import * as dgram from 'dgram';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import * as winston from 'winston';
+import { EventEmitter } from 'events';
+import { RFC1918Validator } from '@cyreal/core';
+import type { A2AAgentCard } from '@cyreal/core';
+
+export type BeaconType = 'agent.announce' | 'agent.query' | 'agent.bye';
+
+export interface BeaconMessage {
+  v: 1;
+  type: BeaconType;
+  sender: string;
+  nonce: string;
+  timestamp: number;
+  agent?: A2AAgentCard;
+  agentId?: string;
+}
+
+export interface BeaconConfig {
+  multicastAddress: string;
+  port: number;
+  secret: string;
+  replayWindow: number;
+}
+
+const MAX_DATAGRAM_SIZE = 8192;
+
+export class DiscoveryBeacon extends EventEmitter {
+  private logger: winston.Logger;
+  private config: BeaconConfig;
+  private validator = new RFC1918Validator();
+  private socket?: dgram.Socket;
+  private interfaces: string[] = [];
+  private seenNonces = new Map<string, number>();
+  public readonly instanceId = crypto.randomUUID();
+
+  constructor(logger: winston.Logger, config: BeaconConfig) {
+    super();
+    this.logger = logger;
+    this.config = config;
+  }
+
+  /**
+   * Bind the multicast socket and join the group on every RFC-1918 interface
+   */
+  public async start(): Promise<void> {
+    this.interfaces = this.getPrivateInterfaces();
+
+    if (this.interfaces.length === 0) {
+      this.logger.warn('No RFC-1918 interfaces found - LAN discovery disabled');
+      return;
+    }
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    socket.on('message', (message, rinfo) => this.handleDatagram(message, rinfo));
+    socket.on('error', error => {
+      this.logger.error('Discovery beacon socket error:', error);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(this.config.port, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+
+    socket.setMulticastTTL(1);
+    socket.setMulticastLoopback(true);
+
+    for (const address of this.interfaces) {
+      try {
+        socket.addMembership(this.config.multicastAddress, address);
+      } catch (error) {
+        this.logger.warn('Failed to join discovery group on interface', { address, error });
+      }
+    }
+
+    this.socket = socket;
+
+    this.logger.info('Discovery beacon listening', {
+      group: this.config.multicastAddress,
+      port: this.config.port,
+      interfaces: this.interfaces
+    });
+  }
+
+  /**
+   * Leave the multicast group and close the socket
+   */
+  public async stop(): Promise<void> {
+    const socket = this.socket;
+    this.socket = undefined;
+    this.seenNonces.clear();
+
+    if (socket) {
+      await new Promise<void>(resolve => socket.close(() => resolve()));
+    }
+  }
+
+  public get isListening(): boolean {
+    return this.socket !== undefined;
+  }
+
+  /**
+   * Sign and multicast a beacon on every RFC-1918 interface
+   */
+  public async send(type: BeaconType, fields: Pick<BeaconMessage, 'agent' | 'agentId'> = {}): Promise<void> {
+    if (!this.socket) {
+      return;
+    }
+
+    const payload = JSON.stringify({
+      v: 1,
+      type,
+      sender: this.instanceId,
+      nonce: crypto.randomBytes(16).toString('hex'),
+      timestamp: Date.now(),
+      ...fields
+    } as BeaconMessage);
+
+    const datagram = Buffer.from(JSON.stringify({ payload, sig: this.sign(payload) }));
+
+    if (datagram.length > MAX_DATAGRAM_SIZE) {
+      this.logger.warn('Discovery beacon too large, not sent', {
+        type,
+        agentId: fields.agent?.agentId,
+        bytes: datagram.length
+      });
+      return;
+    }
+
+    for (const address of this.interfaces) {
+      try {
+        this.socket.setMulticastInterface(address);
+        await new Promise<void>((resolve, reject) => {
+          this.socket!.send(datagram, this.config.port, this.config.multicastAddress, error => {
+            error ? reject(error) : resolve();
+          });
+        });
+      } catch (error) {
+        this.logger.warn('Failed to send discovery beacon', { type, address, error });
+      }
+    }
+  }
+
+  /**
+   * Verify and decode an incoming beacon; anything suspect is dropped
+   */
+  private handleDatagram(message: Buffer, rinfo: dgram.RemoteInfo): void {
+    if (!this.validator.isRFC1918Address(rinfo.address)) {
+      this.logger.warn('Discovery beacon from non-RFC-1918 address dropped', { address: rinfo.address });
+      return;
+    }
+
+    if (message.length > MAX_DATAGRAM_SIZE) {
+      return;
+    }
+
+    let beacon: BeaconMessage;
+    try {
+      const envelope = JSON.parse(message.toString('utf8'));
+      if (typeof envelope.payload !== 'string' || typeof envelope.sig !== 'string' || !this.verify(envelope.payload, envelope.sig)) {
+        this.logger.warn('Discovery beacon with invalid signature dropped', { address: rinfo.address });
+        return;
+      }
+      beacon = JSON.parse(envelope.payload);
+    } catch {
+      this.logger.debug('Malformed discovery beacon dropped', { address: rinfo.address });
+      return;
+    }
+
+    // Our own beacons come back through multicast loopback
+    if (beacon.v !== 1 || beacon.sender === this.instanceId) {
+      return;
+    }
+
+    if (!this.isFresh(beacon)) {
+      this.logger.warn('Stale or replayed discovery beacon dropped', { address: rinfo.address, type: beacon.type });
+      return;
+    }
+
+    this.emit('beacon', beacon, rinfo.address);
+  }
+
+  /**
+   * Reject beacons outside the replay window or whose nonce was already seen
+   */
+  private isFresh(beacon: BeaconMessage): boolean {
+    const now = Date.now();
+
+    for (const [nonce, seenAt] of this.seenNonces) {
+      if (now - seenAt > this.config.replayWindow * 2) {
+        this.seenNonces.delete(nonce);
+      }
+    }
+
+    if (typeof beacon.timestamp !== 'number' || Math.abs(now - beacon.timestamp) > this.config.replayWindow) {
+      return false;
+    }
+
+    if (typeof beacon.nonce !== 'string' || this.seenNonces.has(beacon.nonce)) {
+      return false;
+    }
+
+    this.seenNonces.set(beacon.nonce, now);
+    return true;
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.config.secret).update(payload).digest('hex');
+  }
+
+  private verify(payload: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(payload), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * IPv4 addresses of local interfaces inside RFC-1918 ranges
+   */
+  private getPrivateInterfaces(): string[] {
+    const addresses: string[] = [];
+
+    for (const entries of Object.values(os.networkInterfaces())) {
+      for (const entry of entries || []) {
+        if (entry.family === 'IPv4' && !entry.internal && this.validator.isRFC1918Address(entry.address)) {
+          addresses.push(entry.address);
+        }
+      }
+    }
+
+    return addresses;
+  }
+}
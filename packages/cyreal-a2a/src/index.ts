@@ -10,7 +10,9 @@
 
 export * from './cli';
 export * from './agent-registry';
+export * from './registry-storage';
 export * from './service-discovery';
+export * from './cyreald-provider';
 export * from './a2a-governor';
 
 // Re-export core A2A interfaces and implementations
@@ -0,0 +1,208 @@
+/**
+ * A2A Agent Registry Storage
+ *
+ * Pluggable persistence for the agent registry. The file store keeps an
+ * append-only JSON-lines journal under the Cyreal data directory so that a
+ * gateway restart does not force every agent to re-register. Bearer tokens
+ * are never stored; agents keep only a hash, the signing kid and the expiry.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { A2AAgentCard } from '@cyreal/core';
+import { getDataPath } from '@cyreal/core';
+
+export interface RegisteredAgent {
+  agentCard: A2AAgentCard;
+  tokenHash: string;         // SHA-256 of the agent's bearer token
+  tokenKid?: string;         // Signing key that issued it
+  tokenExpiresAt?: number;
+  registeredAt: Date;
+  lastHeartbeat: Date;
+  connectionCount: number;
+}
+
+export interface IAgentRegistryStorage {
+  /**
+   * Load all stored agents
+   */
+  load(): Promise<RegisteredAgent[]>;
+
+  /**
+   * Insert or replace an agent
+   */
+  save(agent: RegisteredAgent): Promise<void>;
+
+  /**
+   * Remove an agent
+   */
+  remove(agentId: string): Promise<void>;
+
+  /**
+   * Rewrite the store so it holds exactly the given agents
+   */
+  compact(agents: RegisteredAgent[]): Promise<void>;
+}
+
+export type TokenReference = Pick<RegisteredAgent, 'tokenHash' | 'tokenKid' | 'tokenExpiresAt'>;
+
+/**
+ * What the registry keeps of a bearer token: enough to recognize it and to
+ * drop the agent once it can no longer authenticate, but not to replay it
+ */
+export function tokenReference(token: string): TokenReference {
+  const reference: TokenReference = {
+    tokenHash: crypto.createHash('sha256').update(token).digest('hex')
+  };
+
+  try {
+    const [header, payload] = token.split('.');
+    reference.tokenKid = JSON.parse(Buffer.from(header, 'base64url').toString()).kid;
+    const exp = JSON.parse(Buffer.from(payload, 'base64url').toString()).exp;
+    reference.tokenExpiresAt = typeof exp === 'number' ? exp : undefined;
+  } catch {
+    // Not one of our signed tokens; it is recognized by its hash only
+  }
+
+  return reference;
+}
+
+/**
+ * Non-persistent storage; the registry behaves as a plain in-memory map
+ */
+export class MemoryRegistryStorage implements IAgentRegistryStorage {
+  public async load(): Promise<RegisteredAgent[]> {
+    return [];
+  }
+
+  public async save(): Promise<void> {}
+
+  public async remove(): Promise<void> {}
+
+  public async compact(): Promise<void> {}
+}
+
+type JournalRecord =
+  | { op: 'save'; agent: RegisteredAgent }
+  | { op: 'remove'; agentId: string };
+
+/**
+ * Append-only JSON-lines journal, replayed on load and rewritten on compaction
+ */
+export class FileRegistryStorage implements IAgentRegistryStorage {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private journalLength = 0;
+
+  constructor(filePath: string = getDataPath('a2a-registry.jsonl')) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Number of records written since the last compaction
+   */
+  public get length(): number {
+    return this.journalLength;
+  }
+
+  public async load(): Promise<RegisteredAgent[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // appendFile only applies the mode when it creates the journal
+    await this.enforceMode();
+
+    const agents = new Map<string, RegisteredAgent>();
+    const lines = content.split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn final line from a crash mid-write; earlier records still apply
+        continue;
+      }
+
+      if (record.op === 'save' && record.agent?.agentCard?.agentId) {
+        agents.set(record.agent.agentCard.agentId, this.revive(record.agent));
+      } else if (record.op === 'remove') {
+        agents.delete(record.agentId);
+      }
+    }
+
+    this.journalLength = lines.length;
+    return Array.from(agents.values());
+  }
+
+  public async save(agent: RegisteredAgent): Promise<void> {
+    await this.append({ op: 'save', agent });
+  }
+
+  public async remove(agentId: string): Promise<void> {
+    await this.append({ op: 'remove', agentId });
+  }
+
+  public async compact(agents: RegisteredAgent[]): Promise<void> {
+    await this.enqueue(async () => {
+      const content = agents
+        .map(agent => JSON.stringify({ op: 'save', agent } as JournalRecord) + '\n')
+        .join('');
+      const tempPath = `${this.filePath}.tmp`;
+
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+      await fs.promises.writeFile(tempPath, content, { mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+
+      this.journalLength = agents.length;
+    });
+  }
+
+  private async append(record: JournalRecord): Promise<void> {
+    await this.enqueue(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n', { mode: 0o600 });
+      this.journalLength++;
+    });
+  }
+
+  /**
+   * Restrict a journal created or copied with a wider mode to its owner
+   */
+  private async enforceMode(): Promise<void> {
+    if (process.platform === 'win32') {
+      return;
+    }
+
+    const stats = await fs.promises.stat(this.filePath);
+    if ((stats.mode & 0o077) !== 0) {
+      await fs.promises.chmod(this.filePath, 0o600);
+    }
+  }
+
+  /**
+   * Serialize writes so journal records never interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private revive(agent: RegisteredAgent): RegisteredAgent {
+    return {
+      ...agent,
+      agentCard: { ...agent.agentCard, lastSeen: new Date(agent.agentCard.lastSeen) },
+      registeredAt: new Date(agent.registeredAt),
+      lastHeartbeat: new Date(agent.lastHeartbeat)
+    };
+  }
+}
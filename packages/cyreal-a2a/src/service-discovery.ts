@@ -2,18 +2,25 @@
  * A2A Service Discovery Implementation
  * 
  * Implements agent discovery and announcement using cybernetic principles
- * Integrates with the agent registry for centralized management
+ * Integrates with the agent registry for centralized management and
+ * announces/discovers agents on the LAN through a signed multicast beacon
  */
 
 import * as winston from 'winston';
 import { EventEmitter } from 'events';
+import { RFC1918Validator } from '@cyreal/core';
 import type { A2AAgentCard, IA2AServiceDiscovery, IA2AAgentRegistry } from '@cyreal/core';
 import { AgentRegistry } from './agent-registry';
+import { DiscoveryBeacon, BeaconMessage } from './discovery-beacon';
 
-interface DiscoveryConfig {
+export interface DiscoveryConfig {
   broadcastInterval: number;
   agentTimeout: number;
   maxRetries: number;
+  multicastAddress: string;
+  port: number;
+  secret?: string;      // Shared beacon key; LAN discovery is disabled without it
+  queryTimeout: number; // How long discover() waits for beacon replies
 }
 
 export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscovery {
@@ -23,7 +30,10 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
   private isRunning = false;
   private broadcastTimer?: NodeJS.Timeout;
   private cleanupTimer?: NodeJS.Timeout;
-  private discoveredAgents: Map<string, { agent: A2AAgentCard; lastSeen: Date }> = new Map();
+  private discoveredAgents: Map<string, { agent: A2AAgentCard; lastSeen: Date; address?: string }> = new Map();
+  private validator = new RFC1918Validator();
+  private beacon?: DiscoveryBeacon;
+  private localAgent?: A2AAgentCard;
   private callbacks = {
     discovered: new Set<(agent: A2AAgentCard) => void>(),
     lost: new Set<(agentId: string) => void>()
@@ -41,6 +51,9 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
       broadcastInterval: 30000, // 30 seconds
       agentTimeout: 120000,     // 2 minutes  
       maxRetries: 3,
+      multicastAddress: '239.255.35.0',
+      port: 3503,
+      queryTimeout: 2000,
       ...config
     };
   }
@@ -62,6 +75,8 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
 
     this.isRunning = true;
 
+    await this.startBeacon();
+
     // Start periodic announcement (Probe phase)
     this.broadcastTimer = setInterval(async () => {
       try {
@@ -112,6 +127,15 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
       this.cleanupTimer = undefined;
     }
 
+    if (this.beacon) {
+      if (this.localAgent) {
+        await this.beacon.send('agent.bye', { agentId: this.localAgent.agentId });
+      }
+      await this.beacon.stop();
+      this.beacon.removeAllListeners();
+      this.beacon = undefined;
+    }
+
     this.discoveredAgents.clear();
     this.callbacks.discovered.clear();
     this.callbacks.lost.clear();
@@ -119,6 +143,14 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
     this.logger.info('Service discovery stopped');
   }
 
+  /**
+   * Set the card of the agent served by this process so it is announced
+   * alongside registry agents
+   */
+  public setLocalAgentCard(agent: A2AAgentCard): void {
+    this.localAgent = agent;
+  }
+
   /**
    * Announce this agent's capabilities (Probe phase)
    */
@@ -130,21 +162,26 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
     try {
       // Get our registered agents to announce
       const agents = await this.registry.getAgents();
+      if (this.localAgent && !agents.some(agent => agent.agentId === this.localAgent!.agentId)) {
+        agents.unshift(this.localAgent);
+      }
       
       this.logger.debug('Announcing agent capabilities', {
         agentCount: agents.length,
+        network: this.beacon?.isListening ?? false,
         phase: 'probe'
       });
 
-      // In a real implementation, this would broadcast to network
-      // For now, we'll emit an event for other components to handle
-      agents.forEach(agent => {
+      for (const agent of agents) {
         this.emit('announcement', {
           type: 'agent.announce',
           agent,
           timestamp: new Date()
         });
-      });
+
+        // One agent per datagram keeps beacons well under the MTU-safe size
+        await this.beacon?.send('agent.announce', { agent });
+      }
 
     } catch (error) {
       this.logger.error('Error announcing services:', error);
@@ -162,8 +199,6 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
     this.logger.debug('Discovering available agents', { phase: 'sense' });
 
     try {
-      // In a real implementation, this would query network for agents
-      // For now, return agents from our registry
       const agents = await this.registry.getAgents();
 
       // Update discovered agents cache
@@ -174,12 +209,20 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
         });
       });
 
+      // Ask peers on the LAN to announce themselves and collect replies
+      if (this.beacon?.isListening) {
+        await this.beacon.send('agent.query');
+        await new Promise(resolve => setTimeout(resolve, this.config.queryTimeout));
+      }
+
+      const discovered = this.getDiscoveredAgents();
+
       this.logger.debug('Agent discovery completed', {
-        discoveredCount: agents.length,
-        totalCached: this.discoveredAgents.size
+        registryCount: agents.length,
+        discoveredCount: discovered.length
       });
 
-      return agents;
+      return discovered;
 
     } catch (error) {
       this.logger.error('Error discovering agents:', error);
@@ -204,14 +247,15 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
   /**
    * Handle agent discovery announcement
    */
-  public handleAgentAnnouncement(agent: A2AAgentCard): void {
+  public handleAgentAnnouncement(agent: A2AAgentCard, address?: string): void {
     const existing = this.discoveredAgents.get(agent.agentId);
     
     if (!existing) {
       // New agent discovered
       this.discoveredAgents.set(agent.agentId, {
         agent,
-        lastSeen: new Date()
+        lastSeen: new Date(),
+        address
       });
 
       this.logger.info('New agent discovered', {
@@ -233,6 +277,7 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
       // Update existing agent
       existing.agent = agent;
       existing.lastSeen = new Date();
+      existing.address = address ?? existing.address;
       
       this.logger.debug('Agent announcement updated', {
         agentId: agent.agentId,
@@ -261,14 +306,7 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
           timeoutMs: timeSinceLastSeen
         });
 
-        // Notify callbacks
-        this.callbacks.lost.forEach(callback => {
-          try {
-            callback(agentId);
-          } catch (error) {
-            this.logger.error('Error in lost agent callback:', error);
-          }
-        });
+        this.notifyAgentLost(agentId);
       }
     }
 
@@ -280,6 +318,129 @@ export class ServiceDiscovery extends EventEmitter implements IA2AServiceDiscove
     }
   }
 
+  /**
+   * Notify lost agent callbacks
+   */
+  private notifyAgentLost(agentId: string): void {
+    this.callbacks.lost.forEach(callback => {
+      try {
+        callback(agentId);
+      } catch (error) {
+        this.logger.error('Error in lost agent callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Start the LAN beacon when a shared secret is configured
+   */
+  private async startBeacon(): Promise<void> {
+    if (!this.config.secret) {
+      this.logger.warn('No discovery secret configured - LAN discovery disabled, registry only');
+      return;
+    }
+
+    const beacon = new DiscoveryBeacon(this.logger, {
+      multicastAddress: this.config.multicastAddress,
+      port: this.config.port,
+      secret: this.config.secret,
+      replayWindow: 30000
+    });
+
+    beacon.on('beacon', (message: BeaconMessage, address: string) => {
+      this.handleBeacon(message, address).catch(error => {
+        this.logger.error('Error handling discovery beacon:', error);
+      });
+    });
+
+    try {
+      await beacon.start();
+      this.beacon = beacon;
+    } catch (error) {
+      this.logger.error('Failed to start discovery beacon, continuing registry only:', error);
+    }
+  }
+
+  /**
+   * Dispatch a verified beacon from a peer on the LAN
+   */
+  private async handleBeacon(message: BeaconMessage, address: string): Promise<void> {
+    switch (message.type) {
+      case 'agent.announce': {
+        const agent = this.parseAnnouncedAgent(message.agent, address);
+        if (agent) {
+          this.handleAgentAnnouncement(agent, address);
+        }
+        break;
+      }
+
+      case 'agent.query':
+        await this.announce();
+        break;
+
+      case 'agent.bye': {
+        const discovery = typeof message.agentId === 'string'
+          ? this.discoveredAgents.get(message.agentId)
+          : undefined;
+
+        // Only the host that announced an agent may withdraw it
+        if (discovery && discovery.address === address) {
+          this.discoveredAgents.delete(message.agentId!);
+          this.logger.info('Agent left the network', {
+            agentId: message.agentId,
+            name: discovery.agent.name
+          });
+          this.notifyAgentLost(message.agentId!);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Validate an announced agent card; endpoints must stay on RFC-1918 hosts
+   */
+  private parseAnnouncedAgent(agent: A2AAgentCard | undefined, address: string): A2AAgentCard | null {
+    if (!agent || typeof agent.agentId !== 'string' || typeof agent.name !== 'string' ||
+        !Array.isArray(agent.capabilities) || !Array.isArray(agent.endpoints)) {
+      this.logger.warn('Invalid agent announcement dropped', { address });
+      return null;
+    }
+
+    if (this.localAgent && agent.agentId === this.localAgent.agentId) {
+      return null;
+    }
+
+    const endpoints = [];
+    for (const endpoint of agent.endpoints) {
+      let url: URL;
+      try {
+        url = new URL(endpoint.url);
+      } catch {
+        this.logger.warn('Agent announcement with invalid endpoint dropped', { agentId: agent.agentId, address });
+        return null;
+      }
+
+      // Agents bound to all interfaces are reachable at the beacon's source address
+      if (url.hostname === '0.0.0.0' || url.hostname === '[::]') {
+        url.hostname = address;
+      }
+
+      if (!this.validator.isRFC1918Address(url.hostname)) {
+        this.logger.warn('Agent announcement with non-RFC-1918 endpoint dropped', {
+          agentId: agent.agentId,
+          endpoint: endpoint.url,
+          address
+        });
+        return null;
+      }
+
+      endpoints.push({ ...endpoint, url: url.toString() });
+    }
+
+    return { ...agent, endpoints, lastSeen: new Date() };
+  }
+
   /**
    * Get discovery statistics for cybernetic governance
    */
@@ -0,0 +1,592 @@
+/**
+ * A2A Client Implementation
+ *
+ * Connects an agent to a remote A2A server: registers the agent card,
+ * keeps the issued token pair fresh, retries transient failures with
+ * backoff and receives push notifications over WebSocket
+ */
+
+import * as https from 'https';
+import * as http from 'http';
+import * as net from 'net';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import * as winston from 'winston';
+
+import { IA2AClient } from '../interfaces/a2a';
+import { A2AAgentCard, A2AEndpoint, Message } from '../interfaces/protocol';
+import { TokenPair, A2AAuthResult } from '../interfaces/security';
+import { RFC1918Validator } from '../utils/rfc1918-validator';
+
+const WS_PATH = '/a2a/ws';
+const MAX_RESPONSE_SIZE = 1024 * 1024;
+const AUTH_REQUIRED_CODES = [-32401];
+const TRANSIENT_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN'];
+// A timed-out request may still have run; only these are safe to send twice
+const IDEMPOTENT_METHODS = ['serial.list', 'serial.configure', 'governance.status', 'agent.discover', 'heartbeat', 'ping'];
+
+/**
+ * A2A client options with secure defaults
+ */
+export interface A2AClientOptions {
+  requestTimeout?: number; // Default: 30000ms
+  retry?: {
+    attempts: number; // Default: 3, idempotent methods only
+    baseDelay: number; // Default: 500ms, doubled per attempt
+    maxDelay: number; // Default: 10000ms
+  };
+  renewBeforeExpiry?: number; // Default: 300000ms
+  notifications?: boolean; // Open the WebSocket push channel. Default: true
+  enforceRFC1918?: boolean; // Default: true
+  allowInsecure?: boolean; // Permit plain HTTP endpoints. Default: false
+  tls?: {
+    ca?: string | Buffer;
+    cert?: string | Buffer;
+    key?: string | Buffer;
+    rejectUnauthorized?: boolean; // Default: true
+  };
+}
+
+/**
+ * Failure that may succeed when retried (network errors, 429, 5xx)
+ */
+class TransientError extends Error {}
+
+interface PendingRequest {
+  resolve: (response: Message) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class A2AClient extends EventEmitter implements IA2AClient {
+  private logger: winston.Logger;
+  private options: Required<Omit<A2AClientOptions, 'tls'>> & Pick<A2AClientOptions, 'tls'>;
+  private validator = new RFC1918Validator();
+  private agentCard?: A2AAgentCard;
+  private requestUrl?: URL;
+  private socketUrl?: URL;
+  private httpsAgent?: https.Agent;
+  private tokenPair?: TokenPair;
+  private socket?: WebSocket;
+  private renewalTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private registering?: Promise<TokenPair>;
+  private connected = false;
+  private pendingRequests = new Map<string, PendingRequest>();
+  private notificationCallbacks: Array<(message: Message) => void> = [];
+
+  constructor(logger: winston.Logger, options: A2AClientOptions = {}) {
+    super();
+    this.logger = logger;
+    this.options = {
+      requestTimeout: options.requestTimeout ?? 30000,
+      retry: options.retry ?? { attempts: 3, baseDelay: 500, maxDelay: 10000 },
+      renewBeforeExpiry: options.renewBeforeExpiry ?? 5 * 60 * 1000,
+      notifications: options.notifications ?? true,
+      enforceRFC1918: options.enforceRFC1918 ?? true,
+      allowInsecure: options.allowInsecure ?? false,
+      tls: options.tls
+    };
+
+    if (options.tls?.rejectUnauthorized === false) {
+      this.logger.warn('⚠️  A2A client TLS certificate verification disabled - never use in production');
+    }
+  }
+
+  /**
+   * Register with a remote A2A server and open the notification channel
+   */
+  public async connect(endpoint: A2AEndpoint, agentCard: A2AAgentCard): Promise<A2AAuthResult> {
+    const url = new URL(endpoint.url);
+    const secure = url.protocol === 'https:' || url.protocol === 'wss:';
+
+    if (!secure && !this.options.allowInsecure) {
+      return { success: false, reason: 'Insecure endpoint: HTTPS required' };
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (this.options.enforceRFC1918 && net.isIP(host) && !this.validator.isRFC1918Address(host)) {
+      return { success: false, reason: `RFC-1918 Security Violation: ${host} is not a private address` };
+    }
+
+    // Requests go over HTTP(S) POST; notifications over the WebSocket endpoint
+    this.requestUrl = new URL(url.toString());
+    this.requestUrl.protocol = secure ? 'https:' : 'http:';
+    if (url.protocol === 'wss:' || url.protocol === 'ws:') {
+      this.requestUrl.pathname = '/a2a';
+    }
+    this.socketUrl = new URL(WS_PATH, this.requestUrl);
+    this.socketUrl.protocol = secure ? 'wss:' : 'ws:';
+
+    this.httpsAgent = secure
+      ? new https.Agent({
+          keepAlive: true,
+          ca: this.options.tls?.ca,
+          cert: this.options.tls?.cert,
+          key: this.options.tls?.key,
+          rejectUnauthorized: this.options.tls?.rejectUnauthorized ?? true
+        })
+      : undefined;
+
+    this.agentCard = agentCard;
+
+    try {
+      const tokenPair = await this.register();
+      this.connected = true;
+
+      if (this.options.notifications) {
+        await this.openSocket();
+      }
+
+      this.logger.info('Connected to A2A server', {
+        endpoint: this.requestUrl.origin,
+        agentId: agentCard.agentId,
+        expiresAt: tokenPair.expiresAt
+      });
+
+      return { success: true, agentCard, tokenPair };
+    } catch (error) {
+      this.logger.error('A2A connection failed', { endpoint: endpoint.url, error });
+      await this.disconnect();
+      return { success: false, reason: error instanceof Error ? error.message : 'Connection failed' };
+    }
+  }
+
+  /**
+   * Unregister and close the notification channel
+   */
+  public async disconnect(): Promise<void> {
+    const wasConnected = this.connected;
+    this.connected = false;
+
+    if (this.renewalTimer) {
+      clearTimeout(this.renewalTimer);
+      this.renewalTimer = undefined;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    if (wasConnected && this.tokenPair) {
+      try {
+        await this.post(this.createRequest('agent.unregister'));
+      } catch (error) {
+        this.logger.debug('Unregister on disconnect failed', { error });
+      }
+    }
+
+    this.closeSocket();
+    this.rejectPending(new Error('Client disconnected'));
+    this.tokenPair = undefined;
+    this.httpsAgent?.destroy();
+    this.httpsAgent = undefined;
+  }
+
+  /**
+   * Send a request, retrying transient failures of idempotent methods and
+   * re-registering once if the server no longer accepts the token
+   */
+  public async sendRequest(message: Message): Promise<Message> {
+    if (!this.connected) {
+      throw new Error('Not connected');
+    }
+
+    await this.ensureFreshToken();
+
+    const send = IDEMPOTENT_METHODS.includes(message.method ?? '')
+      ? () => this.withRetry(() => this.dispatch(message))
+      : () => this.dispatch(message);
+
+    let response = await send();
+
+    // A rejected token means the request was never executed
+    if (response.type === 'error' && AUTH_REQUIRED_CODES.includes(response.error?.code ?? 0)) {
+      this.logger.info('A2A token rejected, re-registering');
+      await this.register(true);
+      response = await send();
+    }
+
+    return response;
+  }
+
+  /**
+   * Subscribe to server-push notifications
+   */
+  public onNotification(callback: (message: Message) => void): void {
+    this.notificationCallbacks.push(callback);
+  }
+
+  /**
+   * Connected and holding an unexpired token
+   */
+  public isConnected(): boolean {
+    return this.connected &&
+      !!this.tokenPair &&
+      (!this.tokenPair.expiresAt || this.tokenPair.expiresAt.getTime() > Date.now());
+  }
+
+  /**
+   * Current token pair, if registered
+   */
+  public getTokenPair(): TokenPair | undefined {
+    return this.tokenPair ? { ...this.tokenPair } : undefined;
+  }
+
+  /**
+   * Register the agent card and store the issued token pair.
+   * Concurrent callers share a single registration.
+   */
+  private register(force = false): Promise<TokenPair> {
+    if (this.registering) {
+      return this.registering;
+    }
+
+    if (this.tokenPair && !force && !this.needsRenewal()) {
+      return Promise.resolve(this.tokenPair);
+    }
+
+    const previousToken = this.tokenPair?.a2aToken;
+
+    this.registering = this.withRetry(() => this.post({
+      id: crypto.randomUUID(),
+      type: 'request',
+      method: 'agent.register',
+      // A fresh lastSeen keeps re-registration inside the server's replay window
+      params: { agentCard: { ...this.agentCard, lastSeen: new Date() } }
+    })).then(response => {
+      if (response.type === 'error' || !response.result?.token) {
+        throw new Error(response.error?.message || 'Registration rejected');
+      }
+
+      const now = new Date();
+      this.tokenPair = {
+        cyrealToken: response.result.cyrealToken ?? '',
+        a2aToken: response.result.token,
+        createdAt: now,
+        expiresAt: response.result.expiresAt ? new Date(response.result.expiresAt) : undefined,
+        renewable: true,
+        lastUsed: now
+      };
+
+      this.scheduleRenewal();
+      this.emit('token:renewed', this.getTokenPair());
+
+      // The server binds a WebSocket session to the token it was opened with;
+      // answers to requests sent on the old session would never arrive
+      if (previousToken && this.socket) {
+        this.rejectPending(new TransientError('Notification channel replaced after re-registration'));
+        this.closeSocket();
+        this.openSocket().catch(error => {
+          this.logger.warn('Failed to reopen notification channel', { error });
+          this.scheduleReconnect();
+        });
+      }
+
+      return this.tokenPair;
+    }).finally(() => {
+      this.registering = undefined;
+    });
+
+    return this.registering;
+  }
+
+  private needsRenewal(): boolean {
+    const expiresAt = this.tokenPair?.expiresAt?.getTime();
+    return expiresAt !== undefined && expiresAt - Date.now() <= this.options.renewBeforeExpiry;
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    if (!this.tokenPair || this.needsRenewal()) {
+      await this.register(true);
+    }
+  }
+
+  /**
+   * Re-register ahead of token expiry
+   */
+  private scheduleRenewal(): void {
+    if (this.renewalTimer) {
+      clearTimeout(this.renewalTimer);
+    }
+
+    const expiresAt = this.tokenPair?.expiresAt?.getTime();
+    if (expiresAt === undefined) {
+      return;
+    }
+
+    const delay = Math.max(1000, expiresAt - Date.now() - this.options.renewBeforeExpiry);
+    this.renewalTimer = setTimeout(() => {
+      this.register(true).catch(error => {
+        this.logger.error('A2A token renewal failed', { error });
+        this.emit('token:error', error);
+      });
+    }, delay);
+    this.renewalTimer.unref();
+  }
+
+  /**
+   * Prefer the WebSocket session when open, otherwise POST
+   */
+  private dispatch(message: Message): Promise<Message> {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return this.sendOverSocket(message);
+    }
+    return this.post(message);
+  }
+
+  private createRequest(method: string, params?: any): Message {
+    return { id: crypto.randomUUID(), type: 'request', method, params };
+  }
+
+  /**
+   * POST a JSON-RPC message to the server
+   */
+  private post(message: Message): Promise<Message> {
+    const url = this.requestUrl!;
+    const body = JSON.stringify(message);
+    const transport = url.protocol === 'https:' ? https : http;
+
+    const headers: http.OutgoingHttpHeaders = {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(body),
+      'X-Agent-ID': this.agentCard!.agentId
+    };
+    if (this.tokenPair) {
+      headers['Authorization'] = `Bearer ${this.tokenPair.a2aToken}`;
+      this.tokenPair.lastUsed = new Date();
+    }
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(url, {
+        method: 'POST',
+        headers,
+        agent: this.httpsAgent,
+        timeout: this.options.requestTimeout
+      }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          data += chunk;
+          if (data.length > MAX_RESPONSE_SIZE) {
+            req.destroy(new Error('Response too large'));
+          }
+        });
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status === 429 || status >= 500) {
+            reject(new TransientError(`Server responded with HTTP ${status}`));
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            // HTTP-level rejections carry a bare JSON-RPC error object
+            resolve(parsed.type ? parsed : {
+              id: message.id,
+              type: 'error',
+              error: parsed.error ?? { code: -32603, message: `HTTP ${status}` }
+            });
+          } catch {
+            reject(new Error(`Invalid response from server (HTTP ${status})`));
+          }
+        });
+      });
+
+      req.on('timeout', () => req.destroy(new TransientError('Request timeout')));
+      req.on('error', error => {
+        if (error instanceof TransientError) {
+          reject(error);
+          return;
+        }
+
+        // Connection failures are retried; TLS verification failures are not
+        const code = (error as NodeJS.ErrnoException).code ?? '';
+        reject(TRANSIENT_NETWORK_CODES.includes(code) ? new TransientError(error.message) : error);
+      });
+
+      req.end(body);
+    });
+  }
+
+  private sendOverSocket(message: Message): Promise<Message> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(message.id);
+        reject(new TransientError('Request timeout'));
+      }, this.options.requestTimeout);
+
+      this.pendingRequests.set(message.id, { resolve, reject, timer });
+      this.socket!.send(JSON.stringify(message), error => {
+        if (error) {
+          clearTimeout(timer);
+          this.pendingRequests.delete(message.id);
+          reject(new TransientError(error.message));
+        }
+      });
+    });
+  }
+
+  /**
+   * Run an operation, retrying transient failures with exponential backoff
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    const { attempts, baseDelay, maxDelay } = this.options.retry;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (!(error instanceof TransientError) || attempt >= attempts) {
+          throw error;
+        }
+
+        const delay = this.backoff(attempt, baseDelay, maxDelay);
+        this.logger.debug('A2A request failed, retrying', { attempt, delay, error: error.message });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter so agents do not retry in lockstep
+   */
+  private backoff(attempt: number, baseDelay: number, maxDelay: number): number {
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Open the WebSocket push channel with the current token
+   */
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.socketUrl!, {
+        headers: {
+          'Authorization': `Bearer ${this.tokenPair!.a2aToken}`,
+          'X-Agent-ID': this.agentCard!.agentId
+        },
+        ca: this.options.tls?.ca,
+        cert: this.options.tls?.cert,
+        key: this.options.tls?.key,
+        rejectUnauthorized: this.options.tls?.rejectUnauthorized ?? true,
+        handshakeTimeout: this.options.requestTimeout
+      });
+
+      socket.once('open', () => {
+        this.socket = socket;
+        this.reconnectAttempts = 0;
+        this.emit('socket:open');
+        resolve();
+      });
+
+      socket.once('unexpected-response', (_req, res) => {
+        socket.terminate();
+        reject(new Error(`Notification channel rejected with HTTP ${res.statusCode}`));
+      });
+
+      socket.on('message', data => this.handleSocketMessage(data.toString()));
+
+      socket.on('error', error => {
+        this.logger.warn('A2A notification channel error', { error: error.message });
+        if (socket.readyState !== WebSocket.OPEN) {
+          reject(error);
+        }
+      });
+
+      socket.on('close', () => {
+        if (this.socket !== socket) {
+          return;
+        }
+        this.socket = undefined;
+        this.rejectPending(new TransientError('Notification channel closed'));
+        this.emit('socket:close');
+        this.scheduleReconnect();
+      });
+    });
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.close(1000, 'Client disconnect');
+  }
+
+  /**
+   * Reconnect the push channel with backoff while the client is connected
+   */
+  private scheduleReconnect(): void {
+    if (!this.connected || !this.options.notifications || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = this.backoff(this.reconnectAttempts, this.options.retry.baseDelay, this.options.retry.maxDelay);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      try {
+        await this.ensureFreshToken();
+        await this.openSocket();
+        this.logger.info('A2A notification channel reconnected');
+      } catch (error) {
+        this.logger.warn('A2A notification channel reconnect failed', { attempt: this.reconnectAttempts, error });
+        this.scheduleReconnect();
+      }
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+
+  private handleSocketMessage(raw: string): void {
+    let message: Message;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.logger.warn('Invalid message on A2A notification channel');
+      return;
+    }
+
+    const pending = this.pendingRequests.get(message.id);
+    if (pending && (message.type === 'response' || message.type === 'error')) {
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(message.id);
+      pending.resolve(message);
+      return;
+    }
+
+    if (message.type === 'notification') {
+      for (const callback of this.notificationCallbacks) {
+        try {
+          callback(message);
+        } catch (error) {
+          this.logger.error('Notification callback failed', { method: message.method, error });
+        }
+      }
+      return;
+    }
+
+    if (message.type === 'request') {
+      // Server-initiated requests are answered by 'request' listeners
+      const reply = (response: Message) => {
+        this.socket?.send(JSON.stringify({ ...response, id: message.id }));
+      };
+      if (!this.emit('request', message, reply)) {
+        reply({
+          id: message.id,
+          type: 'error',
+          error: { code: -32601, message: 'Method not found' }
+        });
+      }
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const [id, pending] of this.pendingRequests) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pendingRequests.delete(id);
+    }
+  }
+}
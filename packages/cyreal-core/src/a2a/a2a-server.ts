@@ -8,7 +8,10 @@
 import * as https from 'https';
 import * as http from 'http';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { Duplex } from 'stream';
 import { EventEmitter } from 'events';
+import { WebSocketServer, WebSocket } from 'ws';
 import * as winston from 'winston';
 
 import { 
@@ -16,8 +19,13 @@ import {
   IA2AAgentRegistry, 
   IA2AServiceDiscovery, 
   A2AConfig,
-  IRFC1918Validator 
+  IRFC1918Validator,
+  IA2APortProvider,
+  IA2AGovernanceProvider,
+  IA2ANotificationSource,
+  A2ANotification
 } from '../interfaces/a2a';
+import { PortOptions } from '../interfaces/port';
 import { 
   A2AAgentCard, 
   A2ACapability, 
@@ -30,10 +38,44 @@ import { SecureMessageValidator } from '../security/message-validator';
 import { UserAuthenticationManager } from '../security/user-authentication';
 import { PCIAuditLogger } from '../security/pci-audit-logger';
 import { EncryptionManager } from '../security/encryption-manager';
+import { ManagementAPI } from './management-api';
+
+const SERIAL_ENCODINGS: BufferEncoding[] = ['base64', 'hex', 'utf8'];
+const DEFAULT_READ_BYTES = 1024;
+const MAX_READ_BYTES = 65536;
+const DEFAULT_READ_TIMEOUT = 1000;
+const MAX_READ_TIMEOUT = 30000;
+const DATA_BITS = [5, 6, 7, 8];
+const STOP_BITS = [1, 1.5, 2];
+const PARITIES = ['none', 'odd', 'even', 'mark', 'space'];
+const FLOW_CONTROLS = ['none', 'hardware', 'software'];
+const WS_PATH = '/a2a/ws';
+const WS_MAX_PAYLOAD = 1024 * 1024;
+const REQUEST_TIMEOUT = 30000;
+const KEEPALIVE_INTERVAL = 30000;
+
+/**
+ * Agent session on the WebSocket endpoint
+ */
+interface AgentConnection {
+  socket: WebSocket;
+  lastSeen: Date;
+  token?: string;
+  address?: string;
+  alive?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (response: Message) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
 
 export class A2AServer extends EventEmitter implements IA2AServer {
   private config!: A2AConfig;
   private server?: https.Server | http.Server;
+  private wsServer?: WebSocketServer;
+  private keepAliveTimer?: NodeJS.Timeout;
   private logger: winston.Logger;
   private registry: IA2AAgentRegistry;
   private discovery: IA2AServiceDiscovery;
@@ -43,10 +85,14 @@ export class A2AServer extends EventEmitter implements IA2AServer {
   private userAuth?: UserAuthenticationManager;
   private auditLogger?: PCIAuditLogger;
   private encryptionManager?: EncryptionManager;
+  private managementAPI?: ManagementAPI;
+  private portProvider?: IA2APortProvider;
+  private governanceProvider?: IA2AGovernanceProvider;
   private agentCard!: A2AAgentCard;
   private isRunning = false;
   private startTime = 0;
-  private connectedAgents = new Map<string, { socket: any; lastSeen: Date; authenticated: boolean }>();
+  private connectedAgents = new Map<string, AgentConnection>();
+  private pendingRequests = new Map<string, PendingRequest>();
   private rateLimiter = new Map<string, { count: number; resetTime: number }>();
   private allowedOrigins: Set<string> = new Set();
 
@@ -141,13 +187,29 @@ export class A2AServer extends EventEmitter implements IA2AServer {
         await this.discovery.stop();
       }
 
+      if (this.keepAliveTimer) {
+        clearInterval(this.keepAliveTimer);
+        this.keepAliveTimer = undefined;
+      }
+
       // Close all agent connections
       for (const [agentId, connection] of this.connectedAgents) {
-        connection.socket.close();
+        connection.socket.close(1001, 'Server shutting down');
         await this.registry.unregisterAgent(agentId);
       }
       this.connectedAgents.clear();
 
+      for (const [key, pending] of this.pendingRequests) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error('Server shutting down'));
+        this.pendingRequests.delete(key);
+      }
+
+      if (this.wsServer) {
+        this.wsServer.close();
+        this.wsServer = undefined;
+      }
+
       // Close server
       if (this.server) {
         await new Promise<void>((resolve) => {
@@ -165,6 +227,63 @@ export class A2AServer extends EventEmitter implements IA2AServer {
     }
   }
 
+  /**
+   * Attach the source of real serial ports (implemented by cyreald)
+   */
+  public setPortProvider(provider: IA2APortProvider): void {
+    this.portProvider = provider;
+  }
+
+  /**
+   * Attach the source of governor state (implemented by cyreald)
+   */
+  public setGovernanceProvider(provider: IA2AGovernanceProvider): void {
+    this.governanceProvider = provider;
+  }
+
+  /**
+   * Enable the operator management API (login, MFA, password and session
+   * management) under /manage on this server; start() refuses plain HTTP
+   */
+  public setUserAuthentication(userAuth: UserAuthenticationManager, auditLogger: PCIAuditLogger): void {
+    this.userAuth = userAuth;
+    this.auditLogger = auditLogger;
+    this.managementAPI = new ManagementAPI(this.logger, userAuth, auditLogger);
+  }
+
+  /**
+   * Push events from a source (implemented by cyreald) to connected agents
+   */
+  public setNotificationSource(source: IA2ANotificationSource): void {
+    source.onNotification(notification => {
+      this.notify(notification).catch(error => {
+        this.logger.error('Failed to push A2A notification', { method: notification.method, error });
+      });
+    });
+  }
+
+  /**
+   * Send a JSON-RPC notification to every connected agent allowed to see it
+   */
+  public async notify(notification: A2ANotification): Promise<void> {
+    const message: Message = {
+      id: crypto.randomUUID(),
+      type: 'notification',
+      method: notification.method,
+      params: notification.portId
+        ? { portId: notification.portId, ...notification.params }
+        : notification.params
+    };
+
+    for (const connection of this.connectedAgents.values()) {
+      // Port events follow the same read scope as serial.read
+      if (notification.portId && !await this.authorizePortAccess(connection.token, 'read', notification.portId)) {
+        continue;
+      }
+      this.sendToAgent(connection, message);
+    }
+  }
+
   /**
    * Get server status
    */
@@ -180,7 +299,7 @@ export class A2AServer extends EventEmitter implements IA2AServer {
   /**
    * Handle incoming agent requests with security validation
    */
-  public async handleRequest(agentId: string, message: Message, clientIP?: string): Promise<Message> {
+  public async handleRequest(agentId: string, message: Message, clientIP?: string, token?: string): Promise<Message> {
     this.logger.debug('Handling A2A request', { agentId, method: message.method });
 
     try {
@@ -216,38 +335,59 @@ export class A2AServer extends EventEmitter implements IA2AServer {
       // Use sanitized message
       const sanitizedMessage = validation.sanitizedMessage!;
 
-      // Check agent authentication
-      const connection = this.connectedAgents.get(agentId);
-      if (!connection?.authenticated) {
-        return {
-          id: sanitizedMessage.id,
-          type: 'error',
-          error: {
-            code: -32401,
-            message: 'Authentication required'
-          }
-        };
-      }
+      // Registration authenticates the agent card itself; everything else
+      // needs a valid token issued to the agent named by X-Agent-ID
+      if (sanitizedMessage.method !== 'agent.register') {
+        if (!await this.tokenMatchesAgent(agentId, token)) {
+          return {
+            id: sanitizedMessage.id,
+            type: 'error',
+            error: {
+              code: -32401,
+              message: 'Authentication required'
+            }
+          };
+        }
 
-      // Update agent heartbeat
-      await this.registry.updateHeartbeat(agentId);
+        // Update agent heartbeat
+        await this.registry.updateHeartbeat(agentId);
+      }
 
       // Route message based on method
       switch (sanitizedMessage.method) {
         case 'agent.register':
-          return await this.handleAgentRegistration(agentId, sanitizedMessage);
+          return await this.handleAgentRegistration(agentId, sanitizedMessage, token);
         
         case 'agent.discover':
           return await this.handleAgentDiscovery(sanitizedMessage);
         
         case 'serial.list':
-          return await this.handleSerialList(sanitizedMessage);
+          return await this.handleSerialList(sanitizedMessage, token);
         
         case 'serial.read':
-          return await this.handleSerialRead(agentId, sanitizedMessage);
+          return await this.handleSerialRead(agentId, sanitizedMessage, token);
         
         case 'serial.write':
-          return await this.handleSerialWrite(agentId, sanitizedMessage);
+          return await this.handleSerialWrite(agentId, sanitizedMessage, token);
+        
+        case 'serial.configure':
+          return await this.handleSerialConfigure(agentId, sanitizedMessage, token);
+        
+        case 'governance.status':
+          return await this.handleGovernanceStatus(sanitizedMessage);
+        
+        case 'agent.unregister':
+          return await this.handleAgentUnregister(agentId, sanitizedMessage);
+        
+        case 'heartbeat':
+          return await this.handleHeartbeat(agentId, sanitizedMessage);
+        
+        case 'ping':
+          return {
+            id: sanitizedMessage.id,
+            type: 'response',
+            result: { pong: true, timestamp: new Date().toISOString() }
+          };
         
         default:
           return {
@@ -283,20 +423,22 @@ export class A2AServer extends EventEmitter implements IA2AServer {
       throw new Error(`Agent ${targetAgentId} not connected`);
     }
 
+    // Keyed per agent so one agent cannot answer another's request
+    const key = `${targetAgentId}:${message.id}`;
+
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(key);
         reject(new Error('Request timeout'));
-      }, 30000);
+      }, REQUEST_TIMEOUT);
 
-      const responseHandler = (response: Message) => {
-        if (response.id === message.id) {
-          clearTimeout(timeout);
-          resolve(response);
-        }
-      };
+      this.pendingRequests.set(key, { resolve, reject, timer });
 
-      connection.socket.once('message', responseHandler);
-      connection.socket.send(JSON.stringify(message));
+      if (!this.sendToAgent(connection, message)) {
+        clearTimeout(timer);
+        this.pendingRequests.delete(key);
+        reject(new Error(`Agent ${targetAgentId} not connected`));
+      }
     });
   }
 
@@ -304,22 +446,16 @@ export class A2AServer extends EventEmitter implements IA2AServer {
    * Broadcast message to all connected agents
    */
   public async broadcast(message: Message, excludeAgentId?: string): Promise<void> {
-    const broadcastPromises: Promise<void>[] = [];
+    let recipients = 0;
 
     for (const [agentId, connection] of this.connectedAgents) {
-      if (agentId !== excludeAgentId) {
-        broadcastPromises.push(
-          new Promise((resolve) => {
-            connection.socket.send(JSON.stringify(message));
-            resolve();
-          })
-        );
+      if (agentId !== excludeAgentId && this.sendToAgent(connection, message)) {
+        recipients++;
       }
     }
 
-    await Promise.all(broadcastPromises);
     this.logger.debug('Broadcasted message to connected agents', { 
-      recipients: broadcastPromises.length,
+      recipients,
       method: message.method 
     });
   }
@@ -349,10 +485,16 @@ export class A2AServer extends EventEmitter implements IA2AServer {
 
       this.server = https.createServer(options, requestHandler);
     } else {
+      // Operator passwords, MFA codes and session tokens never travel in clear text
+      if (this.managementAPI) {
+        throw new Error('The management API requires HTTPS; disable it or serve HTTPS');
+      }
       this.server = http.createServer(requestHandler);
       this.logger.warn('⚠️  A2A Server running in HTTP mode - HTTPS recommended for production');
     }
 
+    this.createWebSocketServer();
+
     return new Promise((resolve, reject) => {
       this.server!.listen(this.config.server.port, this.config.server.host, () => {
         this.logger.info('A2A Server listening', {
@@ -367,6 +509,174 @@ export class A2AServer extends EventEmitter implements IA2AServer {
     });
   }
 
+  /**
+   * Attach the push endpoint; agents upgrade with the same headers as POST requests
+   */
+  private createWebSocketServer(): void {
+    this.wsServer = new WebSocketServer({ noServer: true, maxPayload: WS_MAX_PAYLOAD });
+
+    this.server!.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(req, socket, head).catch(error => {
+        this.logger.error('WebSocket upgrade error:', error);
+        this.rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+    });
+  }
+
+  /**
+   * Authenticate an upgrade request before accepting the WebSocket
+   */
+  private async handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const clientIP = req.socket.remoteAddress || 'unknown';
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (pathname !== WS_PATH) {
+      this.rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    if (this.config.security.enforceRFC1918 && !this.validator.isRFC1918Address(clientIP)) {
+      this.logger.warn('WebSocket upgrade rejected from non-RFC-1918 address', { clientIP });
+      this.rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    if (!this.checkRateLimit(clientIP)) {
+      this.rejectUpgrade(socket, 429, 'Too Many Requests');
+      return;
+    }
+
+    const agentId = req.headers['x-agent-id'] as string;
+    const token = (req.headers['authorization'] as string)?.replace('Bearer ', '') || '';
+
+    if (!agentId || !await this.tokenMatchesAgent(agentId, token) || !await this.registry.getAgent(agentId)) {
+      this.logger.warn('WebSocket upgrade authentication failed', { agentId, clientIP });
+      this.rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    if (!this.connectedAgents.has(agentId) && this.connectedAgents.size >= this.config.security.maxAgentsConnected) {
+      this.rejectUpgrade(socket, 503, 'Service Unavailable');
+      return;
+    }
+
+    this.wsServer!.handleUpgrade(req, socket, head, ws => {
+      this.handleAgentConnection(agentId, token, clientIP, ws);
+    });
+  }
+
+  private rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+    if (socket.writable) {
+      socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    }
+    socket.destroy();
+  }
+
+  /**
+   * Track an authenticated agent session
+   */
+  private handleAgentConnection(agentId: string, token: string, address: string, ws: WebSocket): void {
+    // A reconnecting agent replaces its previous session
+    const existing = this.connectedAgents.get(agentId);
+    if (existing) {
+      existing.socket.close(4000, 'Replaced by new connection');
+    }
+
+    const connection: AgentConnection = {
+      socket: ws,
+      lastSeen: new Date(),
+      token,
+      address,
+      alive: true
+    };
+    this.connectedAgents.set(agentId, connection);
+
+    ws.on('message', data => {
+      this.handleAgentMessage(agentId, connection, data.toString()).catch(error => {
+        this.logger.error('Error handling agent message', { agentId, error });
+      });
+    });
+
+    ws.on('pong', () => {
+      connection.alive = true;
+      connection.lastSeen = new Date();
+    });
+
+    ws.on('close', () => this.handleAgentDisconnect(agentId, connection));
+
+    ws.on('error', error => {
+      this.logger.warn('Agent WebSocket error', { agentId, error: error.message });
+    });
+
+    this.logger.info('Agent connected for push notifications', { agentId, address });
+    this.emit('agent:connected', agentId);
+  }
+
+  /**
+   * Route a frame from an agent: replies to our requests, notifications, or requests
+   */
+  private async handleAgentMessage(agentId: string, connection: AgentConnection, raw: string): Promise<void> {
+    let message: Message;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.sendToAgent(connection, {
+        id: '',
+        type: 'error',
+        error: { code: -32700, message: 'Parse error' }
+      });
+      return;
+    }
+
+    connection.lastSeen = new Date();
+
+    const key = `${agentId}:${message.id}`;
+    const pending = this.pendingRequests.get(key);
+    if (pending && (message.type === 'response' || message.type === 'error')) {
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(key);
+      pending.resolve(message);
+      return;
+    }
+
+    if (message.type === 'notification') {
+      this.emit('agent:notification', agentId, message);
+      return;
+    }
+
+    const response = await this.handleRequest(agentId, message, connection.address, connection.token);
+    this.sendToAgent(connection, response);
+  }
+
+  private handleAgentDisconnect(agentId: string, connection: AgentConnection): void {
+    // Ignore the close of a session that has already been replaced
+    if (this.connectedAgents.get(agentId) !== connection) {
+      return;
+    }
+
+    this.connectedAgents.delete(agentId);
+
+    for (const [key, pending] of this.pendingRequests) {
+      if (key.startsWith(`${agentId}:`)) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error(`Agent ${agentId} disconnected`));
+        this.pendingRequests.delete(key);
+      }
+    }
+
+    this.logger.info('Agent disconnected', { agentId });
+    this.emit('agent:disconnected', agentId);
+  }
+
+  private sendToAgent(connection: AgentConnection, message: Message): boolean {
+    if (connection.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    connection.socket.send(JSON.stringify(message));
+    return true;
+  }
+
   /**
    * Create HTTP request handler for A2A JSON-RPC 2.0 with security
    */
@@ -385,6 +695,17 @@ export class A2AServer extends EventEmitter implements IA2AServer {
       res.setHeader('X-XSS-Protection', '1; mode=block');
       res.setHeader('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
 
+      const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+      if (this.managementAPI?.handles(pathname)) {
+        if (!this.checkRateLimit(clientIP)) {
+          res.writeHead(429);
+          res.end(JSON.stringify({ success: false, error: 'Rate limit exceeded' }));
+          return;
+        }
+        await this.managementAPI.handle(req, res, clientIP);
+        return;
+      }
+
       if (req.method === 'OPTIONS') {
         res.writeHead(204);
         res.end();
@@ -423,7 +744,7 @@ export class A2AServer extends EventEmitter implements IA2AServer {
             const token = authToken?.replace('Bearer ', '') || '';
             
             // Authenticate request
-            if (!await this.authenticateRequest(agentId, token)) {
+            if (!await this.authenticateRequest(agentId, token, message.method)) {
               res.writeHead(401);
               res.end(JSON.stringify({
                 jsonrpc: '2.0',
@@ -432,7 +753,7 @@ export class A2AServer extends EventEmitter implements IA2AServer {
               return;
             }
             
-            const response = await this.handleRequest(agentId, message, clientIP);
+            const response = await this.handleRequest(agentId, message, clientIP, token);
             
             res.writeHead(200);
             res.end(JSON.stringify(response));
@@ -472,6 +793,8 @@ export class A2AServer extends EventEmitter implements IA2AServer {
               type: 'object',
               properties: {
                 path: { type: 'string' },
+                portId: { type: 'string' },
+                status: { type: 'string' },
                 manufacturer: { type: 'string' },
                 vendorId: { type: 'string' },
                 productId: { type: 'string' }
@@ -489,7 +812,9 @@ export class A2AServer extends EventEmitter implements IA2AServer {
           type: 'object',
           properties: {
             portId: { type: 'string' },
-            length: { type: 'number' }
+            length: { type: 'number' },
+            timeout: { type: 'number' },
+            encoding: { type: 'string' }
           },
           required: ['portId']
         }
@@ -503,11 +828,30 @@ export class A2AServer extends EventEmitter implements IA2AServer {
           type: 'object',
           properties: {
             portId: { type: 'string' },
-            data: { type: 'string' }
+            data: { type: 'string' },
+            encoding: { type: 'string' }
           },
           required: ['portId', 'data']
         }
       },
+      {
+        id: 'serial.configure',
+        name: 'Configure Serial Port',
+        description: 'Change baud rate, framing and flow control of an open port',
+        category: 'serial',
+        input: {
+          type: 'object',
+          properties: {
+            portId: { type: 'string' },
+            baudRate: { type: 'number' },
+            dataBits: { type: 'number' },
+            stopBits: { type: 'number' },
+            parity: { type: 'string' },
+            flowControl: { type: 'string' }
+          },
+          required: ['portId']
+        }
+      },
       {
         id: 'governance.status',
         name: 'Governor Status',
@@ -522,6 +866,12 @@ export class A2AServer extends EventEmitter implements IA2AServer {
         protocol: this.config.server.httpsOnly ? 'https' : 'http' as any,
         methods: ['POST'],
         authentication: 'token'
+      },
+      {
+        url: `${this.config.server.httpsOnly ? 'wss' : 'ws'}://${this.config.server.host}:${this.config.server.port}${WS_PATH}`,
+        protocol: this.config.server.httpsOnly ? 'wss' : 'ws' as any,
+        methods: ['GET'],
+        authentication: 'token'
       }
     ];
 
@@ -579,6 +929,19 @@ export class A2AServer extends EventEmitter implements IA2AServer {
       }
     }, 60000); // Every minute
 
+    // Drop agent sessions that stop answering pings
+    this.keepAliveTimer = setInterval(() => {
+      for (const [agentId, connection] of this.connectedAgents) {
+        if (!connection.alive) {
+          this.logger.warn('Agent WebSocket unresponsive, terminating', { agentId });
+          connection.socket.terminate();
+          continue;
+        }
+        connection.alive = false;
+        connection.socket.ping();
+      }
+    }, KEEPALIVE_INTERVAL);
+
     // Service discovery announcement
     if (this.config.discovery.enabled) {
       setInterval(async () => {
@@ -594,10 +957,9 @@ export class A2AServer extends EventEmitter implements IA2AServer {
   /**
    * Handle agent registration requests with enhanced security
    */
-  private async handleAgentRegistration(agentId: string, message: Message): Promise<Message> {
+  private async handleAgentRegistration(agentId: string, message: Message, token?: string): Promise<Message> {
     try {
       const agentCard = message.params?.agentCard as A2AAgentCard;
-      const token = message.params?.token;
       
       if (!agentCard) {
         return {
@@ -627,6 +989,22 @@ export class A2AServer extends EventEmitter implements IA2AServer {
         };
       }
 
+      // The token is bound to the card's agentId; the X-Agent-ID the agent
+      // sends on later requests must name the same agent
+      if (agentCard.agentId !== agentId) {
+        return this.errorResponse(message, -32602, 'Invalid params: agentCard.agentId does not match X-Agent-ID');
+      }
+
+      // Agent IDs are public (discovery, LAN beacons), so taking over a
+      // registered ID - and its security.agentPorts grants - takes the
+      // token that agent currently holds. Expired is fine; it proves possession.
+      const holdsCurrentToken = !!token && !this.tokenManager.isRevoked(token) &&
+        await this.registry.validateToken(agentId, token);
+      if (await this.registry.getAgent(agentId) && !holdsCurrentToken) {
+        this.logger.warn('Re-registration without the agent\'s current token refused', { agentId });
+        return this.errorResponse(message, -32403, 'Agent already registered; re-registration requires its current token');
+      }
+
       // Authenticate agent
       const authResult = await this.tokenManager.authenticateAgent(agentCard);
       if (!authResult.success) {
@@ -643,10 +1021,10 @@ export class A2AServer extends EventEmitter implements IA2AServer {
       // Register agent with generated token
       await this.registry.registerAgent(agentCard, authResult.tokenPair!.a2aToken);
       
-      // Mark connection as authenticated
+      // The push session carries on with the new token
       const connection = this.connectedAgents.get(agentId);
       if (connection) {
-        connection.authenticated = true;
+        connection.token = authResult.tokenPair!.a2aToken;
       }
       
       return {
@@ -656,6 +1034,7 @@ export class A2AServer extends EventEmitter implements IA2AServer {
           success: true,
           agentId: agentCard.agentId,
           token: authResult.tokenPair!.a2aToken,
+          cyrealToken: authResult.tokenPair!.cyrealToken,
           expiresAt: authResult.tokenPair!.expiresAt,
           message: 'Agent registered successfully'
         }
@@ -699,54 +1078,295 @@ export class A2AServer extends EventEmitter implements IA2AServer {
   /**
    * Handle serial port listing
    */
-  private async handleSerialList(message: Message): Promise<Message> {
-    // This would integrate with the existing serial port controller
-    // For now, return a placeholder response
-    return {
-      id: message.id,
-      type: 'response',
-      result: {
-        ports: [
-          {
-            path: '/dev/ttyUSB0',
-            manufacturer: 'FTDI',
-            vendorId: '0403',
-            productId: '6001'
-          }
-        ]
+  private async handleSerialList(message: Message, token?: string): Promise<Message> {
+    if (!this.portProvider) {
+      return this.errorResponse(message, -32603, 'Serial port provider not configured');
+    }
+
+    if (!await this.authorizePortAccess(token, 'read')) {
+      return this.errorResponse(message, -32403, 'Permission denied: read access required');
+    }
+
+    try {
+      const ports = [];
+      for (const port of await this.portProvider.listPorts()) {
+        if (!port.portId || await this.authorizePortAccess(token, 'read', port.portId)) {
+          ports.push(port);
+        }
       }
-    };
+      return {
+        id: message.id,
+        type: 'response',
+        result: { ports }
+      };
+    } catch (error) {
+      this.logger.error('Serial port listing failed', { error });
+      return this.errorResponse(message, -32603, 'Failed to list serial ports');
+    }
   }
 
   /**
    * Handle serial read requests
+   *
+   * Resolves once `length` bytes arrive or `timeout` ms pass, whichever is first
+   */
+  private async handleSerialRead(agentId: string, message: Message, token?: string): Promise<Message> {
+    if (!this.portProvider) {
+      return this.errorResponse(message, -32603, 'Serial port provider not configured');
+    }
+
+    const portId = String(message.params.portId);
+    const encoding: BufferEncoding = message.params.encoding ?? 'base64';
+    const maxBytes = Number(message.params.length ?? DEFAULT_READ_BYTES);
+    const timeout = Number(message.params.timeout ?? DEFAULT_READ_TIMEOUT);
+
+    if (!SERIAL_ENCODINGS.includes(encoding)) {
+      return this.errorResponse(message, -32602, `Invalid params: encoding must be one of ${SERIAL_ENCODINGS.join(', ')}`);
+    }
+    if (!Number.isInteger(maxBytes) || maxBytes < 1 || maxBytes > MAX_READ_BYTES) {
+      return this.errorResponse(message, -32602, `Invalid params: length must be between 1 and ${MAX_READ_BYTES}`);
+    }
+    if (!Number.isInteger(timeout) || timeout < 0 || timeout > MAX_READ_TIMEOUT) {
+      return this.errorResponse(message, -32602, `Invalid params: timeout must be between 0 and ${MAX_READ_TIMEOUT}`);
+    }
+
+    if (!await this.authorizePortAccess(token, 'read', portId)) {
+      this.logger.warn('A2A serial read denied', { agentId, portId });
+      return this.errorResponse(message, -32403, `Permission denied: read access to port ${portId}`);
+    }
+
+    try {
+      const data = await this.portProvider.readPort(portId, { maxBytes, timeout });
+      return {
+        id: message.id,
+        type: 'response',
+        result: {
+          portId,
+          data: data.toString(encoding),
+          encoding,
+          bytes: data.length,
+          timestamp: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      return this.errorResponse(message, -32603, error instanceof Error ? error.message : 'Serial read failed');
+    }
+  }
+
+  /**
+   * Handle serial write requests
+   *
+   * Params are sanitized on receipt, so binary payloads should be sent as base64 or hex
+   */
+  private async handleSerialWrite(agentId: string, message: Message, token?: string): Promise<Message> {
+    if (!this.portProvider) {
+      return this.errorResponse(message, -32603, 'Serial port provider not configured');
+    }
+
+    const portId = String(message.params.portId);
+    const encoding: BufferEncoding = message.params.encoding ?? 'utf8';
+
+    if (!SERIAL_ENCODINGS.includes(encoding)) {
+      return this.errorResponse(message, -32602, `Invalid params: encoding must be one of ${SERIAL_ENCODINGS.join(', ')}`);
+    }
+    if (typeof message.params.data !== 'string') {
+      return this.errorResponse(message, -32602, 'Invalid params: data must be a string');
+    }
+
+    if (!await this.authorizePortAccess(token, 'write', portId)) {
+      this.logger.warn('A2A serial write denied', { agentId, portId });
+      return this.errorResponse(message, -32403, `Permission denied: write access to port ${portId}`);
+    }
+
+    try {
+      const bytesWritten = await this.portProvider.writePort(portId, Buffer.from(message.params.data, encoding));
+      return {
+        id: message.id,
+        type: 'response',
+        result: {
+          success: true,
+          portId,
+          bytesWritten
+        }
+      };
+    } catch (error) {
+      return this.errorResponse(message, -32603, error instanceof Error ? error.message : 'Serial write failed');
+    }
+  }
+
+  /**
+   * Handle serial line settings changes
+   */
+  private async handleSerialConfigure(agentId: string, message: Message, token?: string): Promise<Message> {
+    if (!this.portProvider) {
+      return this.errorResponse(message, -32603, 'Serial port provider not configured');
+    }
+
+    const portId = String(message.params.portId);
+    const { baudRate, dataBits, stopBits, parity, flowControl } = message.params;
+    const options: Partial<PortOptions> = {};
+
+    if (baudRate !== undefined) {
+      if (!Number.isInteger(baudRate) || baudRate <= 0) {
+        return this.errorResponse(message, -32602, 'Invalid params: baudRate must be a positive integer');
+      }
+      options.baudRate = baudRate;
+    }
+    if (dataBits !== undefined) {
+      if (!DATA_BITS.includes(dataBits)) {
+        return this.errorResponse(message, -32602, `Invalid params: dataBits must be one of ${DATA_BITS.join(', ')}`);
+      }
+      options.dataBits = dataBits;
+    }
+    if (stopBits !== undefined) {
+      if (!STOP_BITS.includes(stopBits)) {
+        return this.errorResponse(message, -32602, `Invalid params: stopBits must be one of ${STOP_BITS.join(', ')}`);
+      }
+      options.stopBits = stopBits;
+    }
+    if (parity !== undefined) {
+      if (!PARITIES.includes(parity)) {
+        return this.errorResponse(message, -32602, `Invalid params: parity must be one of ${PARITIES.join(', ')}`);
+      }
+      options.parity = parity;
+    }
+    if (flowControl !== undefined) {
+      if (!FLOW_CONTROLS.includes(flowControl)) {
+        return this.errorResponse(message, -32602, `Invalid params: flowControl must be one of ${FLOW_CONTROLS.join(', ')}`);
+      }
+      options.flowControl = flowControl;
+    }
+
+    if (Object.keys(options).length === 0) {
+      return this.errorResponse(message, -32602, 'Invalid params: no settings to change');
+    }
+
+    if (!await this.authorizePortAccess(token, 'configure', portId)) {
+      this.logger.warn('A2A serial configure denied', { agentId, portId });
+      return this.errorResponse(message, -32403, `Permission denied: configure access to port ${portId}`);
+    }
+
+    try {
+      const applied = await this.portProvider.configurePort(portId, options);
+      this.logger.info('Serial port reconfigured by agent', { agentId, portId, options });
+      return {
+        id: message.id,
+        type: 'response',
+        result: {
+          success: true,
+          portId,
+          options: applied
+        }
+      };
+    } catch (error) {
+      return this.errorResponse(message, -32603, error instanceof Error ? error.message : 'Serial configure failed');
+    }
+  }
+
+  /**
+   * Handle governance status requests (PSRLV validation and learning metrics)
+   */
+  private async handleGovernanceStatus(message: Message): Promise<Message> {
+    if (!this.governanceProvider) {
+      return this.errorResponse(message, -32603, 'Governance provider not configured');
+    }
+
+    try {
+      const governors = await this.governanceProvider.getGovernorStatus();
+      return {
+        id: message.id,
+        type: 'response',
+        result: {
+          governors,
+          healthy: governors.every(governor => governor.validation.valid),
+          timestamp: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      this.logger.error('Governance status failed', { error });
+      return this.errorResponse(message, -32603, 'Failed to collect governor status');
+    }
+  }
+
+  /**
+   * Handle agent unregistration
    */
-  private async handleSerialRead(agentId: string, message: Message): Promise<Message> {
-    // This would integrate with the existing serial port controller
-    // For now, return a placeholder response
+  private async handleAgentUnregister(agentId: string, message: Message): Promise<Message> {
+    try {
+      await this.registry.unregisterAgent(agentId);
+
+      const connection = this.connectedAgents.get(agentId);
+      if (connection) {
+        this.handleAgentDisconnect(agentId, connection);
+        connection.socket.close(1000, 'Agent unregistered');
+      }
+      return {
+        id: message.id,
+        type: 'response',
+        result: { success: true, agentId }
+      };
+    } catch (error) {
+      this.logger.error('Agent unregistration error:', error);
+      return this.errorResponse(message, -32603, 'Unregistration failed');
+    }
+  }
+
+  /**
+   * Handle agent heartbeats
+   */
+  private async handleHeartbeat(agentId: string, message: Message): Promise<Message> {
+    await this.registry.updateHeartbeat(agentId);
+
+    const connection = this.connectedAgents.get(agentId);
+    if (connection) {
+      connection.lastSeen = new Date();
+    }
+
     return {
       id: message.id,
       type: 'response',
       result: {
-        data: 'Sample serial data',
+        agentId,
         timestamp: new Date().toISOString()
       }
     };
   }
 
   /**
-   * Handle serial write requests
+   * Check the request token grants an operation, optionally on a specific port
    */
-  private async handleSerialWrite(agentId: string, message: Message): Promise<Message> {
-    // This would integrate with the existing serial port controller
-    // For now, return a placeholder response
+  private async authorizePortAccess(token: string | undefined, operation: 'read' | 'write' | 'configure', portId?: string): Promise<boolean> {
+    if (!token) {
+      return false;
+    }
+
+    const permissions = await this.tokenManager.getPermissions(token);
+    if (!permissions || !permissions[operation]) {
+      return false;
+    }
+
+    if (!portId || permissions.portId === '*' || permissions.portId === portId) {
+      return true;
+    }
+
+    // Agent tokens are scoped to the agent; its ports come from security.agentPorts
+    if (permissions.portId.startsWith('agent-')) {
+      const agentPorts = this.config.security.agentPorts ?? {};
+      const grants = [
+        ...(agentPorts[permissions.portId.substring('agent-'.length)] ?? []),
+        ...(agentPorts['*'] ?? [])
+      ];
+      return grants.includes('*') || grants.includes(portId);
+    }
+
+    return false;
+  }
+
+  private errorResponse(message: Message, code: number, text: string): Message {
     return {
       id: message.id,
-      type: 'response',
-      result: {
-        success: true,
-        bytesWritten: message.params?.data?.length || 0
-      }
+      type: 'error',
+      error: { code, message: text }
     };
   }
 
@@ -760,7 +1380,11 @@ export class A2AServer extends EventEmitter implements IA2AServer {
       'serial.list',
       'serial.read',
       'serial.write',
-      'governance.status'
+      'serial.configure',
+      'governance.status',
+      'agent.unregister',
+      'heartbeat',
+      'ping'
     ];
   }
 
@@ -860,25 +1484,31 @@ export class A2AServer extends EventEmitter implements IA2AServer {
   /**
    * Authenticate incoming request
    */
-  private async authenticateRequest(agentId: string, token: string): Promise<boolean> {
-    if (!agentId || !token) {
+  private async authenticateRequest(agentId: string, token: string, method?: string): Promise<boolean> {
+    if (!agentId) {
       return false;
     }
 
-    try {
-      // For agent.register, allow without existing authentication
-      // Token will be validated during registration process
-      if (!this.connectedAgents.has(agentId)) {
-        return true; // Allow registration attempts
-      }
-
-      // For existing agents, validate token
-      const permissions = await this.tokenManager.getPermissions(token);
-      return permissions !== null;
+    // Registration is how an agent obtains its first token; the agent card
+    // is authenticated during registration instead
+    if (method === 'agent.register') {
+      return true;
+    }
 
+    try {
+      return await this.tokenMatchesAgent(agentId, token);
     } catch (error) {
       this.logger.error('Authentication error:', error);
       return false;
     }
   }
+
+  /**
+   * Whether a token is valid and, for agent tokens, was issued to this agent
+   */
+  private async tokenMatchesAgent(agentId: string, token: string | undefined): Promise<boolean> {
+    const permissions = token ? await this.tokenManager.getPermissions(token) : null;
+    return !!permissions &&
+      (!permissions.portId.startsWith('agent-') || permissions.portId === `agent-${agentId}`);
+  }
 }
\ No newline at end of file
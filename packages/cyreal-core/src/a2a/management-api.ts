@@ -0,0 +1,342 @@
+/**
+ * Management API
+ *
+ * Operator-facing HTTP endpoints mounted on the A2A server under /manage:
+ * login with MFA, MFA enrollment, backup-code regeneration, password change
+ * and session management. Every request is authenticated with a
+ * UserAuthenticationManager session token and every step is audit logged.
+ */
+
+import * as http from 'http';
+import * as winston from 'winston';
+import {
+  UserAuthenticationManager,
+  Permission,
+  MFAMethod,
+  SessionValidationResult
+} from '../security/user-authentication';
+import { PCIAuditLogger, PCIAuditEventType } from '../security/pci-audit-logger';
+
+export const MANAGEMENT_API_PATH = '/manage';
+
+const MAX_BODY_SIZE = 64 * 1024;
+
+type ManagementResponse = { status: number; body: Record<string, any> };
+
+interface ManagementRequest {
+  method: string;
+  route: string;
+  query: URLSearchParams;
+  body: any;
+  token: string;
+  clientIP: string;
+  userAgent: string;
+}
+
+class RequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export class ManagementAPI {
+  private logger: winston.Logger;
+
+  constructor(
+    logger: winston.Logger,
+    private userAuth: UserAuthenticationManager,
+    private auditLogger: PCIAuditLogger
+  ) {
+    this.logger = logger;
+  }
+
+  /**
+   * Whether a request path belongs to the management API
+   */
+  handles(pathname: string): boolean {
+    return pathname === MANAGEMENT_API_PATH || pathname.startsWith(`${MANAGEMENT_API_PATH}/`);
+  }
+
+  /**
+   * Serve a management request; security and CORS headers are set by the caller
+   */
+  async handle(req: http.IncomingMessage, res: http.ServerResponse, clientIP: string): Promise<void> {
+    // Responses carry session tokens, TOTP secrets and backup codes
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    let response: ManagementResponse;
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const authorization = req.headers['authorization'] as string | undefined;
+
+      response = await this.route({
+        method: req.method || 'GET',
+        route: url.pathname.slice(MANAGEMENT_API_PATH.length).replace(/\/+$/, '') || '/',
+        query: url.searchParams,
+        body: req.method === 'POST' ? await this.readBody(req) : {},
+        token: authorization?.replace('Bearer ', '') || '',
+        clientIP,
+        userAgent: (req.headers['user-agent'] as string) || 'unknown'
+      });
+    } catch (error: any) {
+      if (error instanceof RequestError) {
+        response = { status: error.status, body: { success: false, error: error.message } };
+      } else {
+        this.logger.error('Management API error', { error: error.message });
+        response = { status: 500, body: { success: false, error: 'Internal error' } };
+      }
+    }
+
+    res.writeHead(response.status);
+    res.end(JSON.stringify(response.body));
+  }
+
+  private async route(request: ManagementRequest): Promise<ManagementResponse> {
+    const { method, route } = request;
+
+    if (method === 'POST' && route === '/login') {
+      return this.login(request);
+    }
+    if (method === 'POST' && route === '/login/mfa') {
+      return this.loginMFA(request);
+    }
+    if (method === 'POST' && route === '/logout') {
+      return this.logout(request);
+    }
+    if (method === 'POST' && route === '/password') {
+      return this.changePassword(request);
+    }
+    if (method === 'POST' && route === '/mfa/enroll') {
+      return this.enrollMFA(request);
+    }
+    if (method === 'POST' && route === '/mfa/enroll/verify') {
+      return this.verifyEnrollment(request);
+    }
+    if (method === 'POST' && route === '/mfa/backup-codes') {
+      return this.regenerateBackupCodes(request);
+    }
+    if (method === 'GET' && route === '/sessions') {
+      return this.listSessions(request);
+    }
+
+    const revoke = route.match(/^\/sessions\/([^/]+)$/);
+    if (method === 'DELETE' && revoke) {
+      return this.revokeSession(request, decodeURIComponent(revoke[1]));
+    }
+
+    throw new RequestError(404, 'Not found');
+  }
+
+  private async login(request: ManagementRequest): Promise<ManagementResponse> {
+    const username = this.requireString(request.body, 'username');
+    const password = this.requireString(request.body, 'password');
+
+    const result = await this.userAuth.authenticateUser(username, password, request.clientIP, request.userAgent);
+    if (!result.success) {
+      return { status: 401, body: { success: false, error: result.error, remainingAttempts: result.remainingAttempts } };
+    }
+
+    if (result.mfaRequired) {
+      return { status: 200, body: { success: true, mfaRequired: true, mfaChallenge: result.mfaChallenge } };
+    }
+
+    return { status: 200, body: this.loginBody(result) };
+  }
+
+  private async loginMFA(request: ManagementRequest): Promise<ManagementResponse> {
+    const challenge = this.requireString(request.body, 'mfaChallenge');
+    const code = this.requireString(request.body, 'code');
+
+    const result = await this.userAuth.verifyMFAChallenge(challenge, code, request.clientIP, request.userAgent);
+    if (!result.success) {
+      return { status: 401, body: { success: false, error: result.error } };
+    }
+
+    return { status: 200, body: this.loginBody(result) };
+  }
+
+  private async logout(request: ManagementRequest): Promise<ManagementResponse> {
+    await this.authenticate(request, true);
+    await this.userAuth.logout(request.token, request.clientIP);
+    return { status: 200, body: { success: true } };
+  }
+
+  private async changePassword(request: ManagementRequest): Promise<ManagementResponse> {
+    const session = await this.authenticate(request, true);
+    const currentPassword = this.requireString(request.body, 'currentPassword');
+    const newPassword = this.requireString(request.body, 'newPassword');
+
+    const result = await this.userAuth.changePassword(session.userId!, currentPassword, newPassword, request.clientIP);
+    if (!result.success) {
+      return { status: 400, body: result };
+    }
+
+    // All sessions, including this one, end with a password change
+    return { status: 200, body: { success: true, reauthenticate: true } };
+  }
+
+  private async enrollMFA(request: ManagementRequest): Promise<ManagementResponse> {
+    const session = await this.authenticate(request, true);
+    const method = (request.body.method ?? 'totp') as MFAMethod;
+
+    const result = await this.userAuth.beginMFAEnrollment(session.userId!, method, request.clientIP);
+    if (!result.success) {
+      return { status: 400, body: result };
+    }
+
+    return { status: 200, body: { success: true, ...result.enrollment } };
+  }
+
+  private async verifyEnrollment(request: ManagementRequest): Promise<ManagementResponse> {
+    const session = await this.authenticate(request, true);
+    const code = this.requireString(request.body, 'code');
+
+    const result = await this.userAuth.confirmMFAEnrollment(session.userId!, code, request.clientIP);
+    return { status: result.success ? 200 : 400, body: result };
+  }
+
+  private async regenerateBackupCodes(request: ManagementRequest): Promise<ManagementResponse> {
+    const session = await this.authenticate(request);
+    const code = this.requireString(request.body, 'code');
+
+    const result = await this.userAuth.regenerateBackupCodes(session.userId!, code, request.clientIP);
+    return { status: result.success ? 200 : 400, body: result };
+  }
+
+  private async listSessions(request: ManagementRequest): Promise<ManagementResponse> {
+    const session = await this.authenticate(request);
+    const userId = request.query.get('userId') || session.userId!;
+
+    if (userId !== session.userId && !await this.userAuth.checkPermission(session.userId!, Permission.USER_READ)) {
+      await this.auditLogger.logEvent({
+        userId: session.userId!,
+        eventType: PCIAuditEventType.AUTHORIZATION_FAILURE,
+        result: 'failure',
+        resource: userId,
+        sourceIP: request.clientIP,
+        component: 'ManagementAPI',
+        action: 'list-sessions-denied',
+        details: { reason: 'insufficient-permissions' },
+        riskScore: 60
+      });
+      throw new RequestError(403, 'Insufficient permissions');
+    }
+
+    const sessions = this.userAuth.getUserSessions(userId).map(s => ({
+      ...s,
+      current: s.sessionId === session.session!.sessionId
+    }));
+
+    await this.auditLogger.logEvent({
+      userId: session.userId!,
+      eventType: PCIAuditEventType.DATA_ACCESS,
+      result: 'success',
+      resource: userId,
+      sourceIP: request.clientIP,
+      component: 'ManagementAPI',
+      action: 'list-sessions',
+      details: { count: sessions.length },
+      riskScore: userId === session.userId ? 5 : 20
+    });
+
+    return { status: 200, body: { success: true, sessions } };
+  }
+
+  private async revokeSession(request: ManagementRequest, sessionId: string): Promise<ManagementResponse> {
+    const session = await this.authenticate(request);
+
+    const result = await this.userAuth.revokeSession(session.userId!, sessionId, request.clientIP);
+    if (!result.success) {
+      const status = result.error === 'Session not found' ? 404 : 403;
+      return { status, body: result };
+    }
+
+    return { status: 200, body: result };
+  }
+
+  /**
+   * Resolve the request's session; pending sessions (password change or MFA
+   * enrollment outstanding) are only accepted where allowPending is set
+   */
+  private async authenticate(request: ManagementRequest, allowPending: boolean = false): Promise<SessionValidationResult> {
+    const result = request.token
+      ? await this.userAuth.validateSession(request.token, { allowPending })
+      : { valid: false } as SessionValidationResult;
+
+    if (result.valid) {
+      return result;
+    }
+
+    if (result.pending) {
+      throw new RequestError(403, result.pending.mustChangePassword
+        ? 'Password change required'
+        : 'MFA enrollment required');
+    }
+
+    await this.auditLogger.logEvent({
+      userId: 'anonymous',
+      eventType: PCIAuditEventType.INVALID_ACCESS_ATTEMPT,
+      result: 'failure',
+      resource: `${MANAGEMENT_API_PATH}${request.route}`,
+      sourceIP: request.clientIP,
+      component: 'ManagementAPI',
+      action: request.token ? 'invalid-session' : 'missing-session',
+      details: { method: request.method, userAgent: request.userAgent },
+      riskScore: 40
+    });
+
+    throw new RequestError(401, 'Authentication required');
+  }
+
+  private loginBody(result: { userId?: string; token?: string; mustChangePassword?: boolean; mfaEnrollmentRequired?: boolean }) {
+    return {
+      success: true,
+      userId: result.userId,
+      token: result.token,
+      mustChangePassword: !!result.mustChangePassword,
+      mfaEnrollmentRequired: !!result.mfaEnrollmentRequired
+    };
+  }
+
+  private requireString(body: any, field: string): string {
+    const value = body?.[field];
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new RequestError(400, `Missing ${field}`);
+    }
+    return value;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      let tooLarge = false;
+
+      req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+          tooLarge = true;
+          body = '';
+        }
+      });
+      req.on('end', () => {
+        if (tooLarge) {
+          reject(new RequestError(413, 'Request too large'));
+          return;
+        }
+        try {
+          resolve(body ? JSON.parse(body) : {});
+        } catch {
+          reject(new RequestError(400, 'Invalid JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+}
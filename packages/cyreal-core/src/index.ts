@@ -18,13 +18,24 @@ export * from './utils/rfc1918-validator';
 
 // Export A2A implementation
 export * from './a2a/a2a-server';
+export * from './a2a/management-api';
+export * from './a2a/a2a-client';
 
 // Export security components
 export * from './security/a2a-token-manager';
 export * from './security/message-validator';
 export * from './security/encryption-manager';
+export * from './security/key-provider';
+export * from './security/vault-key-provider';
+export * from './security/pkcs11-key-provider';
 export * from './security/pci-audit-logger';
+export * from './security/audit-log-reader';
+export * from './security/siem-formatter';
+export * from './security/siem-forwarder';
+export * from './security/sntp-client';
 export * from './security/user-authentication';
+export * from './security/user-store';
+export * from './security/reencryption-service';
 
 // Export constants
 export * from './constants/legal';
@@ -7,7 +7,8 @@
 
 import { A2AAgentCard, A2ACapability, A2AEndpoint, Message } from './protocol';
 import { TokenPair, A2AAuthResult } from './security';
-import { IGovernor } from './governor';
+import { IGovernor, ValidationResult } from './governor';
+import { PortOptions } from './port';
 
 /**
  * A2A Configuration with security defaults
@@ -36,6 +37,7 @@ export interface A2AConfig {
     requireMutualAuth: boolean; // Default: true
     tokenExpiryMinutes: number; // Default: 60
     maxAgentsConnected: number; // Default: 10
+    agentPorts?: Record<string, string[]>; // agentId ('*': every agent) -> port IDs ('*': all); no grant, no access
   };
   
   // Service discovery
@@ -75,6 +77,11 @@ export interface IA2AAgentRegistry {
    */
   getAgent(agentId: string): Promise<A2AAgentCard | null>;
   
+  /**
+   * Whether the token is the one most recently issued to the agent
+   */
+  validateToken(agentId: string, token: string): Promise<boolean>;
+  
   /**
    * Update agent heartbeat
    */
@@ -166,6 +173,92 @@ export interface IA2AServer {
   getAgentCard(): A2AAgentCard;
 }
 
+/**
+ * Serial port as reported to A2A agents
+ */
+export interface A2ASerialPortInfo {
+  path: string;
+  portId?: string; // Set when a port controller manages the device
+  type?: string;
+  status?: string;
+  manufacturer?: string;
+  vendorId?: string;
+  productId?: string;
+  serialNumber?: string;
+}
+
+/**
+ * Source of real serial ports for the A2A serial.* methods
+ */
+export interface IA2APortProvider {
+  /**
+   * List system serial ports and managed port controllers
+   */
+  listPorts(): Promise<A2ASerialPortInfo[]>;
+  
+  /**
+   * Read up to maxBytes, resolving early when full or after timeout ms
+   */
+  readPort(portId: string, options: { maxBytes: number; timeout: number }): Promise<Buffer>;
+  
+  /**
+   * Write data to a port, returning the number of bytes written
+   */
+  writePort(portId: string, data: Buffer): Promise<number>;
+  
+  /**
+   * Apply line settings to an open port, returning the resulting options
+   */
+  configurePort(portId: string, options: Partial<PortOptions>): Promise<PortOptions | undefined>;
+}
+
+/**
+ * Governor health as reported to A2A agents
+ */
+export interface A2AGovernorStatus {
+  name: string;
+  level: number;
+  domain?: string;
+  portId?: string;
+  validation: ValidationResult;
+  learning: {
+    probeCount: number;
+    successfulActions: number;
+    failedActions: number;
+    learningCycles: number;
+    learningDataSize: number;
+  };
+}
+
+/**
+ * Source of governor state for the A2A governance.status method
+ */
+export interface IA2AGovernanceProvider {
+  /**
+   * Validate every governor and collect its learning metrics
+   */
+  getGovernorStatus(): Promise<A2AGovernorStatus[]>;
+}
+
+/**
+ * Server-push notification for agents connected over WebSocket
+ */
+export interface A2ANotification {
+  method: 'serial.data' | 'serial.error' | 'serial.status' | 'serial.device' | 'governance.action';
+  portId?: string; // Only agents with read access to the port receive it
+  params: Record<string, any>;
+}
+
+/**
+ * Source of serial and governance events pushed to connected agents
+ */
+export interface IA2ANotificationSource {
+  /**
+   * Subscribe to notifications
+   */
+  onNotification(callback: (notification: A2ANotification) => void): void;
+}
+
 /**
  * A2A Client interface for connecting to other agents
  */
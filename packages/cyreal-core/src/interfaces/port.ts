@@ -36,7 +36,10 @@ export interface PortOptions {
   stopBits?: 1 | 1.5 | 2;
   parity?: 'none' | 'odd' | 'even' | 'mark' | 'space';
   flowControl?: 'none' | 'hardware' | 'software';
-  bufferMode?: BufferMode;
+  bufferMode?: BufferMode;      // How read() frames incoming bytes, default raw
+  lineDelimiter?: string;       // Line mode frame delimiter, default "\n"
+  maxLineLength?: number;       // Line mode: longer lines are split at this length
+  idleTimeout?: number;         // Stream mode: ms of silence that ends a frame
   securityLevel?: SecurityLevel;
   // RS-485 specific
   rs485?: {
@@ -47,6 +50,11 @@ export interface PortOptions {
   };
 }
 
+/**
+ * Framing settings a reader can override for its own read() iterator
+ */
+export type PortFraming = Pick<PortOptions, 'bufferMode' | 'lineDelimiter' | 'maxLineLength' | 'idleTimeout'>;
+
 /**
  * Device fingerprint for security tracking
  * REMOVED - Pending manufacturer consultation on privacy-preserving implementation
@@ -102,9 +110,9 @@ export interface ICyrealPort {
   write(data: Buffer): Promise<void>;
   
   /**
-   * Read data from the port (async iterator)
+   * Read data from the port (async iterator), one frame per item
    */
-  read(): AsyncIterator<Buffer>;
+  read(framing?: PortFraming): AsyncIterator<Buffer>;
   
   /**
    * Get current metrics
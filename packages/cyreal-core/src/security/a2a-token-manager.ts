@@ -2,13 +2,19 @@
  * Secure A2A Token Manager
  * 
  * Implements cryptographically secure token authentication for A2A agents
- * with proper validation, expiry, and revocation mechanisms
+ * with proper validation, expiry, and revocation mechanisms. Signing keys
+ * form a ring identified by `kid`; the ring and revocation list can be
+ * persisted so tokens stay valid (and revoked) across restarts. Persisted
+ * signing keys are wrapped by a key provider, never stored in clear text.
  */
 
 import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import * as winston from 'winston';
 import { IA2ATokenManager, TokenPair, A2AAuthResult, TokenPermissions } from '../interfaces/security';
 import { A2AAgentCard } from '../interfaces/protocol';
+import type { IKeyProvider, WrappedKey } from './key-provider';
 
 interface SecureTokenData {
   agentId: string;
@@ -25,28 +31,160 @@ interface TokenValidationResult {
   tokenData?: SecureTokenData;
 }
 
+interface SigningKey {
+  kid: string;
+  secret: string;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+interface PersistedSigningKey {
+  kid: string;
+  wrapped: WrappedKey;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+interface KeyRingState {
+  keys: PersistedSigningKey[];
+  revoked: Array<{ hash: string; expiresAt: number }>;
+}
+
+export interface TokenKeyRingOptions {
+  keyStorePath?: string;     // Persist signing keys and revocations to this file
+  keyProvider?: IKeyProvider; // Wraps persisted signing keys; required with keyStorePath
+  rotationInterval?: number; // ms between signing key rotations, 0 disables
+  keyOverlap?: number;       // ms a retired key keeps verifying tokens it signed
+}
+
 export class SecureA2ATokenManager implements IA2ATokenManager {
-  private readonly SECRET_KEY: string;
   private readonly ALGORITHM = 'HS256';
   private readonly DEFAULT_EXPIRY_MINUTES = 60;
   private readonly activeTokens = new Map<string, SecureTokenData>();
-  private readonly revokedTokens = new Set<string>();
+  private readonly revokedTokens = new Map<string, number>(); // token hash -> expiry
   private readonly logger: winston.Logger;
-
-  constructor(logger: winston.Logger, secretKey?: string) {
+  private readonly keyStorePath?: string;
+  private readonly keyProvider?: IKeyProvider;
+  private readonly rotationInterval: number;
+  private readonly keyOverlap: number;
+  private readonly fixedKid?: string;
+  private keys: SigningKey[] = [];
+  private wrappedSecrets = new Map<string, WrappedKey>(); // kid -> wrapped secret
+  private persistQueue: Promise<void> = Promise.resolve();
+
+  constructor(logger: winston.Logger, secretKey?: string, options: TokenKeyRingOptions = {}) {
     this.logger = logger;
+    this.keyStorePath = options.keyStorePath;
+    this.keyProvider = options.keyProvider;
+    this.keyOverlap = options.keyOverlap ?? 24 * 60 * 60 * 1000;
+
+    if (this.keyStorePath && !this.keyProvider) {
+      throw new Error('A persisted token key ring requires a key provider to wrap its signing keys');
+    }
+
+    // A provided secret is the signing key until the operator removes it;
+    // rotating it away would silently stop honouring the configured secret
+    if (secretKey && options.rotationInterval) {
+      throw new Error('A fixed token secret cannot be rotated; unset the secret or disable key rotation');
+    }
+    this.rotationInterval = secretKey ? 0 : options.rotationInterval ?? (options.keyStorePath ? 24 * 60 * 60 * 1000 : 0);
     
-    // Use provided secret or generate a cryptographically secure one
-    this.SECRET_KEY = secretKey || this.generateSecureSecret();
-    
-    if (!secretKey) {
-      this.logger.warn('🔑 No secret key provided - using generated key (not recommended for production)');
+    // Use provided secret or generate a cryptographically secure one. A
+    // provided secret gets a kid derived from it so it is stable across restarts
+    if (secretKey) {
+      this.fixedKid = crypto.createHash('sha256').update(secretKey).digest('hex').substring(0, 16);
+      this.keys.push({
+        kid: this.fixedKid,
+        secret: secretKey,
+        createdAt: Date.now()
+      });
+    } else {
+      this.keys.push(this.createSigningKey());
+      if (!this.keyStorePath) {
+        this.logger.warn('🔑 No secret key provided - using generated key (not recommended for production)');
+      }
     }
 
     // Start token cleanup task
     this.startTokenCleanup();
   }
 
+  /**
+   * Load the persisted key ring and revocation list, creating the store on
+   * first use. Without a keyStorePath the manager works purely in memory.
+   */
+  public async initialize(): Promise<void> {
+    if (!this.keyStorePath) {
+      return;
+    }
+
+    await this.keyProvider!.initialize();
+
+    const state = await this.loadKeyRing();
+    if (state && state.keys.length > 0) {
+      const fixedKey = this.fixedKid ? this.keys[0] : undefined;
+      this.keys = state.keys;
+      for (const entry of state.revoked) {
+        this.revokedTokens.set(entry.hash, entry.expiresAt);
+      }
+      this.logger.info('Token key ring loaded', {
+        keys: this.keys.length,
+        activeKid: this.getActiveKey().kid,
+        revoked: this.revokedTokens.size
+      });
+
+      if (fixedKey && this.getActiveKey().kid !== fixedKey.kid) {
+        await this.activateKey(fixedKey);
+        this.logger.info('Configured token secret imported as the active signing key', { activeKid: fixedKey.kid });
+      }
+    } else {
+      // First start: the constructor key (provided or generated) seeds the ring
+      await this.saveKeyRing();
+      this.logger.info('Token key ring created', { path: this.keyStorePath, activeKid: this.getActiveKey().kid });
+    }
+
+    if (this.rotationInterval > 0 && Date.now() - this.getActiveKey().createdAt >= this.rotationInterval) {
+      await this.rotateKeys();
+    }
+  }
+
+  /**
+   * Start signing with a fresh key. The previous key keeps verifying for
+   * keyOverlap so tokens issued before the rotation stay valid.
+   */
+  public async rotateKeys(): Promise<string> {
+    if (this.fixedKid) {
+      throw new Error('A fixed token secret cannot be rotated; unset the secret to use a rotating key ring');
+    }
+
+    const previous = this.getActiveKey();
+    const key = this.createSigningKey();
+    await this.activateKey(key);
+
+    this.logger.info('Token signing key rotated', {
+      previousKid: previous.kid,
+      activeKid: key.kid,
+      verifyingKeys: this.keys.length
+    });
+
+    return key.kid;
+  }
+
+  /**
+   * Make a key the signing key, retiring the current one and dropping
+   * retired keys past their overlap
+   */
+  private async activateKey(key: SigningKey): Promise<void> {
+    const now = Date.now();
+    this.getActiveKey().retiredAt = now;
+
+    this.keys = this.keys.filter(k => k.kid !== key.kid);
+    this.keys.push({ ...key, retiredAt: undefined });
+    this.keys = this.keys.filter(k => !k.retiredAt || now - k.retiredAt < this.keyOverlap);
+
+    await this.saveKeyRing();
+  }
+
   /**
    * Generate a new token pair with cryptographic security
    */
@@ -110,7 +248,7 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
       }
 
       // Check if token is revoked
-      if (this.revokedTokens.has(a2aToken)) {
+      if (this.isRevoked(a2aToken)) {
         this.logger.warn('Authentication attempt with revoked token', {
           tokenPrefix: a2aToken.substring(0, 8)
         });
@@ -249,8 +387,9 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
       }
 
       // Check if agent was seen recently (prevent replay attacks)
-      const timeSinceLastSeen = Date.now() - agentCard.lastSeen.getTime();
-      if (timeSinceLastSeen > 5 * 60 * 1000) { // 5 minutes
+      // lastSeen arrives as an ISO string once the card has crossed the wire
+      const timeSinceLastSeen = Date.now() - new Date(agentCard.lastSeen).getTime();
+      if (isNaN(timeSinceLastSeen) || timeSinceLastSeen > 5 * 60 * 1000) { // 5 minutes
         this.logger.warn('Agent card timestamp too old', {
           agentId: agentCard.agentId,
           timeSinceLastSeen
@@ -281,11 +420,45 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
   }
 
   /**
-   * Revoke a token immediately
+   * Re-activate a previously issued token, e.g. from a persisted agent
+   * registry after a restart. The token must verify against our key, be
+   * unexpired and unrevoked, and be bound to expectedPortId when given.
+   */
+  public async restoreToken(a2aToken: string, expectedPortId?: string): Promise<boolean> {
+    const tokenData = this.lookupToken(a2aToken);
+    if (!tokenData) {
+      return false;
+    }
+
+    return !expectedPortId || tokenData.permissions.portId === expectedPortId;
+  }
+
+  /**
+   * Whether a token known only by its SHA-256 hash and signing kid, e.g.
+   * from a persisted agent registry, may still authenticate: its key must
+   * still verify and it must not be revoked. Expiry is the caller's check.
+   */
+  public isTokenReferenceValid(tokenHash: string, kid: string): boolean {
+    return !this.revokedTokens.has(tokenHash) && this.keys.some(key => key.kid === kid);
+  }
+
+  /**
+   * Whether a token has been revoked, whatever its signature or expiry
+   */
+  public isRevoked(a2aToken: string): boolean {
+    return this.revokedTokens.has(this.hashToken(a2aToken));
+  }
+
+  /**
+   * Revoke a token immediately; persisted revocations survive restarts
    */
   public async revokeToken(a2aToken: string): Promise<void> {
-    this.revokedTokens.add(a2aToken);
+    const validation = this.validateToken(a2aToken);
+    const expiresAt = validation.tokenData?.expiresAt ?? Date.now() + this.keyOverlap;
+
+    this.revokedTokens.set(this.hashToken(a2aToken), expiresAt);
     this.activeTokens.delete(a2aToken);
+    await this.saveKeyRing();
     
     this.logger.info('Token revoked', {
       tokenPrefix: a2aToken.substring(0, 8)
@@ -316,7 +489,7 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
    * Renew a token
    */
   public async renewToken(a2aToken: string): Promise<TokenPair> {
-    const tokenData = this.activeTokens.get(a2aToken);
+    const tokenData = this.lookupToken(a2aToken);
     if (!tokenData) {
       throw new Error('Token not found');
     }
@@ -337,12 +510,117 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
    * Get token permissions
    */
   public async getPermissions(a2aToken: string): Promise<TokenPermissions | null> {
-    const tokenData = this.activeTokens.get(a2aToken);
+    const tokenData = this.lookupToken(a2aToken);
     return tokenData ? tokenData.permissions : null;
   }
 
   // Private helper methods
 
+  /**
+   * Find an active token, adopting validly signed tokens issued before a restart
+   */
+  private lookupToken(a2aToken: string): SecureTokenData | null {
+    if (this.isRevoked(a2aToken)) {
+      return null;
+    }
+
+    const active = this.activeTokens.get(a2aToken);
+    if (active) {
+      return active;
+    }
+
+    const validation = this.validateToken(a2aToken);
+    if (!validation.valid) {
+      return null;
+    }
+
+    this.activeTokens.set(a2aToken, validation.tokenData!);
+    return validation.tokenData!;
+  }
+
+  private hashToken(a2aToken: string): string {
+    return crypto.createHash('sha256').update(a2aToken).digest('hex');
+  }
+
+  private getActiveKey(): SigningKey {
+    return this.keys[this.keys.length - 1];
+  }
+
+  private createSigningKey(): SigningKey {
+    return {
+      kid: crypto.randomBytes(8).toString('hex'),
+      secret: this.generateSecureSecret(),
+      createdAt: Date.now()
+    };
+  }
+
+  private async loadKeyRing(): Promise<{ keys: SigningKey[]; revoked: KeyRingState['revoked'] } | null> {
+    try {
+      const data = await fs.readFile(this.keyStorePath!, 'utf8');
+      const state = JSON.parse(data) as KeyRingState;
+      const keys: SigningKey[] = [];
+
+      for (const key of Array.isArray(state.keys) ? state.keys : []) {
+        if (!key.wrapped) {
+          throw new Error(`signing key ${key.kid} is not wrapped`);
+        }
+        const secret = (await this.keyProvider!.unwrapKey(key.wrapped)).toString('utf8');
+        this.wrappedSecrets.set(key.kid, key.wrapped);
+        keys.push({ kid: key.kid, secret, createdAt: key.createdAt, retiredAt: key.retiredAt });
+      }
+
+      return {
+        keys,
+        revoked: Array.isArray(state.revoked) ? state.revoked : []
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Failed to load token key ring: ${error.message}`);
+    }
+  }
+
+  /**
+   * Atomically write the key ring; writes are serialized
+   */
+  private async saveKeyRing(): Promise<void> {
+    if (!this.keyStorePath) {
+      return;
+    }
+
+    const keyStorePath = this.keyStorePath;
+    const write = this.persistQueue.then(async () => {
+      const keys: PersistedSigningKey[] = [];
+      for (const key of this.keys) {
+        let wrapped = this.wrappedSecrets.get(key.kid);
+        if (!wrapped) {
+          wrapped = await this.keyProvider!.wrapKey(Buffer.from(key.secret, 'utf8'));
+          this.wrappedSecrets.set(key.kid, wrapped);
+        }
+        keys.push({ kid: key.kid, wrapped, createdAt: key.createdAt, retiredAt: key.retiredAt });
+      }
+      for (const kid of this.wrappedSecrets.keys()) {
+        if (!this.keys.some(key => key.kid === kid)) {
+          this.wrappedSecrets.delete(kid);
+        }
+      }
+
+      const state: KeyRingState = {
+        keys,
+        revoked: Array.from(this.revokedTokens.entries()).map(([hash, expiresAt]) => ({ hash, expiresAt }))
+      };
+      const tempPath = `${keyStorePath}.tmp`;
+
+      await fs.mkdir(path.dirname(keyStorePath), { recursive: true, mode: 0o700 });
+      await fs.writeFile(tempPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+      await fs.rename(tempPath, keyStorePath);
+    });
+
+    this.persistQueue = write.catch(() => undefined);
+    await write;
+  }
+
   private generateSecureSecret(): string {
     return crypto.randomBytes(64).toString('hex');
   }
@@ -352,6 +630,7 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
   }
 
   private signToken(tokenData: SecureTokenData): string {
+    const key = this.getActiveKey();
     const payload = {
       agi: tokenData.agentId,
       per: tokenData.permissions,
@@ -360,10 +639,10 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
     };
 
     const payloadBase64 = Buffer.from(JSON.stringify(payload)).toString('base64url');
-    const header = Buffer.from('{"typ":"A2A","alg":"HS256"}').toString('base64url');
+    const header = Buffer.from(JSON.stringify({ typ: 'A2A', alg: this.ALGORITHM, kid: key.kid })).toString('base64url');
     
     const signature = crypto
-      .createHmac('sha256', this.SECRET_KEY)
+      .createHmac('sha256', key.secret)
       .update(`${header}.${payloadBase64}`)
       .digest('base64url');
 
@@ -379,13 +658,22 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
 
       const [header, payload, signature] = parts;
 
-      // Verify signature
+      // Select the signing key named by the header
+      const { kid } = JSON.parse(Buffer.from(header, 'base64url').toString());
+      const key = this.keys.find(k => k.kid === kid);
+      if (!key) {
+        return { valid: false, expired: false, reason: 'Unknown signing key' };
+      }
+
+      // Verify signature in constant time
       const expectedSignature = crypto
-        .createHmac('sha256', this.SECRET_KEY)
+        .createHmac('sha256', key.secret)
         .update(`${header}.${payload}`)
-        .digest('base64url');
+        .digest();
+      const actualSignature = Buffer.from(signature, 'base64url');
 
-      if (signature !== expectedSignature) {
+      if (actualSignature.length !== expectedSignature.length ||
+          !crypto.timingSafeEqual(actualSignature, expectedSignature)) {
         return { valid: false, expired: false, reason: 'Invalid signature' };
       }
 
@@ -456,12 +744,33 @@ export class SecureA2ATokenManager implements IA2ATokenManager {
         }
       }
 
-      if (cleanedCount > 0) {
+      // Revocations only need to outlive the token they cover
+      let prunedRevocations = 0;
+      for (const [hash, expiresAt] of this.revokedTokens.entries()) {
+        if (now > expiresAt) {
+          this.revokedTokens.delete(hash);
+          prunedRevocations++;
+        }
+      }
+
+      if (cleanedCount > 0 || prunedRevocations > 0) {
         this.logger.debug('Token cleanup completed', {
           cleanedTokens: cleanedCount,
+          prunedRevocations,
           activeTokens: this.activeTokens.size
         });
       }
+
+      // Scheduled key rotation
+      if (this.rotationInterval > 0 && now - this.getActiveKey().createdAt >= this.rotationInterval) {
+        this.rotateKeys().catch(error => {
+          this.logger.error('Token signing key rotation failed:', error);
+        });
+      } else if (prunedRevocations > 0) {
+        this.saveKeyRing().catch(error => {
+          this.logger.error('Failed to persist token revocations:', error);
+        });
+      }
     }, 60000); // Clean up every minute
   }
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+/**
+ * PCI-DSS Audit Log Reader
+ *
+ * Streams entries from live, rotated and archived audit files in sequence
+ * order so queries and hash-chain verification (Requirement 10.5) work
+ * across file boundaries without loading whole logs into memory. Entries
+ * encrypted at rest are decrypted transparently.
+ */
+
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { PCIAuditLogEntry, AuditQueryCriteria } from './pci-audit-logger';
+import type { EncryptedData } from './encryption-manager';
+
+/**
+ * Live and rotated files are .log, retention-archived files are .archive
+ */
+export const AUDIT_FILE_PATTERN = /^audit-\d{4}-\d{2}-\d{2}(\.\d+)?\.(log|archive)$/;
+
+export interface AuditLogFile {
+  path: string;
+  firstSequence: number;
+  archived: boolean;
+}
+
+/**
+ * On-disk form of an encrypted entry. The sequence number stays in clear so
+ * files can be ordered without the key; the key ID and version travel with
+ * the ciphertext so entries written before a key rotation stay readable.
+ */
+export interface EncryptedAuditRecord {
+  sequenceNumber: number;
+  encrypted: EncryptedData;
+}
+
+/**
+ * A line that could not be parsed or decrypted; surfaced so verification can report it
+ */
+export interface UnreadableAuditLine {
+  file: string;
+  line: number;
+}
+
+export class AuditLogReader {
+  constructor(
+    private logPath: string,
+    private decrypt?: (data: EncryptedData) => Promise<string>
+  ) {}
+
+  /**
+   * Audit files ordered by the sequence number of their first entry
+   */
+  async listFiles(): Promise<AuditLogFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.logPath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: AuditLogFile[] = [];
+    for (const name of names.filter(n => AUDIT_FILE_PATTERN.test(n))) {
+      const filePath = path.join(this.logPath, name);
+      const firstSequence = await this.readFirstSequence(filePath);
+      if (firstSequence !== null) {
+        files.push({
+          path: filePath,
+          firstSequence,
+          archived: name.endsWith('.archive')
+        });
+      }
+    }
+
+    return files.sort((a, b) => a.firstSequence - b.firstSequence);
+  }
+
+  /**
+   * Stream entries in sequence order. Files that end before startSequence
+   * are skipped, but the entry just before startSequence is still yielded
+   * so callers can anchor the hash chain.
+   */
+  async *entries(
+    options: { startSequence?: number; endSequence?: number; onUnreadable?: (line: UnreadableAuditLine) => void } = {}
+  ): AsyncGenerator<PCIAuditLogEntry> {
+    const files = await this.listFiles();
+    const anchor = (options.startSequence ?? 1) - 1;
+
+    for (let i = 0; i < files.length; i++) {
+      const next = files[i + 1];
+      if (next && next.firstSequence <= anchor) {
+        continue;
+      }
+
+      for await (const entry of this.readFile(files[i].path, options.onUnreadable)) {
+        if (entry.sequenceNumber < anchor) {
+          continue;
+        }
+        if (options.endSequence !== undefined && entry.sequenceNumber > options.endSequence) {
+          return;
+        }
+        yield entry;
+      }
+    }
+  }
+
+  /**
+   * Stream entries matching the criteria, stopping after limit matches
+   */
+  async *query(criteria: AuditQueryCriteria): AsyncGenerator<PCIAuditLogEntry> {
+    const startTime = criteria.startTime?.getTime();
+    const endTime = criteria.endTime?.getTime();
+    let matched = 0;
+
+    for await (const entry of this.entries()) {
+      if (criteria.limit !== undefined && matched >= criteria.limit) {
+        return;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if (startTime !== undefined && time < startTime) continue;
+      if (endTime !== undefined && time > endTime) continue;
+      if (criteria.userId && entry.userId !== criteria.userId) continue;
+      if (criteria.eventType && entry.eventType !== criteria.eventType) continue;
+      if (criteria.resource && entry.resource !== criteria.resource) continue;
+
+      matched++;
+      yield entry;
+    }
+  }
+
+  /**
+   * Last entry of the newest file, used to recover chain state after a crash
+   */
+  async readLastEntry(): Promise<PCIAuditLogEntry | null> {
+    const files = await this.listFiles();
+    let last: PCIAuditLogEntry | null = null;
+
+    if (files.length > 0) {
+      for await (const entry of this.readFile(files[files.length - 1].path)) {
+        last = entry;
+      }
+    }
+
+    return last;
+  }
+
+  /**
+   * Ordering uses the clear sequence number, so files are still listed (and
+   * their entries reported as unreadable) when the key is unavailable
+   */
+  private async readFirstSequence(filePath: string): Promise<number | null> {
+    const input = createReadStream(filePath, { encoding: 'utf8' });
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        try {
+          const record = JSON.parse(line);
+          if (typeof record.sequenceNumber === 'number') {
+            return record.sequenceNumber;
+          }
+        } catch {
+          // Skip unparseable lines
+        }
+      }
+      return null;
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  private async *readFile(
+    filePath: string,
+    onUnreadable?: (line: UnreadableAuditLine) => void
+  ): AsyncGenerator<PCIAuditLogEntry> {
+    const input = createReadStream(filePath, { encoding: 'utf8' });
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    let lineNumber = 0;
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+        if (!line.trim()) {
+          continue;
+        }
+
+        let entry: PCIAuditLogEntry;
+        try {
+          entry = await this.decode(JSON.parse(line));
+        } catch {
+          onUnreadable?.({ file: path.basename(filePath), line: lineNumber });
+          continue;
+        }
+        yield entry;
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  /**
+   * Plaintext entries pass through, so logs written before encryption was
+   * enabled remain readable
+   */
+  private async decode(record: PCIAuditLogEntry | EncryptedAuditRecord): Promise<PCIAuditLogEntry> {
+    if (!('encrypted' in record)) {
+      return record;
+    }
+
+    if (!this.decrypt) {
+      throw new Error('Encrypted audit entry but no decryption key available');
+    }
+
+    const entry: PCIAuditLogEntry = JSON.parse(await this.decrypt(record.encrypted));
+
+    // The clear sequence number must match the authenticated one
+    if (entry.sequenceNumber !== record.sequenceNumber) {
+      throw new Error(`Sequence mismatch in encrypted entry ${record.sequenceNumber}`);
+    }
+
+    return entry;
+  }
+}
@@ -8,6 +8,7 @@
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as winston from 'winston';
+import { IKeyProvider, WrappedKey, FileKeyProvider } from './key-provider';
 
 export interface EncryptionKey {
   id: string;
@@ -29,6 +30,20 @@ export interface EncryptedData {
   timestamp: string;
 }
 
+/**
+ * Identifies a key version as "keyId:version"
+ */
+export function encryptionKeyRef(keyId: string, version: number): string {
+  return `${keyId}:${version}`;
+}
+
+export interface StoredKeyInfo {
+  keyId: string;
+  version: number;
+  status: EncryptionKey['status'];
+  createdAt: Date;
+}
+
 export interface IEncryptionManager {
   encrypt(plaintext: string | Buffer, context?: string): Promise<EncryptedData>;
   decrypt(encryptedData: EncryptedData): Promise<string>;
@@ -49,7 +64,7 @@ export class EncryptionManager implements IEncryptionManager {
   private logger: winston.Logger;
   private activeKey: EncryptionKey | null = null;
   private keyCache: Map<string, EncryptionKey> = new Map();
-  private hsmEnabled: boolean = false;
+  private keyProvider: IKeyProvider;
   
   // PAN detection regex patterns
   private readonly PAN_PATTERNS = [
@@ -64,15 +79,10 @@ export class EncryptionManager implements IEncryptionManager {
   constructor(
     logger: winston.Logger,
     private keyStorePath: string,
-    private hsmConfig?: {
-      enabled: boolean;
-      provider: 'aws-kms' | 'azure-keyvault' | 'hashicorp-vault';
-      endpoint?: string;
-      credentials?: any;
-    }
+    keyProvider: IKeyProvider = new FileKeyProvider()
   ) {
     this.logger = logger;
-    this.hsmEnabled = hsmConfig?.enabled || false;
+    this.keyProvider = keyProvider;
   }
 
   /**
@@ -82,25 +92,25 @@ export class EncryptionManager implements IEncryptionManager {
     this.logger.info('🔐 Initializing PCI-DSS compliant encryption manager');
     
     try {
+      // Refuses insecure configuration (e.g. the default hardware ID)
+      await this.keyProvider.initialize();
+      
+      await fs.mkdir(this.keyStorePath, { recursive: true, mode: 0o700 });
+      
       // Load or generate master encryption key
       await this.loadOrGenerateKey();
       
       // Check for key rotation requirement
       await this.checkKeyRotation();
       
-      // Validate HSM connection if enabled
-      if (this.hsmEnabled) {
-        await this.validateHSMConnection();
-      }
-      
       this.logger.info('✅ Encryption manager initialized successfully', {
         keyId: this.activeKey?.id,
         algorithm: this.ALGORITHM,
-        hsmEnabled: this.hsmEnabled
+        keyProvider: this.keyProvider.name
       });
-    } catch (error) {
+    } catch (error: any) {
       this.logger.error('Failed to initialize encryption manager', error);
-      throw new Error('Encryption initialization failed - cannot proceed without encryption');
+      throw new Error(`Encryption initialization failed - cannot proceed without encryption: ${error.message}`);
     }
   }
 
@@ -214,12 +224,7 @@ export class EncryptionManager implements IEncryptionManager {
     try {
       // Generate new key
       const newKey = await this.generateKey();
-      
-      // Mark old key as rotating
-      if (this.activeKey) {
-        this.activeKey.status = 'rotating';
-        this.keyCache.set(`${this.activeKey.id}:${this.activeKey.version}`, this.activeKey);
-      }
+      const previousKey = this.activeKey;
       
       // Set new key as active
       this.activeKey = newKey;
@@ -227,9 +232,10 @@ export class EncryptionManager implements IEncryptionManager {
       // Save key metadata
       await this.saveKeyMetadata();
       
-      // Schedule old key retirement (after re-encryption period)
-      if (this.activeKey) {
-        setTimeout(() => this.retireKey(this.activeKey!.id), 7 * 24 * 60 * 60 * 1000); // 7 days
+      // Mark old key as rotating; it is retired by the re-encryption
+      // service once no stored data references it
+      if (previousKey) {
+        await this.updateKeyStatus(previousKey.id, previousKey.version, 'rotating');
       }
       
       this.logger.info('✅ Key rotation completed successfully', {
@@ -246,20 +252,18 @@ export class EncryptionManager implements IEncryptionManager {
    * Load or generate encryption key
    */
   private async loadOrGenerateKey(): Promise<void> {
-    try {
-      // Try to load existing key metadata
-      const metadata = await this.loadKeyMetadata();
-      
-      if (metadata && metadata.activeKeyId) {
-        // Load key from secure storage (HSM or encrypted file)
-        this.activeKey = await this.loadKey(metadata.activeKeyId, metadata.activeKeyVersion);
-      } else {
-        // Generate new key
-        this.activeKey = await this.generateKey();
-        await this.saveKeyMetadata();
+    // Try to load existing key metadata
+    const metadata = await this.loadKeyMetadata();
+    
+    if (metadata && metadata.activeKeyId) {
+      // Never replace an unreadable key with a fresh one - that would
+      // orphan everything encrypted under it
+      this.activeKey = await this.loadKey(metadata.activeKeyId, metadata.activeKeyVersion);
+      if (!this.activeKey) {
+        throw new Error(`Active key ${metadata.activeKeyId} could not be unwrapped by the ${this.keyProvider.name} key provider`);
       }
-    } catch (error) {
-      this.logger.warn('Could not load existing key, generating new one', error);
+    } else {
+      // Generate new key
       this.activeKey = await this.generateKey();
       await this.saveKeyMetadata();
     }
@@ -282,48 +286,21 @@ export class EncryptionManager implements IEncryptionManager {
       status: 'active'
     };
 
-    // Store key securely
-    if (this.hsmEnabled) {
-      await this.storeKeyInHSM(key);
-    } else {
-      await this.storeKeyLocally(key);
-    }
+    // Store key wrapped by the key provider
+    await this.storeKey(key);
 
     return key;
   }
 
   /**
-   * Store key in HSM
-   */
-  private async storeKeyInHSM(key: EncryptionKey): Promise<void> {
-    // Implementation depends on HSM provider
-    this.logger.info('Storing key in HSM', { keyId: key.id, provider: this.hsmConfig?.provider });
-    // TODO: Implement HSM-specific storage
-  }
-
-  /**
-   * Store key locally (encrypted with master key)
+   * Store key wrapped by the key provider
    */
-  private async storeKeyLocally(key: EncryptionKey): Promise<void> {
-    // Encrypt the key with a master key (derived from hardware)
-    const masterKey = this.deriveMasterKey();
-    const iv = crypto.randomBytes(this.IV_LENGTH);
-    const cipher = crypto.createCipheriv('aes-256-gcm', masterKey, iv);
-    
-    const encrypted = Buffer.concat([
-      cipher.update(key.key),
-      cipher.final()
-    ]);
-    
-    const authTag = cipher.getAuthTag();
-    
+  private async storeKey(key: EncryptionKey): Promise<void> {
     const keyData = {
       id: key.id,
       version: key.version,
       algorithm: key.algorithm,
-      encryptedKey: encrypted.toString('base64'),
-      iv: iv.toString('base64'),
-      authTag: authTag.toString('base64'),
+      wrapped: await this.keyProvider.wrapKey(key.key),
       createdAt: key.createdAt.toISOString(),
       expiresAt: key.expiresAt.toISOString(),
       status: key.status
@@ -332,19 +309,7 @@ export class EncryptionManager implements IEncryptionManager {
     const keyPath = `${this.keyStorePath}/${key.id}_v${key.version}.key`;
     await fs.writeFile(keyPath, JSON.stringify(keyData), { mode: 0o600 });
     
-    this.logger.info('Key stored locally (encrypted)', { keyId: key.id, path: keyPath });
-  }
-
-  /**
-   * Derive master key from hardware characteristics
-   */
-  private deriveMasterKey(): Buffer {
-    // In production, this should use TPM or hardware-specific derivation
-    // This is a simplified example
-    const hardwareId = process.env.HARDWARE_ID || 'default-hardware-id';
-    const salt = Buffer.from('cyreal-pci-dss-encryption-salt');
-    
-    return crypto.pbkdf2Sync(hardwareId, salt, 100000, 32, 'sha256');
+    this.logger.info('Key stored (wrapped)', { keyId: key.id, provider: this.keyProvider.name, path: keyPath });
   }
 
   /**
@@ -358,31 +323,24 @@ export class EncryptionManager implements IEncryptionManager {
       return this.keyCache.get(cacheKey)!;
     }
 
-    if (this.hsmEnabled) {
-      return await this.loadKeyFromHSM(keyId, version);
-    } else {
-      return await this.loadKeyLocally(keyId, version);
-    }
-  }
-
-  /**
-   * Load key from local storage
-   */
-  private async loadKeyLocally(keyId: string, version: number): Promise<EncryptionKey | null> {
     try {
       const keyPath = `${this.keyStorePath}/${keyId}_v${version}.key`;
       const keyDataStr = await fs.readFile(keyPath, 'utf8');
       const keyData = JSON.parse(keyDataStr);
       
-      // Decrypt the key
-      const masterKey = this.deriveMasterKey();
-      const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey, Buffer.from(keyData.iv, 'base64'));
-      decipher.setAuthTag(Buffer.from(keyData.authTag, 'base64'));
+      // Key files from earlier releases hold the file provider's fields inline
+      const wrapped: WrappedKey = keyData.wrapped || {
+        provider: 'file',
+        ciphertext: keyData.encryptedKey,
+        iv: keyData.iv,
+        authTag: keyData.authTag
+      };
+      
+      if (wrapped.provider !== this.keyProvider.name) {
+        throw new Error(`Key was wrapped by the ${wrapped.provider} provider, configured provider is ${this.keyProvider.name}`);
+      }
       
-      const decryptedKey = Buffer.concat([
-        decipher.update(Buffer.from(keyData.encryptedKey, 'base64')),
-        decipher.final()
-      ]);
+      const decryptedKey = await this.keyProvider.unwrapKey(wrapped);
       
       const key: EncryptionKey = {
         id: keyData.id,
@@ -399,21 +357,12 @@ export class EncryptionManager implements IEncryptionManager {
       this.keyCache.set(keyIdentifier, key);
       
       return key;
-    } catch (error) {
-      this.logger.error('Failed to load key', { keyId, version, error });
+    } catch (error: any) {
+      this.logger.error('Failed to load key', { keyId, version, error: error.message });
       return null;
     }
   }
 
-  /**
-   * Load key from HSM
-   */
-  private async loadKeyFromHSM(keyId: string, version: number): Promise<EncryptionKey | null> {
-    // TODO: Implement HSM-specific loading
-    this.logger.info('Loading key from HSM', { keyId, version });
-    return null;
-  }
-
   /**
    * Save key metadata
    */
@@ -445,9 +394,68 @@ export class EncryptionManager implements IEncryptionManager {
   }
 
   /**
-   * Check if key rotation is needed
+   * Rewrap data under the active key; data already under it is returned as is
    */
-  private async checkKeyRotation(): Promise<void> {
+  async rewrap(encryptedData: EncryptedData, context?: string): Promise<EncryptedData> {
+    if (!this.activeKey) {
+      throw new Error('No active encryption key available');
+    }
+    
+    if (encryptedData.keyId === this.activeKey.id && encryptedData.keyVersion === this.activeKey.version) {
+      return encryptedData;
+    }
+    
+    return this.encrypt(await this.decrypt(encryptedData), context);
+  }
+
+  /**
+   * Reference ("keyId:version") of the key new data is encrypted with
+   */
+  getActiveKeyRef(): string | null {
+    return this.activeKey ? encryptionKeyRef(this.activeKey.id, this.activeKey.version) : null;
+  }
+
+  /**
+   * All keys in the key store with their lifecycle status
+   */
+  async listKeys(): Promise<StoredKeyInfo[]> {
+    const keys: StoredKeyInfo[] = [];
+    
+    for (const file of await fs.readdir(this.keyStorePath)) {
+      if (!file.endsWith('.key')) continue;
+      try {
+        const keyData = JSON.parse(await fs.readFile(`${this.keyStorePath}/${file}`, 'utf8'));
+        keys.push({
+          keyId: keyData.id,
+          version: keyData.version,
+          status: keyData.status,
+          createdAt: new Date(keyData.createdAt)
+        });
+      } catch (error: any) {
+        this.logger.warn('Unreadable key file in key store', { file, error: error.message });
+      }
+    }
+    
+    return keys.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Retire a key that no stored data references any more. The key stays in
+   * the key store (decrypt-only) but must never encrypt again.
+   */
+  async retireKey(keyId: string, version: number): Promise<void> {
+    if (this.activeKey && this.activeKey.id === keyId && this.activeKey.version === version) {
+      throw new Error('Cannot retire the active encryption key');
+    }
+    
+    await this.updateKeyStatus(keyId, version, 'retired');
+    this.logger.info('Key retired', { keyId, version });
+  }
+
+  /**
+   * Check if key rotation is needed; rotates once the crypto-period has ended
+   */
+  async checkKeyRotation(): Promise<void> {
     if (!this.activeKey) return;
     
     const daysUntilExpiry = Math.floor(
@@ -466,21 +474,20 @@ export class EncryptionManager implements IEncryptionManager {
   }
 
   /**
-   * Validate HSM connection
+   * Persist a key's lifecycle status so it survives restarts
    */
-  private async validateHSMConnection(): Promise<void> {
-    // TODO: Implement HSM-specific validation
-    this.logger.info('Validating HSM connection', { provider: this.hsmConfig?.provider });
-  }
-
-  /**
-   * Retire old key
-   */
-  private async retireKey(keyId: string): Promise<void> {
-    const key = Array.from(this.keyCache.values()).find(k => k.id === keyId);
-    if (key) {
-      key.status = 'retired';
-      this.logger.info('Key retired', { keyId });
+  private async updateKeyStatus(keyId: string, version: number, status: EncryptionKey['status']): Promise<void> {
+    const keyPath = `${this.keyStorePath}/${keyId}_v${version}.key`;
+    const keyData = JSON.parse(await fs.readFile(keyPath, 'utf8'));
+    keyData.status = status;
+    
+    const tempPath = `${keyPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(keyData), { mode: 0o600 });
+    await fs.rename(tempPath, keyPath);
+    
+    const cached = this.keyCache.get(encryptionKeyRef(keyId, version));
+    if (cached) {
+      cached.status = status;
     }
   }
 
@@ -519,7 +526,7 @@ export class EncryptionManager implements IEncryptionManager {
     algorithm: string;
     daysUntilRotation: number;
     totalKeysInCache: number;
-    hsmEnabled: boolean;
+    keyProvider: string;
   } {
     const daysUntilRotation = this.activeKey 
       ? Math.floor((this.activeKey.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
@@ -531,7 +538,7 @@ export class EncryptionManager implements IEncryptionManager {
       algorithm: this.ALGORITHM,
       daysUntilRotation,
       totalKeysInCache: this.keyCache.size,
-      hsmEnabled: this.hsmEnabled
+      keyProvider: this.keyProvider.name
     };
   }
 }
\ No newline at end of file
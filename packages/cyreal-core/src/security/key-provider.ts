@@ -0,0 +1,178 @@
+/**
+ * PCI-DSS Key Providers
+ *
+ * Key-encrypting-key backends for the EncryptionManager. Data keys are
+ * generated locally and stored wrapped by the provider, so the master key
+ * never sits next to the data it protects (PCI-DSS Requirements 3.5, 3.6).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { VaultTransitKeyProvider } from './vault-key-provider';
+import { Pkcs11KeyProvider } from './pkcs11-key-provider';
+
+/**
+ * A data key as wrapped by a provider
+ */
+export interface WrappedKey {
+  provider: string;
+  ciphertext: string;
+  iv?: string;
+  authTag?: string;
+}
+
+export interface IKeyProvider {
+  /**
+   * Provider name, recorded with every wrapped key
+   */
+  readonly name: string;
+
+  /**
+   * Validate configuration and connectivity; throws if the provider is unusable
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Wrap a data key under the provider's master key
+   */
+  wrapKey(key: Buffer): Promise<WrappedKey>;
+
+  /**
+   * Recover a data key wrapped by this provider
+   */
+  unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+/**
+ * The placeholder earlier releases fell back to; never acceptable
+ */
+export const DEFAULT_HARDWARE_ID = 'default-hardware-id';
+
+const MIN_HARDWARE_ID_LENGTH = 16;
+
+export interface FileKeyProviderOptions {
+  hardwareId?: string;       // Defaults to HARDWARE_ID
+  masterKeyFile?: string;    // 32-byte key, hex or base64; takes precedence over hardwareId
+}
+
+/**
+ * Master key from a protected key file or derived from a per-device hardware
+ * ID. Refuses to start without one rather than falling back to a predictable key.
+ */
+export class FileKeyProvider implements IKeyProvider {
+  public readonly name = 'file';
+  private masterKey: Buffer | null = null;
+
+  constructor(private options: FileKeyProviderOptions = {}) {}
+
+  async initialize(): Promise<void> {
+    if (this.options.masterKeyFile) {
+      this.masterKey = await this.readMasterKeyFile(this.options.masterKeyFile);
+      return;
+    }
+
+    const hardwareId = this.options.hardwareId ?? process.env.HARDWARE_ID;
+
+    if (!hardwareId || hardwareId === DEFAULT_HARDWARE_ID) {
+      throw new Error('File key provider requires HARDWARE_ID or a master key file - refusing to use a default master key');
+    }
+
+    if (hardwareId.length < MIN_HARDWARE_ID_LENGTH) {
+      throw new Error(`HARDWARE_ID must be at least ${MIN_HARDWARE_ID_LENGTH} characters`);
+    }
+
+    // Same derivation as earlier releases so existing key stores stay readable
+    const salt = Buffer.from('cyreal-pci-dss-encryption-salt');
+    this.masterKey = crypto.pbkdf2Sync(hardwareId, salt, 100000, 32, 'sha256');
+  }
+
+  async wrapKey(key: Buffer): Promise<WrappedKey> {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.requireMasterKey(), iv);
+
+    const encrypted = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    return {
+      provider: this.name,
+      ciphertext: encrypted.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64')
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    if (!wrapped.iv || !wrapped.authTag) {
+      throw new Error('Wrapped key is missing its IV or authentication tag');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.requireMasterKey(), Buffer.from(wrapped.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(wrapped.authTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(wrapped.ciphertext, 'base64')),
+      decipher.final()
+    ]);
+  }
+
+  private requireMasterKey(): Buffer {
+    if (!this.masterKey) {
+      throw new Error('File key provider not initialized');
+    }
+    return this.masterKey;
+  }
+
+  private async readMasterKeyFile(filePath: string): Promise<Buffer> {
+    const stats = await fs.stat(filePath);
+    if (process.platform !== 'win32' && (stats.mode & 0o077) !== 0) {
+      throw new Error(`Master key file ${filePath} must not be accessible by group or others (chmod 600)`);
+    }
+
+    const content = (await fs.readFile(filePath, 'utf8')).trim();
+    const key = /^[0-9a-fA-F]{64}$/.test(content)
+      ? Buffer.from(content, 'hex')
+      : Buffer.from(content, 'base64');
+
+    if (key.length !== 32) {
+      throw new Error(`Master key file ${filePath} must contain a 256-bit key (hex or base64)`);
+    }
+
+    return key;
+  }
+}
+
+/**
+ * Build the key provider selected by CYREAL_KEY_PROVIDER (file, vault or
+ * pkcs11) and its provider-specific variables
+ */
+export function createKeyProviderFromEnv(env: NodeJS.ProcessEnv = process.env): IKeyProvider {
+  const provider = env.CYREAL_KEY_PROVIDER || 'file';
+
+  switch (provider) {
+    case 'file':
+      return new FileKeyProvider({
+        hardwareId: env.HARDWARE_ID,
+        masterKeyFile: env.CYREAL_MASTER_KEY_FILE
+      });
+
+    case 'vault':
+      return new VaultTransitKeyProvider({
+        address: env.VAULT_ADDR || '',
+        token: env.VAULT_TOKEN || '',
+        keyName: env.CYREAL_VAULT_TRANSIT_KEY || 'cyreal',
+        mountPath: env.CYREAL_VAULT_TRANSIT_MOUNT,
+        namespace: env.VAULT_NAMESPACE,
+        createKey: env.CYREAL_VAULT_CREATE_KEY === 'true'
+      });
+
+    case 'pkcs11':
+      return new Pkcs11KeyProvider({
+        library: env.CYREAL_PKCS11_LIBRARY || '',
+        pin: env.CYREAL_PKCS11_PIN || '',
+        keyLabel: env.CYREAL_PKCS11_KEY_LABEL || 'cyreal-master',
+        slot: env.CYREAL_PKCS11_SLOT ? parseInt(env.CYREAL_PKCS11_SLOT, 10) : undefined
+      });
+
+    default:
+      throw new Error(`Unknown key provider: ${provider} (expected file, vault or pkcs11)`);
+  }
+}
@@ -318,6 +318,7 @@ export class SecureMessageValidator {
 
       case 'serial.read':
       case 'serial.write':
+      case 'serial.configure':
         if (!data.params || !data.params.portId) {
           errors.push({
             field: 'params.portId',
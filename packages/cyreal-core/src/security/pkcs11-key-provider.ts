@@ -0,0 +1,141 @@
+/**
+ * PKCS#11 Key Provider
+ *
+ * Wraps data keys with a non-extractable AES key held in an HSM or smart
+ * card through its PKCS#11 module (e.g. SoftHSM2, Thales Luna, YubiHSM).
+ * Requires the optional pkcs11js package.
+ */
+
+import * as crypto from 'crypto';
+import type { IKeyProvider, WrappedKey } from './key-provider';
+
+export interface Pkcs11Options {
+  library: string;    // Path to the vendor PKCS#11 module (.so/.dll)
+  pin: string;        // User PIN for the token
+  keyLabel: string;   // CKA_LABEL of the AES wrapping key
+  slot?: number;      // Index into the slots with a token present (default 0)
+}
+
+const GCM_IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+
+export class Pkcs11KeyProvider implements IKeyProvider {
+  public readonly name = 'pkcs11';
+  private pkcs11js: any;
+  private module: any;
+  private session: any;
+  private key: any;
+
+  constructor(private options: Pkcs11Options) {}
+
+  async initialize(): Promise<void> {
+    if (!this.options.library || !this.options.pin || !this.options.keyLabel) {
+      throw new Error('PKCS#11 key provider requires a module path, PIN and key label');
+    }
+
+    try {
+      this.pkcs11js = require('pkcs11js');
+    } catch {
+      throw new Error('PKCS#11 key provider requires the pkcs11js package (npm install pkcs11js)');
+    }
+
+    const pkcs11js = this.pkcs11js;
+    this.module = new pkcs11js.PKCS11();
+    this.module.load(this.options.library);
+    this.module.C_Initialize();
+
+    try {
+      const slots = this.module.C_GetSlotList(true);
+      const slot = slots[this.options.slot ?? 0];
+      if (!slot) {
+        throw new Error(`No PKCS#11 token present in slot ${this.options.slot ?? 0}`);
+      }
+
+      this.session = this.module.C_OpenSession(slot, pkcs11js.CKF_SERIAL_SESSION | pkcs11js.CKF_RW_SESSION);
+      this.module.C_Login(this.session, pkcs11js.CKU_USER, this.options.pin);
+
+      this.module.C_FindObjectsInit(this.session, [
+        { type: pkcs11js.CKA_CLASS, value: pkcs11js.CKO_SECRET_KEY },
+        { type: pkcs11js.CKA_KEY_TYPE, value: pkcs11js.CKK_AES },
+        { type: pkcs11js.CKA_LABEL, value: this.options.keyLabel }
+      ]);
+      const [key] = this.module.C_FindObjects(this.session, 1);
+      this.module.C_FindObjectsFinal(this.session);
+
+      if (!key) {
+        throw new Error(`PKCS#11 AES key '${this.options.keyLabel}' not found on token`);
+      }
+      this.key = key;
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  async wrapKey(key: Buffer): Promise<WrappedKey> {
+    const iv = crypto.randomBytes(GCM_IV_LENGTH);
+
+    this.requireSession();
+    this.module.C_EncryptInit(this.session, this.mechanism(iv), this.key);
+    const output: Buffer = this.module.C_Encrypt(this.session, key, Buffer.alloc(key.length + GCM_TAG_LENGTH));
+
+    return {
+      provider: this.name,
+      ciphertext: output.subarray(0, output.length - GCM_TAG_LENGTH).toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: output.subarray(output.length - GCM_TAG_LENGTH).toString('base64')
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    if (!wrapped.iv || !wrapped.authTag) {
+      throw new Error('Wrapped key is missing its IV or authentication tag');
+    }
+
+    // PKCS#11 GCM expects the tag appended to the ciphertext
+    const input = Buffer.concat([
+      Buffer.from(wrapped.ciphertext, 'base64'),
+      Buffer.from(wrapped.authTag, 'base64')
+    ]);
+
+    this.requireSession();
+    this.module.C_DecryptInit(this.session, this.mechanism(Buffer.from(wrapped.iv, 'base64')), this.key);
+    return Buffer.from(this.module.C_Decrypt(this.session, input, Buffer.alloc(input.length)));
+  }
+
+  /**
+   * Log out and unload the module
+   */
+  close(): void {
+    try {
+      if (this.session) {
+        this.module.C_Logout(this.session);
+        this.module.C_CloseSession(this.session);
+      }
+      this.module?.C_Finalize();
+    } catch {
+      // Token already gone
+    }
+    this.session = undefined;
+    this.key = undefined;
+  }
+
+  private mechanism(iv: Buffer): any {
+    return {
+      mechanism: this.pkcs11js.CKM_AES_GCM,
+      parameter: {
+        type: this.pkcs11js.CK_PARAMS_GCM,
+        iv,
+        aad: Buffer.alloc(0),
+        ivBits: iv.length * 8,
+        tagBits: GCM_TAG_LENGTH * 8
+      }
+    };
+  }
+
+  private requireSession(): void {
+    if (!this.session || !this.key) {
+      throw new Error('PKCS#11 key provider not initialized');
+    }
+  }
+}
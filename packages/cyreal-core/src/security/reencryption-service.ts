@@ -0,0 +1,217 @@
+/**
+ * PCI-DSS Re-encryption Service
+ *
+ * Completes key rotation (Requirement 3.6.4): walks every registered
+ * encrypted store, rewraps data still under an older key version to the
+ * active key, checkpoints progress so an interrupted job resumes where it
+ * stopped, and retires old keys only once no stored data references them.
+ *
+ * Runs are started by `kms reencrypt` with the daemons stopped: the daemons
+ * share one key store, and a daemon sees only its own stores, so it could
+ * retire a key another daemon's data still needs.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as winston from 'winston';
+import { EncryptionManager, EncryptedData, encryptionKeyRef } from './encryption-manager';
+import { PCIAuditLogger, PCIAuditEventType } from './pci-audit-logger';
+
+export interface ReencryptionCheckpoint {
+  /**
+   * Where the store got to in an interrupted run, if anywhere
+   */
+  cursor?: string;
+
+  /**
+   * Record progress; the store resumes after this cursor on the next run
+   */
+  save(cursor: string, reencrypted: number): Promise<void>;
+}
+
+export interface IReencryptableStore {
+  readonly name: string;
+
+  /**
+   * Rewrap every item not under the active key, resuming after checkpoint.cursor
+   */
+  reencrypt(rewrap: (data: EncryptedData) => Promise<EncryptedData>, checkpoint: ReencryptionCheckpoint): Promise<void>;
+
+  /**
+   * Keys ("keyId:version") still referenced by stored data
+   */
+  referencedKeys(): Promise<Set<string>>;
+}
+
+export interface ReencryptionResult {
+  targetKey: string;
+  reencrypted: number;
+  retired: string[];
+  pending: string[];
+}
+
+interface StoreProgress {
+  cursor?: string;
+  reencrypted: number;
+  completedAt?: string;
+}
+
+interface ReencryptionState {
+  targetKey: string;
+  startedAt: string;
+  stores: Record<string, StoreProgress>;
+}
+
+export class ReencryptionService {
+  private logger: winston.Logger;
+  private stores: IReencryptableStore[] = [];
+  private running: Promise<ReencryptionResult> | null = null;
+
+  constructor(
+    logger: winston.Logger,
+    private encryption: EncryptionManager,
+    private statePath: string,
+    private auditLogger?: PCIAuditLogger
+  ) {
+    this.logger = logger;
+  }
+
+  /**
+   * Register an encrypted store to be walked on every run
+   */
+  register(store: IReencryptableStore): void {
+    if (this.stores.some(existing => existing.name === store.name)) {
+      throw new Error(`Re-encryption store already registered: ${store.name}`);
+    }
+    this.stores.push(store);
+  }
+
+  /**
+   * Rotate if the crypto-period has ended, rewrap all stores to the active
+   * key and retire keys nothing references any more. Concurrent calls share one run.
+   */
+  run(): Promise<ReencryptionResult> {
+    if (!this.running) {
+      this.running = this.execute().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async execute(): Promise<ReencryptionResult> {
+    await this.encryption.checkKeyRotation();
+
+    const targetKey = this.encryption.getActiveKeyRef();
+    if (!targetKey) {
+      throw new Error('No active encryption key available');
+    }
+
+    let state = await this.loadState();
+    if (!state || state.targetKey !== targetKey) {
+      state = { targetKey, startedAt: new Date().toISOString(), stores: {} };
+      await this.saveState(state);
+      this.logger.info('🔄 Re-encryption job started', { targetKey, stores: this.stores.map(s => s.name) });
+    }
+
+    let reencrypted = 0;
+
+    for (const store of this.stores) {
+      const progress = state.stores[store.name] || (state.stores[store.name] = { reencrypted: 0 });
+      if (progress.completedAt) {
+        continue;
+      }
+
+      const current = state;
+      await store.reencrypt(data => this.encryption.rewrap(data, store.name), {
+        cursor: progress.cursor,
+        save: async (cursor, count) => {
+          progress.cursor = cursor;
+          progress.reencrypted += count;
+          reencrypted += count;
+          await this.saveState(current);
+        }
+      });
+
+      progress.completedAt = new Date().toISOString();
+      await this.saveState(state);
+
+      this.logger.info('Store re-encrypted', { store: store.name, reencrypted: progress.reencrypted });
+    }
+
+    const { retired, pending } = await this.retireUnreferencedKeys(targetKey);
+
+    // Data written under an old key during the run keeps its key alive; walk again next run
+    if (pending.length > 0) {
+      state.stores = {};
+      await this.saveState(state);
+    }
+
+    if (reencrypted > 0 || retired.length > 0) {
+      await this.auditLogger?.logEvent({
+        userId: 'SYSTEM',
+        eventType: PCIAuditEventType.KEY_ROTATED,
+        result: 'success',
+        resource: 'encryption-keys',
+        sourceIP: '127.0.0.1',
+        component: 'ReencryptionService',
+        action: 're-encrypt',
+        details: { targetKey, reencrypted, retired, pending },
+        riskScore: 30
+      });
+    }
+
+    return { targetKey, reencrypted, retired, pending };
+  }
+
+  private async retireUnreferencedKeys(targetKey: string): Promise<{ retired: string[]; pending: string[] }> {
+    const referenced = new Set<string>();
+    for (const store of this.stores) {
+      for (const ref of await store.referencedKeys()) {
+        referenced.add(ref);
+      }
+    }
+
+    const retired: string[] = [];
+    const pending: string[] = [];
+
+    for (const key of await this.encryption.listKeys()) {
+      const ref = encryptionKeyRef(key.keyId, key.version);
+      if (ref === targetKey || key.status === 'retired') {
+        continue;
+      }
+
+      if (referenced.has(ref)) {
+        pending.push(ref);
+        continue;
+      }
+
+      await this.encryption.retireKey(key.keyId, key.version);
+      retired.push(ref);
+    }
+
+    if (pending.length > 0) {
+      this.logger.warn('Old keys still referenced, not retired', { pending });
+    }
+
+    return { retired, pending };
+  }
+
+  private async loadState(): Promise<ReencryptionState | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.statePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async saveState(state: ReencryptionState): Promise<void> {
+    const tempPath = `${this.statePath}.tmp`;
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.statePath);
+  }
+}
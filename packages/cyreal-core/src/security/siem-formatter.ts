@@ -0,0 +1,175 @@
+/**
+ * SIEM Wire Formats
+ *
+ * Renders audit entries as ArcSight CEF, IBM QRadar LEEF 2.0 or RFC 5424
+ * syslog (carrying the CEF event as its message) for SOC ingestion.
+ */
+
+import * as os from 'os';
+import type { PCIAuditLogEntry } from './pci-audit-logger';
+
+export type SIEMFormat = 'cef' | 'leef' | 'syslog' | 'json';
+
+export const SIEM_FORMATS: SIEMFormat[] = ['cef', 'leef', 'syslog', 'json'];
+
+export interface SyslogOptions {
+  facility?: number;   // Defaults to 13 (log audit)
+  hostname?: string;
+  appName?: string;
+  enterpriseNumber?: number; // IANA private enterprise number for the structured data ID
+}
+
+const VENDOR = 'Cyreal';
+const PRODUCT = 'A2A-Server';
+const PRODUCT_VERSION = '1.0.0';
+
+/**
+ * Render an entry in the requested format (single line, no terminator)
+ */
+export function formatAuditEntry(entry: PCIAuditLogEntry, format: SIEMFormat, options: SyslogOptions = {}): string {
+  switch (format) {
+    case 'cef':
+      return formatCEF(entry);
+    case 'leef':
+      return formatLEEF(entry);
+    case 'syslog':
+      return formatSyslog(entry, options);
+    case 'json':
+      return JSON.stringify(entry);
+    default:
+      throw new Error(`Unsupported SIEM format: ${format}`);
+  }
+}
+
+/**
+ * Common Event Format: CEF:0|Vendor|Product|Version|SignatureID|Name|Severity|Extension
+ */
+export function formatCEF(entry: PCIAuditLogEntry): string {
+  const header = [
+    'CEF:0',
+    VENDOR,
+    PRODUCT,
+    PRODUCT_VERSION,
+    entry.eventType,
+    entry.action,
+    String(cefSeverity(entry.riskScore))
+  ].map((value, index) => index === 0 ? value : escapeCEFHeader(value));
+
+  const extension: Array<[string, string | number]> = [
+    ['rt', Date.parse(entry.timestamp)],
+    ['src', entry.sourceIP],
+    ['suser', entry.userId],
+    ['outcome', entry.result],
+    ['msg', JSON.stringify(entry.details)],
+    ['cn1', entry.sequenceNumber],
+    ['cn1Label', 'sequenceNumber'],
+    ['cs1', entry.resource],
+    ['cs1Label', 'resource'],
+    ['cs2', entry.component],
+    ['cs2Label', 'component'],
+    ['cs3', entry.hash],
+    ['cs3Label', 'entryHash'],
+    ['cs4', entry.previousHash],
+    ['cs4Label', 'previousHash']
+  ];
+
+  return `${header.join('|')}|${extension.map(([key, value]) => `${key}=${escapeCEFExtension(String(value))}`).join(' ')}`;
+}
+
+/**
+ * Log Event Extended Format 2.0 with tab-delimited attributes
+ */
+export function formatLEEF(entry: PCIAuditLogEntry): string {
+  const header = ['LEEF:2.0', VENDOR, PRODUCT, PRODUCT_VERSION, entry.eventType, 'x09']
+    .map(value => value.replace(/\|/g, '_'));
+
+  const attributes: Array<[string, string | number]> = [
+    ['devTime', entry.timestamp],
+    ['devTimeFormat', "yyyy-MM-dd'T'HH:mm:ss.SSSX"],
+    ['cat', entry.eventType],
+    ['sev', Math.max(1, cefSeverity(entry.riskScore))],
+    ['src', entry.sourceIP],
+    ['usrName', entry.userId],
+    ['resource', entry.resource],
+    ['component', entry.component],
+    ['action', entry.action],
+    ['outcome', entry.result],
+    ['riskScore', entry.riskScore],
+    ['sequenceNumber', entry.sequenceNumber],
+    ['entryHash', entry.hash],
+    ['previousHash', entry.previousHash],
+    ['details', JSON.stringify(entry.details)]
+  ];
+
+  return `${header.join('|')}|${attributes.map(([key, value]) => `${key}=${sanitizeLEEF(String(value))}`).join('\t')}`;
+}
+
+/**
+ * RFC 5424 syslog message with integrity fields as structured data. A
+ * private SD-ID needs the operator's enterprise number; without one the
+ * structured data is left empty and the CEF message still carries the fields.
+ */
+export function formatSyslog(entry: PCIAuditLogEntry, options: SyslogOptions = {}): string {
+  const facility = options.facility ?? 13;
+  const priority = facility * 8 + syslogSeverity(entry);
+  const hostname = syslogToken(options.hostname || os.hostname(), 255);
+  const appName = syslogToken(options.appName || 'cyreal', 48);
+  const msgId = syslogToken(entry.eventType, 32);
+
+  const params: Array<[string, string | number]> = [
+    ['seq', entry.sequenceNumber],
+    ['hash', entry.hash],
+    ['prevHash', entry.previousHash],
+    ['user', entry.userId],
+    ['src', entry.sourceIP],
+    ['outcome', entry.result],
+    ['resource', entry.resource]
+  ];
+  const structuredData = options.enterpriseNumber
+    ? `[cyreal@${options.enterpriseNumber} ${params.map(([key, value]) => `${key}="${escapeSDParam(String(value))}"`).join(' ')}]`
+    : '-';
+
+  return `<${priority}>1 ${entry.timestamp} ${hostname} ${appName} ${process.pid} ${msgId} ${structuredData} ${formatCEF(entry)}`;
+}
+
+function cefSeverity(riskScore: number): number {
+  return Math.min(10, Math.max(0, Math.floor(riskScore / 10)));
+}
+
+/**
+ * Map risk score to syslog severity (critical, warning, notice, informational)
+ */
+function syslogSeverity(entry: PCIAuditLogEntry): number {
+  if (entry.riskScore >= 80) return 2;
+  if (entry.riskScore >= 50 || entry.result === 'failure') return 4;
+  if (entry.riskScore >= 20) return 5;
+  return 6;
+}
+
+function escapeCEFHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function escapeCEFExtension(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/=/g, '\\=')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+function sanitizeLEEF(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+function escapeSDParam(value: string): string {
+  return value.replace(/[\\"\]]/g, match => `\\${match}`);
+}
+
+/**
+ * Header fields are printable US-ASCII without spaces; empty becomes NILVALUE
+ */
+function syslogToken(value: string, maxLength: number): string {
+  const token = value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength);
+  return token || '-';
+}
@@ -0,0 +1,459 @@
+/**
+ * SIEM Forwarder
+ *
+ * Delivers audit events to a SIEM over HTTP(S), syslog UDP (RFC 5426),
+ * syslog TCP (RFC 6587 octet counting) or syslog TLS (RFC 5425). Events
+ * that cannot be delivered are spooled to disk and retried in order, so a
+ * SIEM outage never loses events (PCI-DSS Requirement 10.5.3). With an
+ * encryption manager the spool is encrypted at rest like the audit log.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as winston from 'winston';
+import type { PCIAuditLogEntry } from './pci-audit-logger';
+import { IEncryptionManager, EncryptedData, encryptionKeyRef } from './encryption-manager';
+import { SIEMFormat, SyslogOptions, formatAuditEntry } from './siem-formatter';
+
+export interface SIEMForwarderConfig {
+  endpoint: string;            // https://host/path, udp://host:514, tcp://host:601 or tls://host:6514
+  format?: SIEMFormat;         // Defaults to json for HTTP, syslog otherwise
+  apiKey?: string;             // Bearer token for HTTP endpoints
+  caFile?: string;             // CA bundle for verifying TLS endpoints
+  queuePath: string;           // Disk spool for undelivered events
+  retryInterval?: number;      // ms between spool flush attempts
+  maxQueueSize?: number;       // Oldest spooled events are dropped beyond this
+  encryption?: IEncryptionManager; // Encrypts spooled events
+  syslog?: SyslogOptions;
+}
+
+type Transport = 'http' | 'udp' | 'tcp' | 'tls';
+
+const CONNECT_TIMEOUT = 10000;
+
+/**
+ * Disk spool of undelivered SIEM messages, one JSON record per line: the
+ * message string, or { encrypted } when an encryption manager is given
+ */
+export class SIEMSpool {
+  constructor(
+    private filePath: string,
+    private encryption?: IEncryptionManager
+  ) {}
+
+  async append(message: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.appendFile(this.filePath, await this.encode(message), { mode: 0o600 });
+  }
+
+  /**
+   * Spooled messages in order; throws if an encrypted one cannot be decrypted
+   */
+  async read(): Promise<string[]> {
+    const messages: string[] = [];
+
+    for (const record of await this.readRecords()) {
+      if (typeof record === 'string') {
+        messages.push(record);
+      } else if (!this.encryption) {
+        throw new Error('SIEM spool is encrypted but no encryption manager is configured');
+      } else {
+        messages.push(await this.encryption.decrypt(record.encrypted));
+      }
+    }
+
+    return messages;
+  }
+
+  async write(messages: string[]): Promise<void> {
+    const lines: string[] = [];
+    for (const message of messages) {
+      lines.push(await this.encode(message));
+    }
+    await this.replace(lines);
+  }
+
+  async count(): Promise<number> {
+    return (await this.readRecords()).length;
+  }
+
+  /**
+   * Keys referenced by encrypted spool records
+   */
+  async referencedKeys(): Promise<Set<string>> {
+    const refs = new Set<string>();
+
+    for (const record of await this.readRecords()) {
+      if (typeof record !== 'string') {
+        refs.add(encryptionKeyRef(record.encrypted.keyId, record.encrypted.keyVersion));
+      }
+    }
+
+    return refs;
+  }
+
+  /**
+   * Rewrap encrypted records to the active key; returns how many changed
+   */
+  async rewrap(rewrap: (data: EncryptedData) => Promise<EncryptedData>): Promise<number> {
+    const records = await this.readRecords();
+    let rewrapped = 0;
+
+    const lines: string[] = [];
+    for (const record of records) {
+      if (typeof record === 'string') {
+        lines.push(JSON.stringify(record) + '\n');
+        continue;
+      }
+
+      const encrypted = await rewrap(record.encrypted);
+      if (encrypted !== record.encrypted) {
+        rewrapped++;
+      }
+      lines.push(JSON.stringify({ encrypted }) + '\n');
+    }
+
+    if (rewrapped > 0) {
+      await this.replace(lines);
+    }
+    return rewrapped;
+  }
+
+  private async encode(message: string): Promise<string> {
+    const record = this.encryption
+      ? { encrypted: await this.encryption.encrypt(message, 'siem-spool') }
+      : message;
+    return JSON.stringify(record) + '\n';
+  }
+
+  private async readRecords(): Promise<Array<string | { encrypted: EncryptedData }>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: Array<string | { encrypted: EncryptedData }> = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash mid-append
+      }
+    }
+    return records;
+  }
+
+  private async replace(lines: string[]): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, lines.join(''), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+export class SIEMForwarder {
+  private logger: winston.Logger;
+  private config: SIEMForwarderConfig;
+  private transport: Transport;
+  private url: URL;
+  private format: SIEMFormat;
+  private socket?: net.Socket;
+  private udpSocket?: dgram.Socket;
+  private queue: Promise<void> = Promise.resolve();
+  private queuedCount: number = 0;
+  private retryTimer?: NodeJS.Timeout;
+  private spool: SIEMSpool;
+
+  constructor(logger: winston.Logger, config: SIEMForwarderConfig) {
+    this.logger = logger;
+    this.config = {
+      ...config,
+      retryInterval: config.retryInterval || 30000,
+      maxQueueSize: config.maxQueueSize || 100000
+    };
+    this.url = new URL(config.endpoint);
+    this.transport = this.parseTransport(this.url);
+    this.format = config.format || (this.transport === 'http' ? 'json' : 'syslog');
+    this.spool = new SIEMSpool(config.queuePath, config.encryption);
+  }
+
+  /**
+   * Load the spool left by a previous run and start retrying it
+   */
+  async start(): Promise<void> {
+    this.queuedCount = await this.spool.count();
+
+    if (this.queuedCount > 0) {
+      this.logger.warn('Undelivered SIEM events found, resuming delivery', { queued: this.queuedCount });
+    }
+
+    this.retryTimer = setInterval(() => {
+      this.enqueue(() => this.flushQueue()).catch(() => undefined);
+    }, this.config.retryInterval);
+
+    this.logger.info('SIEM forwarding enabled', {
+      endpoint: `${this.url.protocol}//${this.url.host}`,
+      transport: this.transport,
+      format: this.format
+    });
+  }
+
+  /**
+   * Stop retrying and close any open connection; the spool is kept
+   */
+  async stop(): Promise<void> {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+
+    await this.queue;
+    this.socket?.destroy();
+    this.socket = undefined;
+    this.udpSocket?.close();
+    this.udpSocket = undefined;
+  }
+
+  /**
+   * Number of events waiting in the disk spool
+   */
+  get pending(): number {
+    return this.queuedCount;
+  }
+
+  /**
+   * Keys referenced by the spool, taken in turn with deliveries
+   */
+  spoolReferencedKeys(): Promise<Set<string>> {
+    let refs = new Set<string>();
+    return this.enqueue(async () => {
+      refs = await this.spool.referencedKeys();
+    }).then(() => refs);
+  }
+
+  /**
+   * Rewrap the spool to the active key, taken in turn with deliveries
+   */
+  reencryptSpool(rewrap: (data: EncryptedData) => Promise<EncryptedData>): Promise<number> {
+    let rewrapped = 0;
+    return this.enqueue(async () => {
+      rewrapped = await this.spool.rewrap(rewrap);
+    }).then(() => rewrapped);
+  }
+
+  /**
+   * Deliver an event, spooling it if the SIEM is unreachable. Never throws -
+   * SIEM forwarding must not block audit logging.
+   */
+  forward(entry: PCIAuditLogEntry): Promise<void> {
+    const message = formatAuditEntry(entry, this.format, this.config.syslog);
+
+    return this.enqueue(async () => {
+      // Keep delivery order: while older events are spooled, new ones queue
+      // behind them until the retry timer drains the spool
+      if (this.queuedCount === 0) {
+        try {
+          await this.send(message);
+          return;
+        } catch (error) {
+          this.logger.error('SIEM forwarding failed, spooling event', {
+            sequenceNumber: entry.sequenceNumber,
+            error: error instanceof Error ? error.message : error
+          });
+        }
+      }
+
+      await this.appendToQueue(message);
+    }).catch(error => {
+      this.logger.error('Failed to spool SIEM event', { sequenceNumber: entry.sequenceNumber, error });
+    });
+  }
+
+  /**
+   * Retry spooled events in order, stopping at the first failure
+   */
+  private async flushQueue(): Promise<void> {
+    if (this.queuedCount === 0) {
+      return;
+    }
+
+    const messages = await this.spool.read();
+    let delivered = 0;
+
+    for (const message of messages) {
+      try {
+        await this.send(message);
+        delivered++;
+      } catch {
+        break;
+      }
+    }
+
+    if (delivered > 0) {
+      await this.writeQueue(messages.slice(delivered));
+      this.logger.info('Delivered spooled SIEM events', { delivered, remaining: this.queuedCount });
+    }
+  }
+
+  private async appendToQueue(message: string): Promise<void> {
+    await this.spool.append(message);
+    this.queuedCount++;
+
+    if (this.queuedCount > this.config.maxQueueSize!) {
+      const messages = await this.spool.read();
+      const dropped = messages.length - this.config.maxQueueSize!;
+      await this.writeQueue(messages.slice(dropped));
+      this.logger.error('SIEM spool full, oldest events dropped - use audit export to backfill', { dropped });
+    }
+  }
+
+  private async writeQueue(messages: string[]): Promise<void> {
+    await this.spool.write(messages);
+    this.queuedCount = messages.length;
+  }
+
+  /**
+   * Serialize sends and spool access so events are delivered in order
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async send(message: string): Promise<void> {
+    switch (this.transport) {
+      case 'http':
+        return this.sendHTTP(message);
+      case 'udp':
+        return this.sendUDP(message);
+      default:
+        return this.sendStream(message);
+    }
+  }
+
+  private async sendHTTP(message: string): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': this.format === 'json' ? 'application/json' : 'text/plain'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(this.config.endpoint, { method: 'POST', headers, body: message });
+
+    if (!response.ok) {
+      throw new Error(`SIEM forward failed: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * One message per datagram (RFC 5426); delivery is best effort
+   */
+  private async sendUDP(message: string): Promise<void> {
+    if (!this.udpSocket) {
+      this.udpSocket = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4');
+      this.udpSocket.on('error', error => this.logger.warn('SIEM UDP socket error', { error: error.message }));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.udpSocket!.send(Buffer.from(message), this.port, this.host, error => {
+        error ? reject(error) : resolve();
+      });
+    });
+  }
+
+  /**
+   * Octet-counted framing (RFC 6587 / RFC 5425) over a persistent connection
+   */
+  private async sendStream(message: string): Promise<void> {
+    const socket = await this.connect();
+    const frame = Buffer.from(message);
+
+    await new Promise<void>((resolve, reject) => {
+      socket.write(Buffer.concat([Buffer.from(`${frame.length} `), frame]), error => {
+        if (error) {
+          socket.destroy();
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private async connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return this.socket;
+    }
+
+    const ca = this.config.caFile ? await fs.readFile(this.config.caFile) : undefined;
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connectEvent = this.transport === 'tls' ? 'secureConnect' : 'connect';
+      const socket = this.transport === 'tls'
+        ? tls.connect({ host: this.host, port: this.port, servername: net.isIP(this.host) ? undefined : this.host, ca, rejectUnauthorized: true })
+        : net.connect({ host: this.host, port: this.port });
+
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error('SIEM connection timed out'));
+      }, CONNECT_TIMEOUT);
+
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      socket.once(connectEvent, () => {
+        clearTimeout(timer);
+        resolve(socket);
+      });
+    });
+
+    socket.on('error', error => this.logger.warn('SIEM connection error', { error: error.message }));
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+    // The collector never sends us anything; discard anything it does
+    socket.resume();
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private get host(): string {
+    return this.url.hostname.replace(/^\[|\]$/g, '');
+  }
+
+  private get port(): number {
+    const defaults: Record<Transport, number> = { http: 443, udp: 514, tcp: 601, tls: 6514 };
+    return this.url.port ? parseInt(this.url.port, 10) : defaults[this.transport];
+  }
+
+  private parseTransport(url: URL): Transport {
+    switch (url.protocol) {
+      case 'http:':
+      case 'https:':
+        return 'http';
+      case 'udp:':
+      case 'syslog:':
+        return 'udp';
+      case 'tcp:':
+        return 'tcp';
+      case 'tls:':
+        return 'tls';
+      default:
+        throw new Error(`Unsupported SIEM endpoint protocol: ${url.protocol}`);
+    }
+  }
+}
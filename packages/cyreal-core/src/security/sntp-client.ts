@@ -0,0 +1,227 @@
+/**
+ * SNTP Client
+ *
+ * Simple Network Time Protocol (RFC 4330) client used to keep audit
+ * timestamps synchronized (PCI-DSS Requirement 10.4). Each server is
+ * sampled several times and its lowest-delay sample kept; samples that
+ * disagree with the median of all servers are rejected as outliers.
+ */
+
+import * as dgram from 'dgram';
+import * as net from 'net';
+
+export interface SntpSample {
+  server: string;
+  offset: number;      // ms to add to the local clock
+  delay: number;       // Round-trip delay in ms
+  stratum: number;
+}
+
+export interface SntpOptions {
+  timeout?: number;            // Per-request timeout in ms
+  samplesPerServer?: number;
+  maxDelay?: number;           // Samples with a longer round trip are discarded
+  maxDeviation?: number;       // Max distance in ms from the median offset
+}
+
+export interface SntpResult {
+  offset: number;
+  delay: number;
+  stratum: number;
+  accepted: SntpSample[];
+  rejected: Array<{ server: string; reason: string }>;
+}
+
+const NTP_PORT = 123;
+const NTP_PACKET_SIZE = 48;
+const NTP_EPOCH_OFFSET = 2208988800; // Seconds from 1900 to 1970
+
+export class SntpClient {
+  private options: Required<SntpOptions>;
+
+  constructor(options: SntpOptions = {}) {
+    this.options = {
+      timeout: options.timeout || 2000,
+      samplesPerServer: options.samplesPerServer || 4,
+      maxDelay: options.maxDelay || 1000,
+      maxDeviation: options.maxDeviation || 100
+    };
+  }
+
+  /**
+   * Measure the local clock offset against all servers
+   */
+  async measure(servers: string[]): Promise<SntpResult> {
+    const rejected: Array<{ server: string; reason: string }> = [];
+    const best: SntpSample[] = [];
+
+    for (const server of servers) {
+      try {
+        best.push(await this.sampleServer(server));
+      } catch (error: any) {
+        rejected.push({ server, reason: error.message });
+      }
+    }
+
+    if (best.length === 0) {
+      throw new Error(`No usable NTP response (${rejected.map(r => `${r.server}: ${r.reason}`).join('; ')})`);
+    }
+
+    const median = this.median(best.map(sample => sample.offset));
+    const accepted = best.filter(sample => {
+      if (Math.abs(sample.offset - median) > this.options.maxDeviation) {
+        rejected.push({ server: sample.server, reason: `outlier (offset ${sample.offset.toFixed(1)}ms, median ${median.toFixed(1)}ms)` });
+        return false;
+      }
+      return true;
+    });
+
+    // Servers too far apart to agree on a median leave no trustworthy offset
+    if (accepted.length === 0) {
+      throw new Error(`NTP servers disagree (${rejected.map(r => `${r.server}: ${r.reason}`).join('; ')})`);
+    }
+
+    return {
+      offset: this.median(accepted.map(sample => sample.offset)),
+      delay: Math.min(...accepted.map(sample => sample.delay)),
+      stratum: Math.min(...accepted.map(sample => sample.stratum)),
+      accepted,
+      rejected
+    };
+  }
+
+  /**
+   * Lowest-delay sample from one server; its offset is the most accurate
+   */
+  private async sampleServer(server: string): Promise<SntpSample> {
+    let best: SntpSample | null = null;
+    let lastError: Error | null = null;
+
+    for (let i = 0; i < this.options.samplesPerServer; i++) {
+      try {
+        const sample = await this.query(server);
+        if (sample.delay > this.options.maxDelay) {
+          lastError = new Error(`round trip ${sample.delay.toFixed(0)}ms exceeds ${this.options.maxDelay}ms`);
+          continue;
+        }
+        if (!best || sample.delay < best.delay) {
+          best = sample;
+        }
+      } catch (error: any) {
+        lastError = error;
+      }
+    }
+
+    if (!best) {
+      throw lastError || new Error('no response');
+    }
+    return best;
+  }
+
+  /**
+   * Single SNTP request/response exchange
+   */
+  query(server: string): Promise<SntpSample> {
+    const [host, port] = this.parseServer(server);
+
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+      const request = Buffer.alloc(NTP_PACKET_SIZE);
+      let t1 = 0;
+
+      const finish = (error: Error | null, sample?: SntpSample) => {
+        clearTimeout(timer);
+        socket.close();
+        error ? reject(error) : resolve(sample!);
+      };
+
+      const timer = setTimeout(() => finish(new Error('timed out')), this.options.timeout);
+
+      socket.on('error', error => finish(error));
+      socket.on('message', response => {
+        const t4 = Date.now();
+        try {
+          finish(null, this.parseResponse(server, request, response, t1, t4));
+        } catch (error: any) {
+          finish(error);
+        }
+      });
+
+      // LI 0, version 4, mode 3 (client); our transmit time comes back as the originate time
+      request[0] = 0x23;
+      t1 = Date.now();
+      this.writeTimestamp(request, 40, t1);
+
+      socket.send(request, port, host, error => {
+        if (error) finish(error);
+      });
+    });
+  }
+
+  private parseResponse(server: string, request: Buffer, response: Buffer, t1: number, t4: number): SntpSample {
+    if (response.length < NTP_PACKET_SIZE) {
+      throw new Error('short response');
+    }
+
+    const leap = response[0] >> 6;
+    const mode = response[0] & 0x07;
+    const stratum = response[1];
+
+    if (mode !== 4 && mode !== 5) {
+      throw new Error(`unexpected mode ${mode}`);
+    }
+    if (leap === 3 || stratum === 0 || stratum > 15) {
+      throw new Error(stratum === 0 ? 'kiss-o\'-death' : 'server not synchronized');
+    }
+    // Guards against spoofed or stale replies
+    if (!response.subarray(24, 32).equals(request.subarray(40, 48))) {
+      throw new Error('originate timestamp mismatch');
+    }
+
+    const t2 = this.readTimestamp(response, 32);
+    const t3 = this.readTimestamp(response, 40);
+    if (t3 === 0) {
+      throw new Error('zero transmit timestamp');
+    }
+
+    return {
+      server,
+      offset: ((t2 - t1) + (t3 - t4)) / 2,
+      delay: (t4 - t1) - (t3 - t2),
+      stratum
+    };
+  }
+
+  /**
+   * NTP timestamp (seconds since 1900 + 32-bit fraction) to Unix ms
+   */
+  private readTimestamp(buffer: Buffer, offset: number): number {
+    const seconds = buffer.readUInt32BE(offset);
+    const fraction = buffer.readUInt32BE(offset + 4);
+    if (seconds === 0 && fraction === 0) {
+      return 0;
+    }
+    return (seconds - NTP_EPOCH_OFFSET) * 1000 + (fraction * 1000) / 0x100000000;
+  }
+
+  private writeTimestamp(buffer: Buffer, offset: number, ms: number): void {
+    const seconds = Math.floor(ms / 1000) + NTP_EPOCH_OFFSET;
+    const fraction = Math.floor(((ms % 1000) / 1000) * 0x100000000);
+    buffer.writeUInt32BE(seconds >>> 0, offset);
+    buffer.writeUInt32BE(fraction >>> 0, offset + 4);
+  }
+
+  private parseServer(server: string): [string, number] {
+    const match = server.match(/^\[(.+)\](?::(\d+))?$/) || server.match(/^([^:]+)(?::(\d+))?$/);
+    if (!match) {
+      return [server, NTP_PORT];
+    }
+    return [match[1], match[2] ? parseInt(match[2], 10) : NTP_PORT];
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
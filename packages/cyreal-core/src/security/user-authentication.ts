@@ -12,6 +12,7 @@ import * as qrcode from 'qrcode';
 import { v4 as uuidv4 } from 'uuid';
 import * as winston from 'winston';
 import { PCIAuditLogger, PCIAuditEventType } from './pci-audit-logger';
+import { IUserStore, MemoryUserStore, serializeUser, deserializeUser } from './user-store';
 
 /**
  * User account structure
@@ -23,7 +24,8 @@ export interface User {
   passwordHash: string;              // Bcrypt hash
   passwordHistory: string[];         // Last 4 password hashes
   passwordLastChanged: Date;         // For 90-day expiration
-  mfaEnabled: boolean;              // MFA requirement
+  mfaEnabled: boolean;              // MFA enrolled and enforced at login
+  mfaMethod?: MFAMethod;            // Enrolled second factor
   mfaSecret?: string;               // TOTP secret
   mfaBackupCodes?: string[];        // Backup codes
   role: UserRole;                   // User role
@@ -97,11 +99,20 @@ export enum UserStatus {
   PENDING_ACTIVATION = 'pending'    // Awaiting activation
 }
 
+/**
+ * Second factor types. Enrollment is keyed by method so further
+ * authenticators (e.g. WebAuthn) can be added beside TOTP.
+ */
+export type MFAMethod = 'totp';
+
+export const MFA_METHODS: MFAMethod[] = ['totp'];
+
 /**
  * User session
  */
 export interface UserSession {
   sessionId: string;
+  userId: string;
   token: string;
   createdAt: Date;
   expiresAt: Date;
@@ -135,11 +146,52 @@ export interface UserAuthResult {
   userId?: string;
   token?: string;
   mfaRequired?: boolean;
+  mfaChallenge?: string;            // Present with mfaRequired; completes login via verifyMFAChallenge
+  mfaEnrollmentRequired?: boolean;
   mustChangePassword?: boolean;
   error?: string;
   remainingAttempts?: number;
 }
 
+/**
+ * Session validation result. A pending session belongs to a user who must
+ * still change their password or enroll MFA, and is only accepted when the
+ * caller asks for it.
+ */
+export interface SessionValidationResult {
+  valid: boolean;
+  userId?: string;
+  session?: UserSession;
+  pending?: {
+    mustChangePassword: boolean;
+    mfaEnrollmentRequired: boolean;
+  };
+}
+
+/**
+ * Secret handed to the user when starting TOTP enrollment
+ */
+export interface MFAEnrollment {
+  method: MFAMethod;
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;                   // data: URL of the otpauth QR code
+  expiresAt: Date;
+}
+
+/**
+ * Passphrase-encrypted user export for migrating between gateways
+ */
+export interface UserExportBundle {
+  format: 'cyreal-users';
+  version: 1;
+  exportedAt: string;
+  kdf: { algorithm: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
 /**
  * PCI-DSS Compliant User Authentication Manager
  */
@@ -147,8 +199,11 @@ export class UserAuthenticationManager {
   private users: Map<string, User> = new Map();
   private usersByUsername: Map<string, string> = new Map(); // username -> userId
   private activeSessions: Map<string, UserSession> = new Map();
+  private mfaChallenges: Map<string, { userId: string; expiresAt: Date; attempts: number }> = new Map();
+  private pendingEnrollments: Map<string, { secret: string; expiresAt: Date; attempts: number }> = new Map();
   private logger: winston.Logger;
   private auditLogger: PCIAuditLogger;
+  private store: IUserStore;
   
   private readonly policy: PasswordPolicy = {
     minLength: 7,                   // PCI minimum
@@ -164,6 +219,10 @@ export class UserAuthenticationManager {
     mfaRequired: true               // Best practice
   };
   
+  private readonly mfaChallengeTimeout = 5;        // Minutes to complete a login challenge
+  private readonly mfaEnrollmentTimeout = 10;      // Minutes to confirm a new secret
+  private readonly maxMfaAttempts = 5;             // Per challenge or enrollment
+  
   // Default role permissions
   private readonly rolePermissions: Record<UserRole, Permission[]> = {
     [UserRole.ADMIN]: Object.values(Permission), // All permissions
@@ -190,9 +249,10 @@ export class UserAuthenticationManager {
     ]
   };
 
-  constructor(logger: winston.Logger, auditLogger: PCIAuditLogger) {
+  constructor(logger: winston.Logger, auditLogger: PCIAuditLogger, store: IUserStore = new MemoryUserStore()) {
     this.logger = logger;
     this.auditLogger = auditLogger;
+    this.store = store;
   }
 
   /**
@@ -201,6 +261,12 @@ export class UserAuthenticationManager {
   async initialize(): Promise<void> {
     this.logger.info('🔐 Initializing PCI-DSS compliant authentication system');
     
+    // Restore users so lockout and password history survive restarts
+    for (const user of await this.store.load()) {
+      this.users.set(user.userId, user);
+      this.usersByUsername.set(user.username, user.userId);
+    }
+    
     // Create default admin if none exists
     if (this.users.size === 0) {
       await this.createDefaultAdmin();
@@ -230,8 +296,9 @@ export class UserAuthenticationManager {
     sourceIP: string
   ): Promise<{ success: boolean; userId?: string; error?: string }> {
     try {
-      // Check if creating user has permission
-      if (!await this.checkPermission(creatingUserId, Permission.USER_CREATE)) {
+      // Check if creating user has permission (SYSTEM may only bootstrap an empty store)
+      const bootstrap = creatingUserId === 'SYSTEM' && this.users.size === 0;
+      if (!bootstrap && !await this.checkPermission(creatingUserId, Permission.USER_CREATE)) {
         await this.auditLogger.logEvent({
           userId: creatingUserId,
           eventType: PCIAuditEventType.AUTHORIZATION_FAILURE,
@@ -272,7 +339,7 @@ export class UserAuthenticationManager {
         passwordHash,
         passwordHistory: [passwordHash],
         passwordLastChanged: new Date(),
-        mfaEnabled: this.policy.mfaRequired,
+        mfaEnabled: false,              // Enrolled by the user; policy.mfaRequired restricts them until then
         role: userData.role,
         permissions: userData.permissions || this.rolePermissions[userData.role] || [],
         status: UserStatus.PENDING_ACTIVATION,
@@ -285,19 +352,10 @@ export class UserAuthenticationManager {
         sessions: []
       };
       
-      // If MFA required, generate secret
-      if (this.policy.mfaRequired) {
-        const secret = speakeasy.generateSecret({
-          name: `Cyreal:${userData.username}`,
-          issuer: 'Cyreal A2A'
-        });
-        user.mfaSecret = secret.base32;
-        user.mfaBackupCodes = this.generateBackupCodes();
-      }
-      
       // Store user
       this.users.set(userId, user);
       this.usersByUsername.set(userData.username, userId);
+      await this.store.save(user);
       
       // Audit log
       await this.auditLogger.logEvent({
@@ -370,6 +428,7 @@ export class UserAuthenticationManager {
             // Unlock account
             user.status = UserStatus.ACTIVE;
             user.failedLoginAttempts = 0;
+            await this.persistUser(user);
           }
         }
       }
@@ -408,6 +467,8 @@ export class UserAuthenticationManager {
           });
         }
         
+        await this.persistUser(user);
+        
         await this.auditLogger.logAuthentication(
           userId,
           false,
@@ -435,14 +496,24 @@ export class UserAuthenticationManager {
       // Reset failed attempts on successful password
       user.failedLoginAttempts = 0;
       user.lastSuccessfulLogin = new Date();
+      await this.persistUser(user);
       
       // Check if MFA is required
       if (user.mfaEnabled) {
-        // Return success but indicate MFA required
+        // Return success but indicate MFA required; the challenge proves the
+        // password step so the second step cannot be attempted on its own
+        const mfaChallenge = crypto.randomBytes(32).toString('hex');
+        this.mfaChallenges.set(mfaChallenge, {
+          userId,
+          expiresAt: new Date(Date.now() + this.mfaChallengeTimeout * 60000),
+          attempts: 0
+        });
+        
         return {
           success: true,
           userId,
           mfaRequired: true,
+          mfaChallenge,
           mustChangePassword: user.mustChangePassword
         };
       }
@@ -465,6 +536,7 @@ export class UserAuthenticationManager {
         success: true,
         userId,
         token: session.token,
+        mfaEnrollmentRequired: this.policy.mfaRequired,
         mustChangePassword: user.mustChangePassword
       };
       
@@ -490,12 +562,7 @@ export class UserAuthenticationManager {
       }
       
       // Verify TOTP token
-      let verified = speakeasy.totp.verify({
-        secret: user.mfaSecret,
-        encoding: 'base32',
-        token: token,
-        window: 2 // Allow 2 time steps for clock drift
-      });
+      let verified = this.verifyTotp(user.mfaSecret, token);
       
       if (!verified) {
         // Check backup codes
@@ -503,6 +570,7 @@ export class UserAuthenticationManager {
         if (backupIndex >= 0) {
           // Remove used backup code
           user.mfaBackupCodes!.splice(backupIndex, 1);
+          await this.persistUser(user);
           verified = true;
         }
       }
@@ -548,6 +616,218 @@ export class UserAuthenticationManager {
     }
   }
 
+  /**
+   * Complete a login started by authenticateUser with the challenge it
+   * returned and a TOTP or backup code
+   */
+  async verifyMFAChallenge(
+    challenge: string,
+    token: string,
+    sourceIP: string,
+    userAgent: string
+  ): Promise<UserAuthResult> {
+    const pending = this.mfaChallenges.get(challenge);
+    if (!pending || pending.expiresAt < new Date()) {
+      this.mfaChallenges.delete(challenge);
+
+      await this.auditLogger.logEvent({
+        userId: pending?.userId || 'anonymous',
+        eventType: PCIAuditEventType.AUTHENTICATION_FAILURE,
+        result: 'failure',
+        resource: 'mfa-challenge',
+        sourceIP,
+        component: 'UserAuthentication',
+        action: 'verify-mfa-challenge',
+        details: { reason: pending ? 'challenge-expired' : 'unknown-challenge' },
+        riskScore: 50
+      });
+
+      return { success: false, error: 'MFA challenge expired' };
+    }
+    
+    const result = await this.verifyMFA(pending.userId, token, sourceIP, userAgent);
+    
+    // A challenge is single use and allows a few typing mistakes
+    if (result.success || ++pending.attempts >= this.maxMfaAttempts) {
+      this.mfaChallenges.delete(challenge);
+    }
+    
+    return result;
+  }
+
+  /**
+   * Start MFA enrollment; the secret only takes effect once confirmed
+   * with a code from the authenticator
+   */
+  async beginMFAEnrollment(
+    userId: string,
+    method: MFAMethod,
+    sourceIP: string
+  ): Promise<{ success: boolean; enrollment?: MFAEnrollment; error?: string }> {
+    const user = this.users.get(userId);
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+    
+    if (!MFA_METHODS.includes(method)) {
+      return { success: false, error: `Unsupported MFA method: ${method}` };
+    }
+    
+    // Replacing an enrolled factor is an administrator reset, not self-service
+    if (user.mfaEnabled) {
+      return { success: false, error: 'MFA already enrolled' };
+    }
+    
+    const secret = speakeasy.generateSecret({
+      name: `Cyreal:${user.username}`,
+      issuer: 'Cyreal A2A'
+    });
+    const expiresAt = new Date(Date.now() + this.mfaEnrollmentTimeout * 60000);
+    this.pendingEnrollments.set(userId, { secret: secret.base32, expiresAt, attempts: 0 });
+    
+    const otpauthUrl = speakeasy.otpauthURL({
+      secret: secret.base32,
+      label: user.username,
+      issuer: 'Cyreal A2A',
+      encoding: 'base32'
+    });
+    
+    await this.auditLogger.logEvent({
+      userId,
+      eventType: PCIAuditEventType.USER_MODIFIED,
+      result: 'success',
+      resource: userId,
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'mfa-enrollment-started',
+      details: { method },
+      riskScore: 30
+    });
+    
+    return {
+      success: true,
+      enrollment: {
+        method,
+        secret: secret.base32,
+        otpauthUrl,
+        qrCode: await qrcode.toDataURL(otpauthUrl),
+        expiresAt
+      }
+    };
+  }
+
+  /**
+   * Confirm MFA enrollment with a current code; returns fresh backup codes
+   */
+  async confirmMFAEnrollment(
+    userId: string,
+    token: string,
+    sourceIP: string
+  ): Promise<{ success: boolean; backupCodes?: string[]; error?: string }> {
+    const user = this.users.get(userId);
+    const pending = this.pendingEnrollments.get(userId);
+    if (!user || !pending || pending.expiresAt < new Date()) {
+      this.pendingEnrollments.delete(userId);
+      return { success: false, error: 'No MFA enrollment in progress' };
+    }
+    
+    if (!this.verifyTotp(pending.secret, token)) {
+      if (++pending.attempts >= this.maxMfaAttempts) {
+        this.pendingEnrollments.delete(userId);
+      }
+      
+      await this.auditLogger.logEvent({
+        userId,
+        eventType: PCIAuditEventType.AUTHENTICATION_FAILURE,
+        result: 'failure',
+        resource: userId,
+        sourceIP,
+        component: 'UserAuthentication',
+        action: 'mfa-enrollment-verify',
+        details: { reason: 'invalid-mfa-token', attempts: pending.attempts },
+        riskScore: 50
+      });
+      
+      return { success: false, error: 'Invalid MFA token' };
+    }
+    
+    this.pendingEnrollments.delete(userId);
+    
+    const backupCodes = this.generateBackupCodes();
+    user.mfaEnabled = true;
+    user.mfaMethod = 'totp';
+    user.mfaSecret = pending.secret;
+    user.mfaBackupCodes = [...backupCodes];
+    user.modifiedAt = new Date();
+    user.modifiedBy = userId;
+    await this.persistUser(user);
+    
+    await this.auditLogger.logEvent({
+      userId,
+      eventType: PCIAuditEventType.USER_MODIFIED,
+      result: 'success',
+      resource: userId,
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'mfa-enrolled',
+      details: { method: user.mfaMethod, backupCodes: backupCodes.length },
+      riskScore: 40
+    });
+    
+    return { success: true, backupCodes };
+  }
+
+  /**
+   * Replace the backup codes; requires a current TOTP code, since a backup
+   * code must not be able to mint more backup codes
+   */
+  async regenerateBackupCodes(
+    userId: string,
+    token: string,
+    sourceIP: string
+  ): Promise<{ success: boolean; backupCodes?: string[]; error?: string }> {
+    const user = this.users.get(userId);
+    if (!user || !user.mfaEnabled || !user.mfaSecret) {
+      return { success: false, error: 'MFA not enrolled' };
+    }
+    
+    if (!this.verifyTotp(user.mfaSecret, token)) {
+      await this.auditLogger.logEvent({
+        userId,
+        eventType: PCIAuditEventType.AUTHENTICATION_FAILURE,
+        result: 'failure',
+        resource: userId,
+        sourceIP,
+        component: 'UserAuthentication',
+        action: 'regenerate-backup-codes',
+        details: { reason: 'invalid-mfa-token' },
+        riskScore: 50
+      });
+      
+      return { success: false, error: 'Invalid MFA token' };
+    }
+    
+    const backupCodes = this.generateBackupCodes();
+    user.mfaBackupCodes = [...backupCodes];
+    user.modifiedAt = new Date();
+    user.modifiedBy = userId;
+    await this.persistUser(user);
+    
+    await this.auditLogger.logEvent({
+      userId,
+      eventType: PCIAuditEventType.USER_MODIFIED,
+      result: 'success',
+      resource: userId,
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'backup-codes-regenerated',
+      details: { backupCodes: backupCodes.length },
+      riskScore: 40
+    });
+    
+    return { success: true, backupCodes };
+  }
+
   /**
    * Change user password
    */
@@ -611,6 +891,7 @@ export class UserAuthenticationManager {
       user.status = UserStatus.ACTIVE;
       user.modifiedAt = new Date();
       user.modifiedBy = userId;
+      await this.persistUser(user);
       
       // Invalidate all sessions
       this.invalidateUserSessions(userId);
@@ -637,13 +918,13 @@ export class UserAuthenticationManager {
   }
 
   /**
-   * Validate session token
+   * Validate session token. Users who must still change their password or
+   * enroll MFA only get a session back with allowPending set.
    */
-  async validateSession(token: string): Promise<{
-    valid: boolean;
-    userId?: string;
-    session?: UserSession;
-  }> {
+  async validateSession(
+    token: string,
+    options: { allowPending?: boolean } = {}
+  ): Promise<SessionValidationResult> {
     const session = this.activeSessions.get(token);
     if (!session) {
       return { valid: false };
@@ -662,20 +943,34 @@ export class UserAuthenticationManager {
       return { valid: false };
     }
     
-    // Update last activity
-    session.lastActivity = new Date();
-    
     // Get user
-    const user = this.users.get(session.sessionId.split('_')[1]); // Extract userId
-    if (!user || user.status !== UserStatus.ACTIVE) {
+    const user = this.users.get(session.userId);
+    const usable = user && (
+      user.status === UserStatus.ACTIVE ||
+      user.status === UserStatus.EXPIRED ||
+      user.status === UserStatus.PENDING_ACTIVATION
+    );
+    if (!user || !usable) {
       this.activeSessions.delete(token);
       return { valid: false };
     }
     
+    const pending = {
+      mustChangePassword: user.mustChangePassword || user.status !== UserStatus.ACTIVE,
+      mfaEnrollmentRequired: this.policy.mfaRequired && !user.mfaEnabled
+    };
+    if ((pending.mustChangePassword || pending.mfaEnrollmentRequired) && !options.allowPending) {
+      return { valid: false, userId: user.userId, pending };
+    }
+    
+    // Update last activity
+    session.lastActivity = new Date();
+    
     return {
       valid: true,
       userId: user.userId,
-      session
+      session,
+      pending: pending.mustChangePassword || pending.mfaEnrollmentRequired ? pending : undefined
     };
   }
 
@@ -688,9 +983,107 @@ export class UserAuthenticationManager {
       return false;
     }
     
+    // No privileges until the required second factor is enrolled
+    if (this.policy.mfaRequired && !user.mfaEnabled) {
+      return false;
+    }
+    
     return user.permissions.includes(permission);
   }
 
+  /**
+   * Active sessions of a user; tokens are never returned
+   */
+  getUserSessions(userId: string): Array<Omit<UserSession, 'token'>> {
+    const user = this.users.get(userId);
+    if (!user) {
+      return [];
+    }
+    
+    return user.sessions
+      .filter(session => this.activeSessions.has(session.token) && session.expiresAt > new Date())
+      .map(({ token, ...session }) => session);
+  }
+
+  /**
+   * Revoke a session. Users may revoke their own sessions; revoking another
+   * user's session requires user.update.
+   */
+  async revokeSession(
+    requestingUserId: string,
+    sessionId: string,
+    sourceIP: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const owner = Array.from(this.users.values()).find(user =>
+      user.sessions.some(session => session.sessionId === sessionId)
+    );
+    
+    if (owner && owner.userId !== requestingUserId &&
+        !await this.checkPermission(requestingUserId, Permission.USER_UPDATE)) {
+      await this.auditLogger.logEvent({
+        userId: requestingUserId,
+        eventType: PCIAuditEventType.AUTHORIZATION_FAILURE,
+        result: 'failure',
+        resource: sessionId,
+        sourceIP,
+        component: 'UserAuthentication',
+        action: 'revoke-session-denied',
+        details: { reason: 'insufficient-permissions', targetUserId: owner.userId },
+        riskScore: 60
+      });
+      
+      return { success: false, error: 'Insufficient permissions' };
+    }
+    
+    const session = owner?.sessions.find(s => s.sessionId === sessionId);
+    if (!owner || !session) {
+      return { success: false, error: 'Session not found' };
+    }
+    
+    this.endSession(owner, session);
+    
+    await this.auditLogger.logEvent({
+      userId: requestingUserId,
+      eventType: PCIAuditEventType.USER_LOGOUT,
+      result: 'success',
+      resource: sessionId,
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'revoke-session',
+      details: { targetUserId: owner.userId },
+      riskScore: owner.userId === requestingUserId ? 10 : 40
+    });
+    
+    return { success: true };
+  }
+
+  /**
+   * End the session belonging to a token
+   */
+  async logout(token: string, sourceIP: string): Promise<{ success: boolean }> {
+    const session = this.activeSessions.get(token);
+    const user = session ? this.users.get(session.userId) : undefined;
+    if (!session || !user) {
+      return { success: false };
+    }
+    
+    this.endSession(user, session);
+    
+    await this.auditLogger.logEvent({
+      userId: user.userId,
+      eventType: PCIAuditEventType.USER_LOGOUT,
+      result: 'success',
+      resource: session.sessionId,
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'logout',
+      details: {},
+      riskScore: 0
+    });
+    
+    return { success: true };
+  }
+
   /**
    * Get MFA QR code for user
    */
@@ -710,6 +1103,150 @@ export class UserAuthenticationManager {
     return await qrcode.toDataURL(otpauth);
   }
 
+  /**
+   * Export all users (password hashes, history, MFA secrets, lockout state
+   * and roles) encrypted under a passphrase for import on another gateway
+   */
+  async exportUsers(
+    requestingUserId: string,
+    passphrase: string,
+    sourceIP: string
+  ): Promise<{ success: boolean; bundle?: UserExportBundle; error?: string }> {
+    if (!await this.checkPermission(requestingUserId, Permission.SECURITY_CONFIG)) {
+      await this.logMigrationDenied(requestingUserId, 'export-users-denied', sourceIP);
+      return { success: false, error: 'Insufficient permissions' };
+    }
+    
+    if (!passphrase || passphrase.length < 12) {
+      return { success: false, error: 'Export passphrase must be at least 12 characters' };
+    }
+    
+    const users = Array.from(this.users.values()).map(serializeUser);
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const kdf = { algorithm: 'scrypt' as const, salt: salt.toString('base64'), N: 32768, r: 8, p: 1 };
+    const key = this.deriveExportKey(passphrase, kdf);
+    
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify({ users }), 'utf8'),
+      cipher.final()
+    ]);
+    
+    await this.auditLogger.logEvent({
+      userId: requestingUserId,
+      eventType: PCIAuditEventType.SENSITIVE_DATA_ACCESS,
+      result: 'success',
+      resource: 'user-store',
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'export-users',
+      details: { userCount: users.length },
+      riskScore: 70
+    });
+    
+    return {
+      success: true,
+      bundle: {
+        format: 'cyreal-users',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        kdf,
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64')
+      }
+    };
+  }
+
+  /**
+   * Import users from an export bundle. Existing users (by ID or username)
+   * are skipped unless overwrite is set; a username held by a different
+   * user is never overwritten.
+   */
+  async importUsers(
+    requestingUserId: string,
+    bundle: UserExportBundle,
+    passphrase: string,
+    sourceIP: string,
+    options: { overwrite?: boolean } = {}
+  ): Promise<{ success: boolean; imported?: number; skipped?: string[]; error?: string }> {
+    if (!await this.checkPermission(requestingUserId, Permission.SECURITY_CONFIG)) {
+      await this.logMigrationDenied(requestingUserId, 'import-users-denied', sourceIP);
+      return { success: false, error: 'Insufficient permissions' };
+    }
+    
+    if (bundle?.format !== 'cyreal-users' || bundle.version !== 1 || bundle.kdf?.algorithm !== 'scrypt') {
+      return { success: false, error: 'Unsupported export format' };
+    }
+    
+    let users: User[];
+    try {
+      const key = this.deriveExportKey(passphrase, bundle.kdf);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(bundle.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(bundle.authTag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(bundle.ciphertext, 'base64')),
+        decipher.final()
+      ]);
+      users = JSON.parse(plaintext.toString('utf8')).users.map(deserializeUser);
+    } catch (error) {
+      await this.auditLogger.logEvent({
+        userId: requestingUserId,
+        eventType: PCIAuditEventType.SECURITY_VIOLATION,
+        result: 'failure',
+        resource: 'user-store',
+        sourceIP,
+        component: 'UserAuthentication',
+        action: 'import-users',
+        details: { reason: 'decryption-failed' },
+        riskScore: 70
+      });
+      return { success: false, error: 'Invalid passphrase or corrupted export' };
+    }
+    
+    let imported = 0;
+    const skipped: string[] = [];
+    
+    for (const user of users) {
+      const existingId = this.usersByUsername.get(user.username);
+      const conflict = this.users.has(user.userId) || existingId !== undefined;
+      const sameUser = existingId === undefined || existingId === user.userId;
+      
+      if (conflict && !(options.overwrite && sameUser)) {
+        skipped.push(user.username);
+        continue;
+      }
+      
+      const previous = this.users.get(user.userId);
+      if (previous && previous.username !== user.username) {
+        this.usersByUsername.delete(previous.username);
+      }
+      this.invalidateUserSessions(user.userId);
+      
+      this.users.set(user.userId, user);
+      this.usersByUsername.set(user.username, user.userId);
+      await this.store.save(user);
+      imported++;
+    }
+    
+    await this.auditLogger.logEvent({
+      userId: requestingUserId,
+      eventType: PCIAuditEventType.ADMIN_ACTION,
+      result: 'success',
+      resource: 'user-store',
+      sourceIP,
+      component: 'UserAuthentication',
+      action: 'import-users',
+      details: { imported, skipped: skipped.length, overwrite: !!options.overwrite },
+      riskScore: 70
+    });
+    
+    this.logger.info('Users imported', { imported, skipped: skipped.length });
+    
+    return { success: true, imported, skipped };
+  }
+
   /**
    * Validate password against policy
    */
@@ -745,6 +1282,46 @@ export class UserAuthenticationManager {
     };
   }
 
+  /**
+   * Write a user through to the store. Failures are logged rather than
+   * thrown so a storage fault never blocks a login decision.
+   */
+  /**
+   * Write a user through to the store; a failed write fails the operation
+   * rather than leaving a change that disappears on restart
+   */
+  private async persistUser(user: User): Promise<void> {
+    try {
+      await this.store.save(user);
+    } catch (error) {
+      this.logger.error('Failed to persist user', { userId: user.userId, error });
+      throw error;
+    }
+  }
+
+  private deriveExportKey(passphrase: string, kdf: UserExportBundle['kdf']): Buffer {
+    return crypto.scryptSync(passphrase, Buffer.from(kdf.salt, 'base64'), 32, {
+      N: kdf.N,
+      r: kdf.r,
+      p: kdf.p,
+      maxmem: 128 * kdf.N * kdf.r * 2
+    });
+  }
+
+  private async logMigrationDenied(userId: string, action: string, sourceIP: string): Promise<void> {
+    await this.auditLogger.logEvent({
+      userId,
+      eventType: PCIAuditEventType.AUTHORIZATION_FAILURE,
+      result: 'failure',
+      resource: 'user-store',
+      sourceIP,
+      component: 'UserAuthentication',
+      action,
+      details: { reason: 'insufficient-permissions' },
+      riskScore: 60
+    });
+  }
+
   /**
    * Create user session
    */
@@ -758,6 +1335,7 @@ export class UserAuthenticationManager {
     
     const session: UserSession = {
       sessionId,
+      userId: user.userId,
       token,
       createdAt: new Date(),
       expiresAt: new Date(Date.now() + 8 * 60 * 60 * 1000), // 8 hours
@@ -776,6 +1354,11 @@ export class UserAuthenticationManager {
     return session;
   }
 
+  private endSession(user: User, session: UserSession): void {
+    this.activeSessions.delete(session.token);
+    user.sessions = user.sessions.filter(s => s.sessionId !== session.sessionId);
+  }
+
   /**
    * Invalidate all user sessions
    */
@@ -792,6 +1375,15 @@ export class UserAuthenticationManager {
     user.sessions = [];
   }
 
+  private verifyTotp(secret: string, token: string): boolean {
+    return speakeasy.totp.verify({
+      secret,
+      encoding: 'base32',
+      token,
+      window: 2 // Allow 2 time steps for clock drift
+    });
+  }
+
   /**
    * Generate MFA backup codes
    */
@@ -847,6 +1439,18 @@ export class UserAuthenticationManager {
       for (const user of this.users.values()) {
         user.sessions = user.sessions.filter(s => s.expiresAt > now);
       }
+      
+      // Drop abandoned MFA logins and enrollments
+      for (const [challenge, pending] of this.mfaChallenges.entries()) {
+        if (pending.expiresAt < now) {
+          this.mfaChallenges.delete(challenge);
+        }
+      }
+      for (const [userId, pending] of this.pendingEnrollments.entries()) {
+        if (pending.expiresAt < now) {
+          this.pendingEnrollments.delete(userId);
+        }
+      }
     }, 60000); // Every minute
   }
 
@@ -854,7 +1458,7 @@ export class UserAuthenticationManager {
    * Start password expiration checks
    */
   private startPasswordExpirationChecks(): void {
-    setInterval(() => {
+    setInterval(async () => {
       const now = Date.now();
       
       for (const user of this.users.values()) {
@@ -878,6 +1482,23 @@ export class UserAuthenticationManager {
             userId: user.userId,
             username: user.username
           });
+          
+          // The expiry still applies in memory; login re-checks the age after a restart
+          try {
+            await this.persistUser(user);
+          } catch (error) {
+            await this.auditLogger.logEvent({
+              userId: 'SYSTEM',
+              eventType: PCIAuditEventType.USER_MODIFIED,
+              result: 'failure',
+              resource: user.userId,
+              sourceIP: '127.0.0.1',
+              component: 'UserAuthentication',
+              action: 'expire-password',
+              details: { error: error instanceof Error ? error.message : String(error) },
+              riskScore: 60
+            }).catch(auditError => this.logger.error('Failed to audit password expiry', { userId: user.userId, error: auditError }));
+          }
         }
       }
     }, 24 * 60 * 60 * 1000); // Daily
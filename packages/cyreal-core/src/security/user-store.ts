@@ -0,0 +1,180 @@
+/**
+ * PCI-DSS User Store
+ *
+ * Durable user repository for UserAuthenticationManager. Password history,
+ * MFA secrets, lockout counters and role assignments are encrypted at rest
+ * through the EncryptionManager (PCI-DSS Requirements 3.4, 8.2).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as winston from 'winston';
+import { IEncryptionManager, EncryptedData, encryptionKeyRef } from './encryption-manager';
+import type { User } from './user-authentication';
+import type { IReencryptableStore, ReencryptionCheckpoint } from './reencryption-service';
+
+export interface IUserStore {
+  /**
+   * Load all stored users
+   */
+  load(): Promise<User[]>;
+
+  /**
+   * Insert or replace a user
+   */
+  save(user: User): Promise<void>;
+
+  /**
+   * Remove a user
+   */
+  remove(userId: string): Promise<void>;
+}
+
+/**
+ * Non-persistent store; users are lost on restart
+ */
+export class MemoryUserStore implements IUserStore {
+  public async load(): Promise<User[]> {
+    return [];
+  }
+
+  public async save(): Promise<void> {}
+
+  public async remove(): Promise<void> {}
+}
+
+/**
+ * Convert a user to its stored form. Sessions are never persisted - a
+ * restart always requires a fresh login.
+ */
+export function serializeUser(user: User): Record<string, any> {
+  return { ...user, sessions: [] };
+}
+
+/**
+ * Rebuild a user from its stored form
+ */
+export function deserializeUser(data: any): User {
+  return {
+    ...data,
+    passwordLastChanged: new Date(data.passwordLastChanged),
+    lastFailedLogin: data.lastFailedLogin ? new Date(data.lastFailedLogin) : undefined,
+    lastSuccessfulLogin: data.lastSuccessfulLogin ? new Date(data.lastSuccessfulLogin) : undefined,
+    createdAt: new Date(data.createdAt),
+    modifiedAt: new Date(data.modifiedAt),
+    sessions: []
+  } as User;
+}
+
+/**
+ * Single-document store encrypted with the EncryptionManager's active key
+ * and replaced atomically on every write
+ */
+export class EncryptedFileUserStore implements IUserStore, IReencryptableStore {
+  public readonly name = 'user-store';
+  private users: Map<string, Record<string, any>> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private logger: winston.Logger,
+    private encryption: IEncryptionManager,
+    private filePath: string
+  ) {}
+
+  async load(): Promise<User[]> {
+    let encrypted: EncryptedData;
+    try {
+      encrypted = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read user store: ${error.message}`);
+    }
+
+    // A store we cannot decrypt must never be treated as empty - that would
+    // recreate the default admin and silently discard lockout state
+    const document = JSON.parse(await this.encryption.decrypt(encrypted));
+
+    this.users.clear();
+    for (const data of document.users || []) {
+      this.users.set(data.userId, data);
+    }
+
+    this.logger.info('User store loaded', { users: this.users.size });
+
+    return Array.from(this.users.values()).map(deserializeUser);
+  }
+
+  async save(user: User): Promise<void> {
+    this.users.set(user.userId, serializeUser(user));
+    await this.flush();
+  }
+
+  async remove(userId: string): Promise<void> {
+    if (this.users.delete(userId)) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Rewrap the stored document to the active key without touching its contents
+   */
+  async reencrypt(rewrap: (data: EncryptedData) => Promise<EncryptedData>, checkpoint: ReencryptionCheckpoint): Promise<void> {
+    await this.enqueue(async () => {
+      const encrypted = await this.readEncrypted();
+      if (!encrypted) {
+        return;
+      }
+
+      const rewrapped = await rewrap(encrypted);
+      if (rewrapped !== encrypted) {
+        await this.writeEncrypted(rewrapped);
+      }
+      await checkpoint.save('document', rewrapped !== encrypted ? 1 : 0);
+    });
+  }
+
+  async referencedKeys(): Promise<Set<string>> {
+    const encrypted = await this.readEncrypted();
+    return new Set(encrypted ? [encryptionKeyRef(encrypted.keyId, encrypted.keyVersion)] : []);
+  }
+
+  /**
+   * Encrypt and atomically replace the store
+   */
+  private flush(): Promise<void> {
+    return this.enqueue(async () => {
+      const document = JSON.stringify({ version: 1, users: Array.from(this.users.values()) });
+      await this.writeEncrypted(await this.encryption.encrypt(document, 'user-store'));
+    });
+  }
+
+  private async readEncrypted(): Promise<EncryptedData | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeEncrypted(encrypted: EncryptedData): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(tempPath, JSON.stringify(encrypted), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Serialize writes so a rewrap never races a save
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * HashiCorp Vault Transit Key Provider
+ *
+ * Wraps data keys with a Vault Transit key. The master key never leaves
+ * Vault; only wrapped data keys ("vault:vN:...") are stored locally, and
+ * they stay decryptable after the transit key is rotated.
+ */
+
+import type { IKeyProvider, WrappedKey } from './key-provider';
+
+export interface VaultTransitOptions {
+  address: string;        // e.g. https://vault.plant.local:8200
+  token: string;
+  keyName: string;
+  mountPath?: string;     // Transit mount, defaults to 'transit'
+  namespace?: string;     // Vault Enterprise namespace
+  createKey?: boolean;    // Create the transit key if it does not exist
+  timeout?: number;       // Request timeout in ms
+}
+
+export class VaultTransitKeyProvider implements IKeyProvider {
+  public readonly name = 'vault-transit';
+  private options: VaultTransitOptions;
+
+  constructor(options: VaultTransitOptions) {
+    this.options = {
+      ...options,
+      address: options.address.replace(/\/+$/, ''),
+      mountPath: (options.mountPath || 'transit').replace(/^\/+|\/+$/g, ''),
+      timeout: options.timeout || 10000
+    };
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.options.address || !this.options.token || !this.options.keyName) {
+      throw new Error('Vault key provider requires an address, token and transit key name');
+    }
+
+    // Transit encrypt carries the plaintext data key - never over clear text off-host
+    const url = new URL(this.options.address);
+    const loopback = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+    if (url.protocol !== 'https:' && !loopback) {
+      throw new Error('Vault address must use https unless it is a loopback development server');
+    }
+
+    const key = await this.request('GET', `keys/${this.keyPath}`, undefined, true);
+
+    if (!key) {
+      if (!this.options.createKey) {
+        throw new Error(`Vault transit key '${this.options.keyName}' not found`);
+      }
+      await this.request('POST', `keys/${this.keyPath}`, { type: 'aes256-gcm96' });
+    }
+  }
+
+  async wrapKey(key: Buffer): Promise<WrappedKey> {
+    const response = await this.request('POST', `encrypt/${this.keyPath}`, {
+      plaintext: key.toString('base64')
+    });
+
+    return {
+      provider: this.name,
+      ciphertext: response.data.ciphertext
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    const response = await this.request('POST', `decrypt/${this.keyPath}`, {
+      ciphertext: wrapped.ciphertext
+    });
+
+    return Buffer.from(response.data.plaintext, 'base64');
+  }
+
+  private get keyPath(): string {
+    return encodeURIComponent(this.options.keyName);
+  }
+
+  /**
+   * Call the transit API; a 404 resolves to null when allowNotFound is set
+   */
+  private async request(method: 'GET' | 'POST', path: string, body?: any, allowNotFound: boolean = false): Promise<any> {
+    const headers: Record<string, string> = {
+      'X-Vault-Token': this.options.token,
+      'Content-Type': 'application/json'
+    };
+    if (this.options.namespace) {
+      headers['X-Vault-Namespace'] = this.options.namespace;
+    }
+
+    const response = await fetch(`${this.options.address}/v1/${this.options.mountPath}/${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(this.options.timeout!)
+    });
+
+    if (response.status === 404 && allowNotFound) {
+      return null;
+    }
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const errors = ((await response.json()) as any).errors;
+        if (Array.isArray(errors) && errors.length > 0) {
+          detail = errors.join('; ');
+        }
+      } catch {
+        // Keep the status text
+      }
+      throw new Error(`Vault ${method} ${path.split('/')[0]} failed: ${response.status} ${detail}`);
+    }
+
+    return response.status === 204 ? {} : response.json();
+  }
+}
@@ -25,6 +25,8 @@ export class RFC1918Validator implements IRFC1918Validator {
    * Check if an IP address falls within RFC-1918 private ranges
    */
   public isRFC1918Address(address: string): boolean {
+    address = this.normalizeAddress(address);
+    
     // Normalize localhost addresses
     if (this.isLocalhost(address)) {
       return true;
@@ -44,6 +46,80 @@ export class RFC1918Validator implements IRFC1918Validator {
     });
   }
 
+  /**
+   * Normalize an address for comparison: strips brackets and IPv6 zone IDs,
+   * lowercases, and unwraps IPv4-mapped IPv6 (::ffff:10.0.0.5 -> 10.0.0.5)
+   */
+  public normalizeAddress(address: string): string {
+    let normalized = address.trim().toLowerCase();
+    
+    if (normalized.startsWith('[') && normalized.endsWith(']')) {
+      normalized = normalized.slice(1, -1);
+    }
+    
+    const zoneIndex = normalized.indexOf('%');
+    if (zoneIndex !== -1) {
+      normalized = normalized.slice(0, zoneIndex);
+    }
+    
+    if (net.isIPv6(normalized)) {
+      const value = this.ipv6ToBigInt(normalized);
+      if (value >> 32n === 0xffffn) {
+        return this.numberToIp(Number(value & 0xffffffffn));
+      }
+    }
+    
+    return normalized;
+  }
+
+  /**
+   * Check if an address falls within an IPv4 or IPv6 CIDR block
+   */
+  public isInCIDR(address: string, cidr: string): boolean {
+    const block = this.parseCIDR(cidr);
+    const ip = this.normalizeAddress(address);
+    
+    if (!block) {
+      return false;
+    }
+    
+    if (block.family === 4) {
+      if (!net.isIPv4(ip)) {
+        return false;
+      }
+      const mask = this.cidrToMask(block.prefix);
+      return (this.ipToNumber(ip) & mask) === (this.ipToNumber(block.network) & mask);
+    }
+    
+    if (!net.isIPv6(ip)) {
+      return false;
+    }
+    const mask = this.cidrToMask6(block.prefix);
+    return (this.ipv6ToBigInt(ip) & mask) === (this.ipv6ToBigInt(block.network) & mask);
+  }
+
+  /**
+   * Match an address against a single IP or CIDR pattern
+   */
+  public matchesAddressPattern(address: string, pattern: string): boolean {
+    if (pattern.includes('/')) {
+      return this.isInCIDR(address, pattern);
+    }
+    
+    return this.normalizeAddress(address) === this.normalizeAddress(pattern);
+  }
+
+  /**
+   * Check that a pattern is a valid IP address or CIDR block
+   */
+  public isValidAddressPattern(pattern: string): boolean {
+    if (pattern.includes('/')) {
+      return this.parseCIDR(pattern) !== null;
+    }
+    
+    return net.isIP(this.normalizeAddress(pattern)) !== 0;
+  }
+
   /**
    * Check if address is localhost
    */
@@ -101,11 +177,79 @@ For more information, see: https://macawi.ai/ethical-security-standard
     return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
   }
 
+  /**
+   * Convert 32-bit number to IP address string
+   */
+  private numberToIp(value: number): string {
+    return [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.');
+  }
+
+  /**
+   * Convert IPv6 address string to 128-bit number
+   */
+  private ipv6ToBigInt(ip: string): bigint {
+    let address = ip;
+    
+    // Expand an embedded IPv4 tail into two hex groups
+    const lastColon = address.lastIndexOf(':');
+    const tail = address.slice(lastColon + 1);
+    if (net.isIPv4(tail)) {
+      const value = this.ipToNumber(tail);
+      address = `${address.slice(0, lastColon + 1)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+    }
+    
+    const [head, rest] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = rest ? rest.split(':') : [];
+    const groups = rest !== undefined
+      ? [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+      : headGroups;
+    
+    return groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+  }
+
   /**
    * Convert CIDR notation to subnet mask
    */
   private cidrToMask(cidr: number): number {
-    return (0xffffffff << (32 - cidr)) >>> 0;
+    // Shifting a 32-bit value by 32 is a no-op in JavaScript
+    return cidr === 0 ? 0 : (0xffffffff << (32 - cidr)) >>> 0;
+  }
+
+  /**
+   * Convert an IPv6 prefix length to a 128-bit mask
+   */
+  private cidrToMask6(prefix: number): bigint {
+    const all = (1n << 128n) - 1n;
+    return all ^ ((1n << BigInt(128 - prefix)) - 1n);
+  }
+
+  /**
+   * Parse "network/prefix"; IPv4-mapped IPv6 blocks are folded into IPv4
+   */
+  private parseCIDR(cidr: string): { network: string; prefix: number; family: 4 | 6 } | null {
+    const [rawNetwork, rawPrefix, ...extra] = cidr.trim().split('/');
+    if (extra.length > 0 || !rawPrefix || !/^\d+$/.test(rawPrefix)) {
+      return null;
+    }
+    
+    const prefix = parseInt(rawPrefix, 10);
+    const network = rawNetwork.toLowerCase();
+    
+    if (net.isIPv4(network)) {
+      return prefix <= 32 ? { network, prefix, family: 4 } : null;
+    }
+    
+    if (!net.isIPv6(network) || prefix > 128) {
+      return null;
+    }
+    
+    const mapped = this.normalizeAddress(network);
+    if (net.isIPv4(mapped) && prefix >= 96) {
+      return { network: mapped, prefix: prefix - 96, family: 4 };
+    }
+    
+    return { network, prefix, family: 6 };
   }
 
   /**
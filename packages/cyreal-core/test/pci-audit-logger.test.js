@@ -0,0 +1,88 @@
+/**
+ * Audit log tamper detection across rotated files (PCI-DSS 10.5)
+ */
+
+const { test, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { PCIAuditLogger, PCIAuditEventType } = require('../dist/security/pci-audit-logger');
+const { AUDIT_FILE_PATTERN } = require('../dist/security/audit-log-reader');
+
+const logPaths = [];
+after(() => logPaths.forEach(logPath => fs.rmSync(logPath, { recursive: true, force: true })));
+
+async function writeRotatedLog() {
+  const logPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cyreal-audit-'));
+  logPaths.push(logPath);
+  const writer = new PCIAuditLogger({ logPath, maxFileSize: 2048, maxFiles: 100, retentionDays: 365 });
+  await writer.initialize();
+
+  for (let i = 0; i < 20; i++) {
+    await writer.logEvent({
+      userId: 'operator',
+      eventType: PCIAuditEventType.CONFIG_CHANGE,
+      result: 'success',
+      resource: `port-${i}`,
+      sourceIP: '10.0.0.5',
+      component: 'test',
+      action: 'configure',
+      details: { baudRate: 9600 },
+      riskScore: 10
+    });
+  }
+  await writer.stop();
+
+  const files = fs.readdirSync(logPath)
+    .filter(name => AUDIT_FILE_PATTERN.test(name))
+    .map(name => path.join(logPath, name));
+  return { logPath, files };
+}
+
+function firstLine(file) {
+  return fs.readFileSync(file, 'utf8').split('\n')[0];
+}
+
+function verify(logPath, from, to) {
+  return new PCIAuditLogger({ logPath, maxFileSize: 0, maxFiles: 0, retentionDays: 0 }).verifyIntegrity(from, to);
+}
+
+test('an untouched rotated log verifies', async () => {
+  const { logPath, files } = await writeRotatedLog();
+  assert.ok(files.length > 1, 'log did not rotate');
+
+  const result = await verify(logPath);
+  assert.deepStrictEqual(result.errors, []);
+  assert.strictEqual(result.checkedEntries, 22);
+});
+
+test('an entry edited at the start of a rotated file is reported', async () => {
+  const { logPath, files } = await writeRotatedLog();
+  const rotated = files.find(file => JSON.parse(firstLine(file)).sequenceNumber > 1);
+  assert.ok(rotated, 'no rotated file found');
+
+  const content = fs.readFileSync(rotated, 'utf8');
+  const entry = JSON.parse(firstLine(rotated));
+  entry.result = 'failure';
+  fs.writeFileSync(rotated, content.replace(firstLine(rotated), JSON.stringify(entry)));
+
+  // Also when the range starts right at the boundary, anchored on the previous file
+  for (const from of [undefined, entry.sequenceNumber]) {
+    const result = await verify(logPath, from);
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.includes(`Entry tampered at sequence ${entry.sequenceNumber}`), result.errors.join('; '));
+  }
+});
+
+test('a deleted newest file is reported without an end sequence', async () => {
+  const { logPath, files } = await writeRotatedLog();
+  const newest = files.reduce((a, b) =>
+    JSON.parse(firstLine(a)).sequenceNumber > JSON.parse(firstLine(b)).sequenceNumber ? a : b);
+  const lastKept = JSON.parse(firstLine(newest)).sequenceNumber - 1;
+  fs.rmSync(newest);
+
+  const result = await verify(logPath);
+  assert.strictEqual(result.valid, false);
+  assert.ok(result.errors.includes(`Entries missing after sequence ${lastKept}`), result.errors.join('; '));
+});
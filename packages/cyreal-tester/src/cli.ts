@@ -127,6 +127,16 @@ program
     await runTest('health', options);
   });
 
+// A2A End-to-End Command
+program
+  .command('a2a')
+  .description('Test serial access through a running cyreal-a2a server')
+  .option('--url <url>', 'A2A endpoint', 'https://127.0.0.1:3500/a2a')
+  .option('--ca <file>', 'CA certificate of the A2A server')
+  .action(async (options) => {
+    await runTest('a2a', options);
+  });
+
 // Device discovery functionality temporarily removed
 // Will be reimplemented after manufacturer consultation
 
@@ -13,7 +13,8 @@ import {
   SerialTestOptions,
   ConfigTestOptions,
   BenchmarkTestOptions,
-  PlatformTestOptions
+  PlatformTestOptions,
+  A2ATestOptions
 } from '../types/test-types';
 
 import { PlatformTester } from './testers/platform-tester';
@@ -22,6 +23,7 @@ import { SerialTester } from './testers/serial-tester';
 import { ConfigTester } from './testers/config-tester';
 import { BenchmarkTester } from './testers/benchmark-tester';
 import { HealthTester } from './testers/health-tester';
+import { A2ATester } from './testers/a2a-tester';
 // EnhancedDeviceTester removed - fingerprinting functionality will be reimplemented after manufacturer consultation
 
 export class TestRunner extends EventEmitter {
@@ -64,6 +66,9 @@ export class TestRunner extends EventEmitter {
         case 'health':
           results.push(...await this.runHealthCheck(testOptions));
           break;
+        case 'a2a':
+          results.push(...await this.runA2ATests(testOptions));
+          break;
         // Discovery functionality removed - reimplemented as A2A agent discovery
         case 'all':
           results.push(...await this.runAllTests(testOptions));
@@ -245,6 +250,16 @@ export class TestRunner extends EventEmitter {
     return results;
   }
 
+  private async runA2ATests(options: A2ATestOptions): Promise<TestResult[]> {
+    const tester = new A2ATester(this.options);
+    const results: TestResult[] = [];
+
+    results.push(await this.runSingleTest('A2A Serial Port Listing', 
+      () => tester.testSerialList(options)));
+
+    return results;
+  }
+
   // runDeviceDiscovery method removed - fingerprinting functionality will be reimplemented after manufacturer consultation
 
   private async runAllTests(options: any): Promise<TestResult[]> {
@@ -0,0 +1,99 @@
+/**
+ * A2A Tester - End-to-end checks through a running A2A server
+ *
+ * Registers a throwaway agent and calls A2A methods, exercising the whole
+ * path from agent through cyreal-a2a to the serial ports owned by cyreald.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as winston from 'winston';
+import { A2AClient, A2AAgentCard, A2AEndpoint, Message } from '@cyreal/core';
+import { TestRunnerOptions, A2ATestOptions } from '../../types/test-types';
+
+export class A2ATester {
+  private options: TestRunnerOptions;
+
+  constructor(options: TestRunnerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * serial.list must answer with the serial devices cyreald sees
+   */
+  async testSerialList(options: A2ATestOptions): Promise<any> {
+    const response = await this.call(options, 'serial.list');
+    const ports = response.result?.ports;
+
+    if (!Array.isArray(ports)) {
+      throw new Error('serial.list returned no port list');
+    }
+    if (ports.length === 0) {
+      throw new Error('serial.list returned no ports - is a serial device attached to cyreald?');
+    }
+    if (ports.some(port => typeof port.path !== 'string' || port.path.length === 0)) {
+      throw new Error('serial.list returned ports without a device path');
+    }
+
+    return {
+      ports: ports.length,
+      managed: ports.filter(port => port.portId).map(port => port.portId),
+      paths: ports.map(port => port.path)
+    };
+  }
+
+  /**
+   * Register, send one request and disconnect again
+   */
+  private async call(options: A2ATestOptions, method: string, params: Record<string, any> = {}): Promise<Message> {
+    const url = new URL(options.url);
+    const client = new A2AClient(winston.createLogger({ silent: !this.options.verbose, transports: [new winston.transports.Console()] }), {
+      requestTimeout: Math.min(this.options.timeout, 30000),
+      retry: { attempts: 1, baseDelay: 500, maxDelay: 500 },
+      notifications: false,
+      allowInsecure: url.protocol === 'http:',
+      tls: options.ca ? { ca: fs.readFileSync(options.ca) } : undefined
+    });
+
+    const endpoint: A2AEndpoint = {
+      url: options.url,
+      protocol: 'https',
+      methods: ['POST'],
+      authentication: 'token'
+    };
+
+    const auth = await client.connect(endpoint, this.createAgentCard());
+    if (!auth.success) {
+      throw new Error(`Agent registration failed: ${auth.reason}`);
+    }
+
+    try {
+      const response = await client.sendRequest({
+        id: crypto.randomUUID(),
+        type: 'request',
+        method,
+        params
+      });
+
+      if (response.type === 'error') {
+        throw new Error(`${method} failed: ${response.error?.message} (${response.error?.code})`);
+      }
+
+      return response;
+    } finally {
+      await client.disconnect();
+    }
+  }
+
+  private createAgentCard(): A2AAgentCard {
+    return {
+      agentId: crypto.randomUUID(),
+      name: 'cyreal-test',
+      description: 'Cyreal end-to-end test agent',
+      version: '0.1.0',
+      capabilities: [],
+      endpoints: [],
+      lastSeen: new Date()
+    };
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 export type OutputFormat = 'text' | 'json' | 'yaml';
-export type TestSuite = 'platform' | 'network' | 'serial' | 'config' | 'benchmark' | 'all' | 'status' | 'health';
+export type TestSuite = 'platform' | 'network' | 'serial' | 'config' | 'benchmark' | 'all' | 'status' | 'health' | 'a2a';
 export type TestStatus = 'pass' | 'fail' | 'warn' | 'skip';
 
 export interface TestResult {
@@ -77,6 +77,11 @@ export interface ConfigTestOptions {
   template?: 'minimal' | 'full' | 'production';
 }
 
+export interface A2ATestOptions {
+  url: string;
+  ca?: string;
+}
+
 export interface BenchmarkTestOptions {
   duration: number;
   dataSize: number;
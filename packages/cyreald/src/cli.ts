@@ -11,7 +11,25 @@
 import { Command } from 'commander';
 import { Cyreald } from './index';
 import { SerialPort } from 'serialport';
-import { VERSION, COPYRIGHT_NOTICE, ECOSYSTEM_MESSAGE } from '@cyreal/core';
+import {
+  VERSION,
+  COPYRIGHT_NOTICE,
+  ECOSYSTEM_MESSAGE,
+  PCIAuditLogger,
+  PCIAuditEventType,
+  EncryptionManager,
+  VaultTransitKeyProvider,
+  ReencryptionService,
+  createKeyProviderFromEnv,
+  EncryptedFileUserStore,
+  UserAuthenticationManager,
+  Permission,
+  SIEMFormat,
+  SIEM_FORMATS,
+  getLogPath,
+  getDataPath,
+  BufferMode
+} from '@cyreal/core';
 import { ConfigManager, getConfigManager, CyrealConfig } from './config/config-manager';
 import { UniversalInstaller } from './services/universal-installer';
 import { PlatformManager } from './services/platform-manager';
@@ -19,6 +37,7 @@ import { SelfRepairService } from './self-repair';
 import * as winston from 'winston';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 
 const program = new Command();
 let daemon: Cyreald;
@@ -67,8 +86,35 @@ program
       console.log(`🔍 TCP Port: ${config.network.tcp.port} (Burroughs 3500 tribute to Project Cybersyn)`);
       console.log(`🔒 Security Level: ${config.security.level}`);
       
+      // Configuration changes go to the PCI audit trail
+      if (config.security.audit.enabled && config.security.audit.events.includes('config')) {
+        let encryption: EncryptionManager | undefined;
+        if (config.security.audit.encryptLogs) {
+          encryption = new EncryptionManager(createQuietLogger(), config.security.audit.keyStore!, createKeyProviderFromEnv());
+          await encryption.initialize();
+        }
+        
+        const auditLogger = new PCIAuditLogger({
+          logPath: getLogPath('pci-audit'),
+          retentionDays: 365,
+          maxFileSize: 100 * 1024 * 1024,
+          maxFiles: 1000,
+          encryptLogs: config.security.audit.encryptLogs
+        }, encryption);
+        await auditLogger.initialize();
+        daemon.setAuditLogger(auditLogger);
+      }
+      
       await daemon.start();
       
+      // Hot reload: edits to the config files are applied to the running daemon
+      configManager.onConfigChanged = async (newConfig) => {
+        await daemon.applyConfig(newConfig);
+      };
+      configManager.onConfigRejected = (error) => {
+        daemon.auditRejectedConfig(error);
+      };
+      
       if (options.port) {
         console.log(`📡 Creating port controller: ${options.id} -> ${options.port}`);
         
@@ -128,7 +174,8 @@ program
         // Keep process alive
         setInterval(() => {
           const status = daemon.getStatus();
-          console.log(`💓 Daemon heartbeat - Active ports: ${status.activePorts}`);
+          const missing = status.missingPorts.length > 0 ? `, waiting for: ${status.missingPorts.join(', ')}` : '';
+          console.log(`💓 Daemon heartbeat - Active ports: ${status.activePorts}${missing}`);
         }, 30000); // Every 30 seconds
         
       } else {
@@ -434,9 +481,9 @@ function startInteractiveMode(): void {
 async function startDataMonitoring(controller: any): Promise<void> {
   console.log(`📈 Starting data monitoring for ${controller.id}...`);
   
-  // Monitor received data
+  // Monitor received data; auto framing prints text devices line by line
   try {
-    for await (const data of controller.read()) {
+    for await (const data of controller.read({ bufferMode: BufferMode.AUTO })) {
       const text = data.toString('utf8').trim();
       if (text) {
         console.log(`📥 [${controller.id}] Received: ${text}`);
@@ -666,4 +713,294 @@ program
     }
   });
 
+const audit = program
+  .command('audit')
+  .description('PCI-DSS audit log tools');
+
+audit
+  .command('verify')
+  .description('Verify the audit log hash chain across rotated and archived files')
+  .option('--log-path <dir>', 'Audit log directory', getLogPath('pci-audit'))
+  .option('--from <sequence>', 'First sequence number to check', parseFloat)
+  .option('--to <sequence>', 'Last sequence number to check', parseFloat)
+  .option('--key-store <dir>', 'Encryption key store, for encrypted audit logs', getDataPath('keys'))
+  .action(async (options) => {
+    let encryption: EncryptionManager | undefined;
+    if (fs.existsSync(options.keyStore)) {
+      try {
+        encryption = new EncryptionManager(createQuietLogger(), options.keyStore, createKeyProviderFromEnv());
+        await encryption.initialize();
+      } catch (error: any) {
+        console.error('❌ Cannot open key store:', error.message);
+        process.exit(1);
+      }
+    }
+    
+    const auditLogger = new PCIAuditLogger({
+      logPath: options.logPath,
+      maxFileSize: 0,
+      maxFiles: 0,
+      retentionDays: 0
+    }, encryption);
+    const result = await auditLogger.verifyIntegrity(options.from, options.to);
+    
+    if (result.valid) {
+      console.log(`✅ Audit log intact: ${result.checkedEntries} entries verified`);
+      process.exit(0);
+    }
+    
+    console.error(`🚨 Audit log integrity violation (${result.checkedEntries} entries checked):`);
+    result.errors.forEach(error => console.error(`   • ${error}`));
+    process.exit(1);
+  });
+
+audit
+  .command('export')
+  .description('Export audit events for SIEM ingestion (requires the audit.export permission; run with the daemon stopped)')
+  .requiredOption('--from <date>', 'Start of range (ISO 8601)')
+  .requiredOption('--to <date>', 'End of range (ISO 8601)')
+  .requiredOption('-o, --output <file>', 'Output file')
+  .requiredOption('-u, --user <username>', 'User performing the export')
+  .option('--format <format>', `Output format (${SIEM_FORMATS.join('|')})`, 'syslog')
+  .option('--enterprise-number <pen>', 'IANA private enterprise number for syslog structured data', parseFloat)
+  .option('--password-stdin', 'Read the password from stdin instead of CYREAL_AUDIT_PASSWORD')
+  .option('--mfa-code <code>', 'MFA code, if MFA is enabled for the user')
+  .option('--log-path <dir>', 'Audit log directory', getLogPath('pci-audit'))
+  .option('--user-store <file>', 'Encrypted user store', getDataPath('users.enc'))
+  .option('--key-store <dir>', 'Encryption key store', getDataPath('keys'))
+  .option('--encrypt-logs', 'Encrypt the audit entries this export writes')
+  .action(async (options) => {
+    try {
+      const startTime = new Date(options.from);
+      const endTime = new Date(options.to);
+      if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+        throw new Error('--from and --to must be valid dates');
+      }
+      
+      const format = options.format as SIEMFormat;
+      if (!SIEM_FORMATS.includes(format)) {
+        throw new Error(`Unsupported format '${options.format}' (expected ${SIEM_FORMATS.join(', ')})`);
+      }
+      if (options.enterpriseNumber !== undefined && !(Number.isInteger(options.enterpriseNumber) && options.enterpriseNumber > 0)) {
+        throw new Error('--enterprise-number must be a positive integer');
+      }
+      
+      const password = options.passwordStdin ? await readStdinLine() : process.env.CYREAL_AUDIT_PASSWORD;
+      if (!password) {
+        throw new Error('No password given - use --password-stdin or set CYREAL_AUDIT_PASSWORD');
+      }
+      
+      if (!fs.existsSync(options.userStore)) {
+        throw new Error(`User store not found: ${options.userStore}`);
+      }
+      
+      const logger = createQuietLogger();
+      
+      const encryption = new EncryptionManager(logger, options.keyStore, createKeyProviderFromEnv());
+      await encryption.initialize();
+      
+      const auditLogger = new PCIAuditLogger({
+        logPath: options.logPath,
+        maxFileSize: 0,
+        maxFiles: 0,
+        retentionDays: 0,
+        encryptLogs: options.encryptLogs,
+        siemSyslog: { enterpriseNumber: options.enterpriseNumber }
+      }, encryption);
+      await auditLogger.initialize();
+      
+      const userAuth = new UserAuthenticationManager(
+        logger,
+        auditLogger,
+        new EncryptedFileUserStore(logger, encryption, options.userStore)
+      );
+      await userAuth.initialize();
+      
+      let auth = await userAuth.authenticateUser(options.user, password, '127.0.0.1', 'cyreal-cli');
+      if (auth.success && auth.mfaRequired) {
+        if (!options.mfaCode) {
+          throw new Error('MFA is enabled for this user - pass --mfa-code');
+        }
+        auth = await userAuth.verifyMFAChallenge(auth.mfaChallenge!, options.mfaCode, '127.0.0.1', 'cyreal-cli');
+      }
+      
+      if (!auth.success || !auth.userId) {
+        throw new Error(auth.error || 'Authentication failed');
+      }
+      
+      if (!await userAuth.checkPermission(auth.userId, Permission.AUDIT_EXPORT)) {
+        await auditLogger.logEvent({
+          userId: auth.userId,
+          eventType: PCIAuditEventType.AUTHORIZATION_FAILURE,
+          result: 'failure',
+          resource: 'audit-logs',
+          sourceIP: '127.0.0.1',
+          component: 'AuditQueryEngine',
+          action: 'export-denied',
+          details: { format },
+          riskScore: 70
+        });
+        throw new Error(`User '${options.user}' lacks the ${Permission.AUDIT_EXPORT} permission`);
+      }
+      
+      const output = fs.createWriteStream(options.output, { mode: 0o600 });
+      let exported = 0;
+      
+      for await (const line of auditLogger.exportLogs({ startTime, endTime }, format, auth.userId, '127.0.0.1')) {
+        if (!output.write(line + '\n')) {
+          await new Promise<void>(resolve => output.once('drain', () => resolve()));
+        }
+        exported++;
+      }
+      
+      await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+      
+      console.error(`✅ Exported ${exported} audit events to ${options.output} (${format})`);
+      process.exit(0);
+    } catch (error: any) {
+      console.error('❌ Audit export failed:', error.message);
+      process.exit(1);
+    }
+  });
+
+const kms = program
+  .command('kms')
+  .description('Key management tools');
+
+kms
+  .command('vault-dev')
+  .description('Set up Transit on a running `vault server -dev` for development (loopback only)')
+  .option('--address <url>', 'Vault dev server address', process.env.VAULT_ADDR || 'http://127.0.0.1:8200')
+  .option('--token <token>', 'Root token printed by `vault server -dev`', process.env.VAULT_TOKEN)
+  .option('--key <name>', 'Transit key to create', 'cyreal')
+  .action(async (options) => {
+    try {
+      const address = options.address.replace(/\/+$/, '');
+      if (!['localhost', '127.0.0.1', '[::1]'].includes(new URL(address).hostname)) {
+        throw new Error('vault-dev only sets up a loopback `vault server -dev`; configure production Vault with your Vault tooling');
+      }
+      if (!options.token) {
+        throw new Error('Pass --token or set VAULT_TOKEN to the root token printed by `vault server -dev`');
+      }
+      
+      // Dev servers start without the transit engine; 400 means it is already mounted
+      const mount = await fetch(`${address}/v1/sys/mounts/transit`, {
+        method: 'POST',
+        headers: { 'X-Vault-Token': options.token, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'transit' }),
+        signal: AbortSignal.timeout(10000)
+      });
+      if (!mount.ok && mount.status !== 400) {
+        throw new Error(`enabling transit failed: ${mount.status} ${mount.statusText}`);
+      }
+      
+      // Same code path the daemons use, including a wrap/unwrap round trip
+      const provider = new VaultTransitKeyProvider({ address, token: options.token, keyName: options.key, createKey: true });
+      await provider.initialize();
+      const probe = crypto.randomBytes(32);
+      if (!(await provider.unwrapKey(await provider.wrapKey(probe))).equals(probe)) {
+        throw new Error('transit round trip returned a different key');
+      }
+      
+      console.log('⚠️  Vault dev server - keys are lost when it stops, never use for production data');
+      console.log(`\nexport CYREAL_KEY_PROVIDER=vault`);
+      console.log(`export VAULT_ADDR=${address}`);
+      console.log(`export VAULT_TOKEN=${options.token}`);
+      console.log(`export CYREAL_VAULT_TRANSIT_KEY=${options.key}`);
+      process.exit(0);
+    } catch (error: any) {
+      const reason = error.cause?.code === 'ECONNREFUSED' ? `nothing listening on ${options.address} - start \`vault server -dev\` first` : error.message;
+      console.error('❌ Vault dev setup failed:', reason);
+      process.exit(1);
+    }
+  });
+
+kms
+  .command('reencrypt')
+  .description('Rewrap audit logs and user records to the active key and retire unreferenced keys (run with the gateway stopped)')
+  .option('--rotate', 'Rotate to a new key first')
+  .option('--log-path <dir...>', 'Audit log directories (cyreald and cyreal-a2a)', [getLogPath('pci-audit'), getLogPath('pci-audit-a2a')])
+  .option('--user-store <file>', 'Encrypted user store', getDataPath('users.enc'))
+  .option('--key-store <dir>', 'Encryption key store', getDataPath('keys'))
+  .option('--encrypt-logs', 'Encrypt the audit entries this command writes')
+  .action(async (options) => {
+    try {
+      const logger = createQuietLogger();
+      
+      const encryption = new EncryptionManager(logger, options.keyStore, createKeyProviderFromEnv());
+      await encryption.initialize();
+      
+      // Every directory holding entries under the shared key store must be rewrapped
+      const logPaths: string[] = options.logPath.filter((logPath: string, index: number) => index === 0 || fs.existsSync(logPath));
+      const auditLoggers: PCIAuditLogger[] = [];
+      for (const [index, logPath] of logPaths.entries()) {
+        const auditLogger = new PCIAuditLogger({
+          logPath,
+          maxFileSize: 0,
+          maxFiles: 0,
+          retentionDays: 0,
+          encryptLogs: options.encryptLogs,
+          storeName: index === 0 ? undefined : `audit-logs:${path.basename(logPath)}`
+        }, encryption);
+        await auditLogger.initialize();
+        auditLoggers.push(auditLogger);
+      }
+      
+      if (options.rotate) {
+        await encryption.rotateKeys();
+        console.error(`🔄 Rotated to key ${encryption.getActiveKeyRef()}`);
+      }
+      
+      // Progress is checkpointed here, so an interrupted run resumes
+      const service = new ReencryptionService(
+        logger,
+        encryption,
+        path.join(options.keyStore, 'reencryption-state.json'),
+        auditLoggers[0]
+      );
+      for (const auditLogger of auditLoggers) {
+        service.register(auditLogger);
+      }
+      if (fs.existsSync(options.userStore)) {
+        service.register(new EncryptedFileUserStore(logger, encryption, options.userStore));
+      }
+      
+      const result = await service.run();
+      
+      console.log(`✅ Re-encrypted ${result.reencrypted} items to key ${result.targetKey}`);
+      if (result.retired.length > 0) {
+        console.log(`   Retired: ${result.retired.join(', ')}`);
+      }
+      if (result.pending.length > 0) {
+        console.log(`⚠️  Still referenced, not retired: ${result.pending.join(', ')}`);
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error('❌ Re-encryption failed:', error.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Keep stdout quiet; warnings and errors go to stderr
+ */
+function createQuietLogger(): winston.Logger {
+  return winston.createLogger({
+    level: 'warn',
+    format: winston.format.simple(),
+    transports: [new winston.transports.Console({ stderrLevels: ['error', 'warn'] })]
+  });
+}
+
+/**
+ * Read a single line (e.g. a piped password) from stdin
+ */
+async function readStdinLine(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8').split(/\r?\n/)[0];
+}
+
 program.parse();
\ No newline at end of file
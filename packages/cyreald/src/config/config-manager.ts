@@ -7,7 +7,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as YAML from 'yaml';
 import Joi from 'joi';
-import { getConfigPath, getDataPath, getLogPath } from '@cyreal/core';
+import { getConfigPath, getDataPath, getLogPath, TokenPermissions, RFC1918Validator } from '@cyreal/core';
 
 export interface CyrealConfig {
   daemon: {
@@ -25,6 +25,8 @@ export interface CyrealConfig {
       maxConnections: number;
       keepAlive: boolean;
       keepAliveDelay: number;
+      framing: 'ndjson' | 'length-prefixed';
+      maxMessageSize: number;
     };
     udp: {
       enabled: boolean;
@@ -44,11 +46,26 @@ export interface CyrealConfig {
       key?: string;
       ca?: string;
       rejectUnauthorized: boolean;
+      requestClientCert: boolean;   // Mutual TLS on the TCP port
+      minVersion: 'TLSv1.2' | 'TLSv1.3';
+      ciphers?: string;             // OpenSSL cipher list for TLS 1.2
     };
   };
   security: {
     level: 'paranoid' | 'balanced' | 'permissive' | 'debug';
     authToken?: string;
+    tokens: Array<{
+      name: string;
+      token: string;
+      permissions: Omit<TokenPermissions, 'securityLevel'>[];
+    }>;
+    clientCertificates: Array<{
+      name: string;
+      subject?: string;             // Certificate subject CN
+      san?: string;                 // Subject alternative name, e.g. "DNS:hmi.plant.local"
+      permissions: Omit<TokenPermissions, 'securityLevel'>[];
+    }>;
+    maxAuthFailures: number;
     allowedIPs: string[];
     rateLimit: {
       enabled: boolean;
@@ -59,6 +76,8 @@ export interface CyrealConfig {
       enabled: boolean;
       logFile?: string;
       events: string[];
+      encryptLogs: boolean;       // Encrypt PCI audit entries and the SIEM spool
+      keyStore?: string;          // EncryptionManager key store; key provider from CYREAL_KEY_PROVIDER
     };
   };
   ports: {
@@ -68,18 +87,41 @@ export interface CyrealConfig {
       stopBits: 1 | 2;
       parity: 'none' | 'even' | 'odd' | 'mark' | 'space';
       flowControl: 'none' | 'hardware' | 'software';
-      bufferSize: number;
+      bufferSize: number;           // Also the longest line framed in line mode
       timeout: number;
+      bufferMode: 'line' | 'stream' | 'raw' | 'auto';  // How reads are split into frames
+      lineDelimiter: string;        // Line mode frame terminator
+      idleTimeout: number;          // ms of silence that ends a stream mode frame
     };
     specific: Record<string, Partial<CyrealConfig['ports']['default']> & {
       name?: string;
+      path?: string;                // Device path; defaults to the entry key unless usb is set
+      usb?: {                       // Stable USB identity, survives re-enumeration
+        vendorId: string;
+        productId: string;
+        serialNumber?: string;
+      };
+      type?: 'rs232' | 'rs485' | 'usb-serial' | 'ttl';
       rs485?: {
         enabled: boolean;
         rtsPin?: number;
         turnaroundDelay: number;
         terminationEnabled: boolean;
       };
+      bridge?: {
+        enabled: boolean;
+        port: number;
+        host: string;
+        rfc2217: boolean;
+        maxClients: number;
+      };
     }>;
+    retryInterval: number;          // How often missing configured devices are looked for again
+    hotplug: {
+      enabled: boolean;
+      mode: 'auto' | 'poll';        // auto: inotify on /dev under Linux, polling elsewhere
+      pollInterval: number;
+    };
   };
   governors: {
     operational: {
@@ -116,7 +158,48 @@ export interface CyrealConfig {
   };
 }
 
+/**
+ * A single changed setting between two configurations
+ */
+export interface ConfigChange {
+  path: string;       // Dotted path, e.g. "network.tcp.port"
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * List the settings that differ between two configurations.
+ * Arrays are compared as a whole; objects are walked key by key.
+ */
+export function diffConfig(oldConfig: any, newConfig: any, prefix = ''): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const keys = new Set([...Object.keys(oldConfig || {}), ...Object.keys(newConfig || {})]);
+
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const from = oldConfig?.[key];
+    const to = newConfig?.[key];
+    const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+    if (isObject(from) && isObject(to)) {
+      changes.push(...diffConfig(from, to, path));
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ path, from, to });
+    }
+  }
+
+  return changes;
+}
+
 // Joi validation schema
+const addressValidator = new RFC1918Validator();
+
+// IP address or CIDR block, optionally prefixed with "!" to deny
+const addressPatternSchema = Joi.string().custom((value: string, helpers) => {
+  const pattern = value.startsWith('!') ? value.slice(1) : value;
+  return addressValidator.isValidAddressPattern(pattern) ? value : helpers.error('any.invalid');
+}, 'IP address or CIDR block');
+
 const configSchema = Joi.object({
   daemon: Joi.object({
     logLevel: Joi.string().valid('error', 'warn', 'info', 'debug').default('info'),
@@ -133,7 +216,9 @@ const configSchema = Joi.object({
       host: Joi.string().default('0.0.0.0'),
       maxConnections: Joi.number().positive().default(10),
       keepAlive: Joi.boolean().default(true),
-      keepAliveDelay: Joi.number().positive().default(60000)
+      keepAliveDelay: Joi.number().positive().default(60000),
+      framing: Joi.string().valid('ndjson', 'length-prefixed').default('ndjson'),
+      maxMessageSize: Joi.number().positive().default(1048576)
     }).default(),
     
     udp: Joi.object({
@@ -152,17 +237,43 @@ const configSchema = Joi.object({
     
     ssl: Joi.object({
       enabled: Joi.boolean().default(false),
-      cert: Joi.string().optional(),
-      key: Joi.string().optional(),
-      ca: Joi.string().optional(),
-      rejectUnauthorized: Joi.boolean().default(true)
+      cert: Joi.string().when('enabled', { is: true, then: Joi.required() }),
+      key: Joi.string().when('enabled', { is: true, then: Joi.required() }),
+      // Client certificates must chain to our own CA, not any public one
+      ca: Joi.string().when('requestClientCert', { is: true, then: Joi.required() }),
+      rejectUnauthorized: Joi.boolean().default(true),
+      requestClientCert: Joi.boolean().default(false),
+      minVersion: Joi.string().valid('TLSv1.2', 'TLSv1.3').default('TLSv1.2'),
+      ciphers: Joi.string().optional()
     }).default()
   }).default(),
   
   security: Joi.object({
     level: Joi.string().valid('paranoid', 'balanced', 'permissive', 'debug').default('balanced'),
     authToken: Joi.string().optional(),
-    allowedIPs: Joi.array().items(Joi.string()).default([]),
+    tokens: Joi.array().items(Joi.object({
+      name: Joi.string().required(),
+      token: Joi.string().min(16).required(),
+      permissions: Joi.array().items(Joi.object({
+        portId: Joi.string().required(), // '*' for every port
+        read: Joi.boolean().default(true),
+        write: Joi.boolean().default(false),
+        configure: Joi.boolean().default(false)
+      })).min(1).required()
+    })).default([]),
+    clientCertificates: Joi.array().items(Joi.object({
+      name: Joi.string().required(),
+      subject: Joi.string().optional(),
+      san: Joi.string().optional(),
+      permissions: Joi.array().items(Joi.object({
+        portId: Joi.string().required(),
+        read: Joi.boolean().default(true),
+        write: Joi.boolean().default(false),
+        configure: Joi.boolean().default(false)
+      })).min(1).required()
+    }).or('subject', 'san')).default([]),
+    maxAuthFailures: Joi.number().positive().default(3),
+    allowedIPs: Joi.array().items(addressPatternSchema).default([]),
     rateLimit: Joi.object({
       enabled: Joi.boolean().default(true),
       requestsPerMinute: Joi.number().positive().default(60),
@@ -171,7 +282,9 @@ const configSchema = Joi.object({
     audit: Joi.object({
       enabled: Joi.boolean().default(true),
       logFile: Joi.string().optional(),
-      events: Joi.array().items(Joi.string()).default(['auth', 'error', 'config'])
+      events: Joi.array().items(Joi.string()).default(['auth', 'error', 'config']),
+      encryptLogs: Joi.boolean().default(true),
+      keyStore: Joi.string().optional()
     }).default()
   }).default(),
   
@@ -183,10 +296,20 @@ const configSchema = Joi.object({
       parity: Joi.string().valid('none', 'even', 'odd', 'mark', 'space').default('none'),
       flowControl: Joi.string().valid('none', 'hardware', 'software').default('none'),
       bufferSize: Joi.number().positive().default(2048),
-      timeout: Joi.number().positive().default(5000)
+      timeout: Joi.number().positive().default(5000),
+      bufferMode: Joi.string().valid('line', 'stream', 'raw', 'auto').default('raw'),
+      lineDelimiter: Joi.string().default('\n'),
+      idleTimeout: Joi.number().positive().default(50)
     }).default(),
     specific: Joi.object().pattern(Joi.string(), Joi.object({
       name: Joi.string().optional(),
+      path: Joi.string().optional(),
+      usb: Joi.object({
+        vendorId: Joi.string().hex().required(),
+        productId: Joi.string().hex().required(),
+        serialNumber: Joi.string().optional()
+      }).optional(),
+      type: Joi.string().valid('rs232', 'rs485', 'usb-serial', 'ttl').optional(),
       baudRate: Joi.number().positive().optional(),
       dataBits: Joi.number().valid(5, 6, 7, 8).optional(),
       stopBits: Joi.number().valid(1, 2).optional(),
@@ -194,13 +317,29 @@ const configSchema = Joi.object({
       flowControl: Joi.string().valid('none', 'hardware', 'software').optional(),
       bufferSize: Joi.number().positive().optional(),
       timeout: Joi.number().positive().optional(),
+      bufferMode: Joi.string().valid('line', 'stream', 'raw', 'auto').optional(),
+      lineDelimiter: Joi.string().optional(),
+      idleTimeout: Joi.number().positive().optional(),
       rs485: Joi.object({
         enabled: Joi.boolean().default(false),
         rtsPin: Joi.number().optional(),
         turnaroundDelay: Joi.number().positive().default(1),
         terminationEnabled: Joi.boolean().default(false)
+      }).optional(),
+      bridge: Joi.object({
+        enabled: Joi.boolean().default(false),
+        port: Joi.number().port().required(),
+        host: Joi.string().default('0.0.0.0'),
+        rfc2217: Joi.boolean().default(false),
+        maxClients: Joi.number().positive().default(1)
       }).optional()
-    })).default({})
+    })).default({}),
+    retryInterval: Joi.number().positive().default(10000),
+    hotplug: Joi.object({
+      enabled: Joi.boolean().default(true),
+      mode: Joi.string().valid('auto', 'poll').default('auto'),
+      pollInterval: Joi.number().positive().default(2000)
+    }).default()
   }).default(),
   
   governors: Joi.object({
@@ -247,6 +386,8 @@ export class ConfigManager {
   private config: CyrealConfig;
   private configPaths: string[];
   private watchers: fs.FSWatcher[] = [];
+  private overrides: Partial<CyrealConfig> = {};
+  private reloadTimer?: NodeJS.Timeout;
 
   constructor(userConfigPath?: string) {
     this.configPaths = this.getConfigPaths(userConfigPath);
@@ -283,7 +424,11 @@ export class ConfigManager {
     return paths;
   }
 
-  private loadConfig(): CyrealConfig {
+  /**
+   * Merge defaults, config files and CLI overrides. A strict load (used for
+   * hot reload) fails on an unreadable file instead of skipping it.
+   */
+  private loadConfig(strict = false): CyrealConfig {
     let mergedConfig: any = {};
     
     // Start with defaults (schema provides these)
@@ -294,16 +439,22 @@ export class ConfigManager {
     mergedConfig = defaults;
     
     // Load and merge configs in reverse priority order (system -> user -> specified)
-    for (const configPath of this.configPaths.reverse()) {
+    for (const configPath of [...this.configPaths].reverse()) {
       try {
         const yamlContent = fs.readFileSync(configPath, 'utf8');
         const parsed = YAML.parse(yamlContent);
         mergedConfig = this.deepMerge(mergedConfig, parsed);
-      } catch (error) {
+      } catch (error: any) {
+        if (strict) {
+          throw new Error(`Failed to load config from ${configPath}: ${error.message}`);
+        }
         console.warn(`Failed to load config from ${configPath}:`, error);
       }
     }
     
+    // CLI overrides keep the highest priority across reloads
+    mergedConfig = this.deepMerge(mergedConfig, this.overrides);
+    
     // Validate final merged config
     const { error, value } = configSchema.validate(mergedConfig);
     if (error) {
@@ -320,6 +471,9 @@ export class ConfigManager {
     if (!value.security.audit.logFile) {
       value.security.audit.logFile = getLogPath('audit.log');
     }
+    if (!value.security.audit.keyStore) {
+      value.security.audit.keyStore = getDataPath('keys');
+    }
     
     return value;
   }
@@ -343,7 +497,14 @@ export class ConfigManager {
       if (fs.existsSync(configPath)) {
         const watcher = fs.watch(configPath, (eventType) => {
           if (eventType === 'change') {
-            setTimeout(() => this.reloadConfig(), 100); // Debounce
+            // Debounce: editors often write a file in several steps
+            if (this.reloadTimer) {
+              clearTimeout(this.reloadTimer);
+            }
+            this.reloadTimer = setTimeout(() => {
+              this.reloadTimer = undefined;
+              this.reload().catch(() => undefined);
+            }, 100);
           }
         });
         this.watchers.push(watcher);
@@ -351,19 +512,40 @@ export class ConfigManager {
     }
   }
 
-  private reloadConfig(): void {
+  /**
+   * Re-read the config files and hand the result to onConfigChanged.
+   * An invalid file, or a change the callback fails to apply, leaves the
+   * previous configuration in place. Resolves with the applied changes.
+   */
+  public async reload(): Promise<ConfigChange[]> {
+    let newConfig: CyrealConfig;
+    
+    try {
+      newConfig = this.loadConfig(true);
+    } catch (error: any) {
+      console.error('Rejected config reload, keeping previous configuration:', error.message);
+      this.onConfigRejected?.(error);
+      throw error;
+    }
+    
+    const oldConfig = this.config;
+    const changes = diffConfig(oldConfig, newConfig);
+    if (changes.length === 0) {
+      return changes;
+    }
+    
+    this.config = newConfig;
+    
     try {
-      const newConfig = this.loadConfig();
-      const oldConfig = this.config;
-      this.config = newConfig;
-      
-      console.log('Configuration reloaded successfully');
-      
-      // Emit config change event (could be EventEmitter if needed)
-      this.onConfigChanged?.(newConfig, oldConfig);
-    } catch (error) {
-      console.error('Failed to reload config:', error);
+      await this.onConfigChanged?.(newConfig, oldConfig);
+    } catch (error: any) {
+      this.config = oldConfig;
+      console.error('Failed to apply reloaded config, keeping previous configuration:', error.message);
+      throw error;
     }
+    
+    console.log('Configuration reloaded successfully');
+    return changes;
   }
 
   public get(): CyrealConfig {
@@ -378,6 +560,10 @@ export class ConfigManager {
       throw new Error(`Config override validation failed: ${error.message}`);
     }
     
+    // Remembered so a hot reload does not drop CLI arguments
+    this.overrides = this.deepMerge(this.overrides, overrides);
+    this.config = value;
+    
     return value;
   }
 
@@ -412,7 +598,9 @@ export class ConfigManager {
               host: '0.0.0.0',
               maxConnections: 10,
               keepAlive: true,
-              keepAliveDelay: 60000
+              keepAliveDelay: 60000,
+              framing: 'ndjson' as const,
+              maxMessageSize: 1048576
             },
             udp: {
               enabled: false,
@@ -431,7 +619,9 @@ export class ConfigManager {
               cert: '',
               key: '',
               ca: '',
-              rejectUnauthorized: true
+              rejectUnauthorized: true,
+              requestClientCert: false,
+              minVersion: 'TLSv1.2' as const
             }
           },
           ports: {
@@ -442,9 +632,18 @@ export class ConfigManager {
               parity: 'none' as const,
               flowControl: 'none' as const,
               bufferSize: 2048,
-              timeout: 5000
+              timeout: 5000,
+              bufferMode: 'raw' as const,
+              lineDelimiter: '\n',
+              idleTimeout: 50
             },
-            specific: {}
+            specific: {},
+            retryInterval: 10000,
+            hotplug: {
+              enabled: true,
+              mode: 'auto' as const,
+              pollInterval: 2000
+            }
           }
         };
         break;
@@ -463,7 +662,9 @@ export class ConfigManager {
               host: '127.0.0.1', // Localhost only for security
               maxConnections: 50,
               keepAlive: true,
-              keepAliveDelay: 60000
+              keepAliveDelay: 60000,
+              framing: 'ndjson' as const,
+              maxMessageSize: 1048576
             },
             udp: {
               enabled: false,
@@ -482,11 +683,16 @@ export class ConfigManager {
               cert: '',
               key: '',
               ca: '',
-              rejectUnauthorized: true
+              rejectUnauthorized: true,
+              requestClientCert: false,
+              minVersion: 'TLSv1.2' as const
             }
           },
           security: {
             level: 'balanced' as const,
+            tokens: [],
+            clientCertificates: [],
+            maxAuthFailures: 3,
             allowedIPs: ['127.0.0.1', '192.168.1.0/24'],
             rateLimit: {
               enabled: true,
@@ -496,7 +702,8 @@ export class ConfigManager {
             audit: {
               enabled: true,
               logFile: '/var/log/cyreal/audit.log',
-              events: ['auth', 'command', 'error', 'security']
+              events: ['auth', 'command', 'error', 'security'],
+              encryptLogs: true
             }
           }
         };
@@ -522,14 +729,21 @@ export class ConfigManager {
   }
 
   public destroy(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
     for (const watcher of this.watchers) {
       watcher.close();
     }
     this.watchers = [];
   }
 
-  // Optional callback for config changes
-  public onConfigChanged?: (newConfig: CyrealConfig, oldConfig: CyrealConfig) => void;
+  // Optional callback for config changes; a rejected promise rolls the reload back
+  public onConfigChanged?: (newConfig: CyrealConfig, oldConfig: CyrealConfig) => void | Promise<void>;
+
+  // Optional callback for reloads rejected because the files are invalid
+  public onConfigRejected?: (error: Error) => void;
 }
 
 // Default instance
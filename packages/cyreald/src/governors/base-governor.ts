@@ -274,6 +274,16 @@ export abstract class BaseGovernor extends EventEmitter implements IEventEmittin
     };
   }
   
+  /**
+   * Action and learning counters for governance reporting
+   */
+  getLearningMetrics() {
+    return {
+      ...this.metrics,
+      learningDataSize: this.learningData.size
+    };
+  }
+  
   /**
    * Get base capabilities common to all governors
    */
@@ -19,21 +19,27 @@ import {
   PortCapabilities,
   // DeviceFingerprint, // Removed - pending manufacturer consultation
   PortMetrics,
+  PortFraming,
   IGpioController
 } from '@cyreal/core';
 import { BaseGovernor } from './base-governor';
+import { SerialFramer, SerialFramingOptions, DEFAULT_FRAMING } from '../serial/serial-framer';
+
+const FRAMING_KEYS: (keyof PortFraming)[] = ['bufferMode', 'lineDelimiter', 'maxLineLength', 'idleTimeout'];
 
 export class SerialPortController extends BaseGovernor implements ICyrealPort {
   private serialPort?: SerialPort;
   private rs485Controller?: IGpioController;
-  private buffer: Buffer = Buffer.alloc(0);
+  private portOptions?: PortOptions;
   private portMetrics: PortMetrics;
   // private deviceFingerprint?: DeviceFingerprint; // Removed - pending manufacturer consultation
   private lastBaudRateTest: Date = new Date();
+  private devicePath: string;
+  private detached: boolean = false;
   
   constructor(
     public readonly id: string,
-    public readonly physicalPath: string,
+    physicalPath: string,
     public readonly type: 'rs232' | 'rs485' | 'usb-serial' | 'ttl',
     public readonly capabilities: PortCapabilities
   ) {
@@ -43,6 +49,7 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
       GovernorDomain.SERIAL_PORT
     );
     
+    this.devicePath = physicalPath;
     this.portMetrics = {
       bytesReceived: 0,
       bytesTransmitted: 0,
@@ -59,7 +66,23 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
     });
   }
   
+  get physicalPath(): string {
+    return this.devicePath;
+  }
+  
+  /**
+   * Whether the device was unplugged while the port was open
+   */
+  get isDetached(): boolean {
+    return this.detached;
+  }
+  
   get status(): PortStatus {
+    // Unplugged while in use: red until the device returns
+    if (this.detached) {
+      return PortStatus.ERROR;
+    }
+    
     if (!this.serialPort || !this.serialPort.isOpen) {
       return PortStatus.STANDBY;
     }
@@ -104,6 +127,9 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
         dataBits: platformOptions.dataBits || 8,
         stopBits: platformOptions.stopBits || 1,
         parity: platformOptions.parity || 'none',
+        rtscts: platformOptions.flowControl === 'hardware',
+        xon: platformOptions.flowControl === 'software',
+        xoff: platformOptions.flowControl === 'software',
         autoOpen: false,
         ...platformOptions
       });
@@ -124,6 +150,8 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
       });
       
       this.setupEventHandlers();
+      this.portOptions = { ...options };
+      this.detached = false;
       // this.detectDevice(); // Removed - pending manufacturer consultation
       
       this.logger.info('Serial port opened successfully', {
@@ -143,6 +171,8 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
    * Close the serial port
    */
   async close(): Promise<void> {
+    this.detached = false;
+    
     if (this.rs485Controller) {
       try {
         await this.rs485Controller.unexport();
@@ -170,11 +200,15 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
     }
     
     try {
+      const rs485 = this.portOptions?.rs485;
+      
       // RS-485 transmit enable
       if (this.rs485Controller) {
         await this.rs485Controller.write(1);
-        // Platform-specific delay
-        if (this.platform.info.name === 'BeagleBone AI-64') {
+        // Configured delay, otherwise a platform-specific one
+        if (rs485?.delayRtsBeforeSend !== undefined) {
+          await this.sleep(rs485.delayRtsBeforeSend);
+        } else if (this.platform.info.name === 'BeagleBone AI-64') {
           // BeagleBone PRU can provide precise timing
           await this.sleep(0.1); // 100μs
         } else {
@@ -198,9 +232,9 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
       // Wait for transmission to complete
       await this.serialPort.drain();
       
-      // RS-485 receive enable
+      // RS-485 receive enable once the line has turned around
       if (this.rs485Controller) {
-        await this.sleep(1); // Brief delay
+        await this.sleep(rs485?.delayRtsAfterSend ?? 1);
         await this.rs485Controller.write(0);
       } else if (this.platform.info.name === 'Windows' && this.type === 'rs485') {
         // Windows uses RTS/DTR for RS-485 control
@@ -224,45 +258,95 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
   }
   
   /**
-   * Read data from the port (async iterator)
+   * Read data from the port (async iterator), one frame per item
+   * 
+   * Frames follow the port's bufferMode unless the reader overrides it.
+   * Readers follow the controller rather than the underlying SerialPort,
+   * so they survive a reopen triggered by updateOptions().
    */
-  async *read(): AsyncIterator<Buffer> {
+  async *read(framing: PortFraming = {}): AsyncIterator<Buffer> {
     if (!this.serialPort || !this.serialPort.isOpen) {
       throw new Error('Port not open');
     }
     
+    let framer = new SerialFramer(this.framingOptions(framing));
     const dataQueue: Buffer[] = [];
-    let resolveNext: ((value: Buffer) => void) | null = null;
+    let closed = false;
+    let idleTimer: NodeJS.Timeout | undefined;
+    let resolveNext: (() => void) | null = null;
     
-    const dataHandler = (data: Buffer) => {
-      this.portMetrics.bytesReceived += data.length;
-      this.portMetrics.lastActivity = new Date();
-      
+    const wake = () => {
       if (resolveNext) {
-        resolveNext(data);
+        resolveNext();
         resolveNext = null;
-      } else {
-        dataQueue.push(data);
       }
     };
     
-    this.serialPort.on('data', dataHandler);
+    const dataHandler = (event: { data: Buffer }) => {
+      dataQueue.push(...framer.push(event.data));
+      
+      // Stream frames end when the line goes quiet
+      clearTimeout(idleTimer);
+      if (framer.waitingForIdle) {
+        idleTimer = setTimeout(() => {
+          dataQueue.push(...framer.flush());
+          wake();
+        }, framer.idleTimeout);
+      }
+      
+      wake();
+    };
+    
+    // Settings changed by updateOptions() apply from the next frame
+    const framingHandler = () => {
+      clearTimeout(idleTimer);
+      dataQueue.push(...framer.flush());
+      framer = new SerialFramer(this.framingOptions(framing));
+      wake();
+    };
+    
+    // Release a pending reader when the port closes underneath it
+    const closeHandler = () => {
+      clearTimeout(idleTimer);
+      dataQueue.push(...framer.flush());
+      closed = true;
+      wake();
+    };
+    
+    this.on('data:received', dataHandler);
+    this.on('framing:changed', framingHandler);
+    this.on('port:closed', closeHandler);
     
     try {
-      while (this.serialPort.isOpen) {
+      while (dataQueue.length > 0 || !closed) {
         if (dataQueue.length > 0) {
           yield dataQueue.shift()!;
         } else {
-          yield await new Promise<Buffer>((resolve) => {
+          await new Promise<void>((resolve) => {
             resolveNext = resolve;
           });
         }
       }
     } finally {
-      this.serialPort.off('data', dataHandler);
+      clearTimeout(idleTimer);
+      this.off('data:received', dataHandler);
+      this.off('framing:changed', framingHandler);
+      this.off('port:closed', closeHandler);
     }
   }
   
+  /**
+   * Framing for a reader: its overrides, then the port options, then defaults
+   */
+  private framingOptions(framing: PortFraming): SerialFramingOptions {
+    return {
+      mode: framing.bufferMode ?? this.portOptions?.bufferMode ?? DEFAULT_FRAMING.mode,
+      delimiter: framing.lineDelimiter ?? this.portOptions?.lineDelimiter ?? DEFAULT_FRAMING.delimiter,
+      maxLineLength: framing.maxLineLength ?? this.portOptions?.maxLineLength ?? DEFAULT_FRAMING.maxLineLength,
+      idleTimeout: framing.idleTimeout ?? this.portOptions?.idleTimeout ?? DEFAULT_FRAMING.idleTimeout
+    };
+  }
+  
   getMetrics(): PortMetrics {
     return {
       ...this.portMetrics,
@@ -270,19 +354,75 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
     };
   }
   
+  /**
+   * Get the options the port was last opened or updated with
+   */
+  getOptions(): PortOptions | undefined {
+    return this.portOptions ? { ...this.portOptions } : undefined;
+  }
+  
   async updateOptions(options: Partial<PortOptions>): Promise<void> {
-    if (!this.serialPort || !this.serialPort.isOpen) {
+    if (!this.serialPort || !this.serialPort.isOpen || !this.portOptions) {
       throw new Error('Port not open');
     }
     
-    // Update baud rate if specified
-    if (options.baudRate) {
+    // Only the baud rate can be changed on an open port; framing, flow
+    // control and RS-485 changes need the port to be reopened
+    const reopenKeys: (keyof PortOptions)[] = ['dataBits', 'stopBits', 'parity', 'flowControl', 'rs485'];
+    const reopenRequired = reopenKeys.some(key =>
+      options[key] !== undefined && JSON.stringify(options[key]) !== JSON.stringify(this.portOptions![key])
+    );
+    
+    // Framing is applied by the readers and never needs a reopen
+    if (options.lineDelimiter === '') {
+      throw new Error('Line delimiter must not be empty');
+    }
+    const framingChanged = FRAMING_KEYS.some(key =>
+      options[key] !== undefined && options[key] !== this.portOptions![key]
+    );
+    
+    if (reopenRequired) {
+      await this.reopen({ ...this.portOptions, ...options });
+    } else if (options.baudRate) {
+      // Update baud rate if specified
       await this.serialPort.update({ baudRate: options.baudRate });
+      this.portOptions.baudRate = options.baudRate;
       this.logger.info('Baud rate updated', { 
         newRate: options.baudRate,
         platform: this.platform.info.name
       });
     }
+    
+    if (framingChanged) {
+      const framing: PortFraming = {};
+      for (const key of FRAMING_KEYS) {
+        if (options[key] !== undefined) {
+          Object.assign(framing, { [key]: options[key] });
+        }
+      }
+      Object.assign(this.portOptions, framing);
+      this.logger.info('Read framing updated', { bufferMode: this.portOptions!.bufferMode });
+      this.emit('framing:changed', { id: this.id });
+    }
+  }
+  
+  /**
+   * Set modem control lines (DTR/RTS) and the break condition
+   */
+  async setSignals(signals: { dtr?: boolean; rts?: boolean; brk?: boolean }): Promise<void> {
+    if (!this.serialPort || !this.serialPort.isOpen) {
+      throw new Error('Port not open');
+    }
+    
+    await new Promise<void>((resolve, reject) => {
+      this.serialPort!.set(signals, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
   }
   
   async flush(): Promise<void> {
@@ -451,13 +591,25 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
   private setupEventHandlers(): void {
     if (!this.serialPort) return;
     
+    this.serialPort.on('data', (data: Buffer) => {
+      this.portMetrics.bytesReceived += data.length;
+      this.portMetrics.lastActivity = new Date();
+      this.emit('data:received', { id: this.id, data, bytes: data.length });
+    });
+    
     this.serialPort.on('error', (error) => {
       this.portMetrics.errorsCount++;
       this.logger.error('Serial port error:', error);
       this.emit('port:error', { id: this.id, error });
     });
     
-    this.serialPort.on('close', () => {
+    this.serialPort.on('close', (error?: Error & { disconnected?: boolean }) => {
+      // The driver reports an unplugged device as a disconnect on close
+      if (error?.disconnected) {
+        this.markDetached(error.message);
+        return;
+      }
+      
       this.logger.info('Serial port closed');
       this.emit('port:closed', { id: this.id });
     });
@@ -490,6 +642,96 @@ export class SerialPortController extends BaseGovernor implements ICyrealPort {
   //   }
   // }
   
+  /**
+   * Mark the device as unplugged. The port is released but keeps its options
+   * and readers, so reattachDevice() can resume where it left off.
+   */
+  async deviceDetached(reason: string = 'Device removed'): Promise<void> {
+    if (this.detached || !this.serialPort?.isOpen) {
+      return;
+    }
+    
+    await this.markDetached(reason);
+  }
+  
+  private async markDetached(reason: string): Promise<void> {
+    if (this.detached) {
+      return;
+    }
+    
+    this.detached = true;
+    this.portMetrics.errorsCount++;
+    this.logger.warn('Serial device detached', { path: this.devicePath, reason });
+    this.emit('device:detached', { id: this.id, path: this.devicePath, reason });
+    
+    await this.releasePort();
+  }
+  
+  /**
+   * Reopen a detached port with its previous options, optionally at the
+   * path the device came back on
+   */
+  async reattachDevice(physicalPath?: string): Promise<void> {
+    if (!this.detached || !this.portOptions) {
+      return;
+    }
+    
+    if (physicalPath) {
+      this.devicePath = physicalPath;
+    }
+    
+    await this.open(this.portOptions);
+    
+    this.logger.info('Serial device reattached', { path: this.devicePath });
+    this.emit('device:attached', { id: this.id, path: this.devicePath });
+  }
+  
+  /**
+   * Close the underlying port without reporting it as closed
+   */
+  private async releasePort(): Promise<void> {
+    const previousPort = this.serialPort!;
+    
+    // Detach first so the close is not reported as the port going away
+    previousPort.removeAllListeners();
+    // A close on a vanished device can still report an error; nobody is listening for it
+    previousPort.on('error', () => undefined);
+    
+    if (this.rs485Controller) {
+      try {
+        await this.rs485Controller.unexport();
+      } catch (error) {
+        this.logger.warn('GPIO unexport failed:', error);
+      }
+      this.rs485Controller = undefined;
+    }
+    
+    if (previousPort.isOpen) {
+      await new Promise<void>((resolve) => {
+        previousPort.close(() => resolve());
+      });
+    }
+  }
+  
+  /**
+   * Close and reopen the port with new options without ending readers
+   */
+  private async reopen(options: PortOptions): Promise<void> {
+    await this.releasePort();
+    
+    this.logger.info('Reopening serial port with new options', {
+      path: this.physicalPath,
+      options
+    });
+    
+    try {
+      await this.open(options);
+    } catch (error) {
+      this.emit('port:closed', { id: this.id });
+      throw error;
+    }
+  }
+  
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -4,19 +4,86 @@
  */
 
 import { SerialPortController } from './governors/serial-port-controller';
-import { PlatformAdapter } from './serial/platform-adapter';
+import { PlatformAdapter, SystemPortInfo } from './serial/platform-adapter';
 import { NetworkServer } from './network/network-server';
-import { PortCapabilities, getLogPath } from '@cyreal/core';
-import { CyrealConfig } from './config/config-manager';
+import { SerialBridge } from './network/serial-bridge';
+import { DeviceWatcher, DeviceEvent } from './serial/device-watcher';
+import { ClientAuthenticator, hasPortPermission, PortOperation } from './network/client-auth';
+import {
+  PortCapabilities,
+  PortOptions,
+  PortStatus,
+  BufferMode,
+  getLogPath,
+  IA2APortProvider,
+  IA2AGovernanceProvider,
+  IA2ANotificationSource,
+  A2ASerialPortInfo,
+  A2AGovernorStatus,
+  A2ANotification,
+  PCIAuditLogger,
+  PCIAuditEventType
+} from '@cyreal/core';
+import { CyrealConfig, ConfigChange, diffConfig } from './config/config-manager';
 import * as winston from 'winston';
 import * as fs from 'fs';
 import * as path from 'path';
 
-export class Cyreald {
+/**
+ * Per-client state for a port_data stream
+ */
+interface PortSubscription {
+  sequence: number;
+  encoding: BufferEncoding;
+  subscribedAt: Date;
+}
+
+const STREAM_ENCODINGS: BufferEncoding[] = ['base64', 'hex', 'utf8'];
+
+/**
+ * Limits for one-shot read_port commands
+ */
+const DEFAULT_READ_BYTES = 1024;
+const MAX_READ_BYTES = 65536;
+const DEFAULT_READ_TIMEOUT = 1000;
+const MAX_READ_TIMEOUT = 30000;
+
+/**
+ * Settings that are only read at startup; changing them needs a restart
+ */
+const RESTART_REQUIRED_SETTINGS = ['daemon.logFile', 'daemon.pidFile', 'daemon.workingDirectory'];
+
+/**
+ * 5-color industrial indicator for each port status
+ */
+const STATUS_COLORS: Record<PortStatus, string> = {
+  [PortStatus.OPERATIONAL]: 'green',
+  [PortStatus.WARNING]: 'yellow',
+  [PortStatus.ERROR]: 'red',
+  [PortStatus.STANDBY]: 'blue',
+  [PortStatus.MAINTENANCE]: 'white'
+};
+
+export class Cyreald implements IA2APortProvider, IA2AGovernanceProvider, IA2ANotificationSource {
   private logger: winston.Logger;
   private platform: PlatformAdapter;
   private networkServer?: NetworkServer;
   private portControllers: Map<string, SerialPortController> = new Map();
+  private portSubscriptions: Map<string, Map<string, PortSubscription>> = new Map();
+  private activePortStreams: Set<string> = new Set();
+  private serialBridges: Map<string, SerialBridge> = new Map();
+  private portReadBuffers: Map<string, Buffer> = new Map();
+  private portStatuses: Map<string, PortStatus> = new Map();
+  private statusTimer?: NodeJS.Timeout;
+  private provisionedPorts: Set<string> = new Set();
+  private missingPorts: Set<string> = new Set();
+  private provisionTimer?: NodeJS.Timeout;
+  private provisioning?: Promise<void>;
+  private deviceWatcher?: DeviceWatcher;
+  private detachedIdentities: Map<string, SystemPortInfo | undefined> = new Map();
+  private notificationListeners: Array<(notification: A2ANotification) => void> = [];
+  private notificationSubscribers: Set<string> = new Set();
+  private auditLogger?: PCIAuditLogger;
   private config: CyrealConfig;
   private isStarted: boolean = false;
   
@@ -30,9 +97,9 @@ export class Cyreald {
       // Default config for backwards compatibility
       this.config = {
         daemon: { logLevel: 'info', workingDirectory: '.', hotReload: true },
-        network: { tcp: { enabled: true, port: 3500, host: '0.0.0.0', maxConnections: 10, keepAlive: true, keepAliveDelay: 60000 }, udp: { enabled: false, port: 3501, host: '0.0.0.0', broadcast: false }, websocket: { enabled: false, port: 3502, path: '/ws', compression: true }, ssl: { enabled: false, rejectUnauthorized: true } },
-        security: { level: 'balanced', allowedIPs: [], rateLimit: { enabled: true, requestsPerMinute: 60, blacklistDuration: 3600000 }, audit: { enabled: true, events: ['auth', 'error', 'config'] } },
-        ports: { default: { baudRate: 9600, dataBits: 8, stopBits: 1, parity: 'none', flowControl: 'none', bufferSize: 2048, timeout: 5000 }, specific: {} },
+        network: { tcp: { enabled: true, port: 3500, host: '0.0.0.0', maxConnections: 10, keepAlive: true, keepAliveDelay: 60000, framing: 'ndjson', maxMessageSize: 1048576 }, udp: { enabled: false, port: 3501, host: '0.0.0.0', broadcast: false }, websocket: { enabled: false, port: 3502, path: '/ws', compression: true }, ssl: { enabled: false, rejectUnauthorized: true, requestClientCert: false, minVersion: 'TLSv1.2' } },
+        security: { level: 'balanced', tokens: [], clientCertificates: [], maxAuthFailures: 3, allowedIPs: [], rateLimit: { enabled: true, requestsPerMinute: 60, blacklistDuration: 3600000 }, audit: { enabled: true, events: ['auth', 'error', 'config'], encryptLogs: true } },
+        ports: { default: { baudRate: 9600, dataBits: 8, stopBits: 1, parity: 'none', flowControl: 'none', bufferSize: 2048, timeout: 5000, bufferMode: 'raw', lineDelimiter: '\n', idleTimeout: 50 }, specific: {}, retryInterval: 10000, hotplug: { enabled: true, mode: 'auto', pollInterval: 2000 } },
         governors: { operational: { probeInterval: 5000, errorThreshold: 10, retryAttempts: 3, retryDelay: 1000 }, coordination: { conflictResolution: 'priority', loadBalancing: false }, management: { autoRecover: true, healthCheckInterval: 30000, failureThreshold: 3 }, intelligence: { learning: true, predictionEnabled: false }, meta: { telemetry: false, cloudSync: false, reportingInterval: 300000 } },
         chaos: { enabled: false, scenarios: [], interval: 60000, intensity: 'low' }
       } as CyrealConfig;
@@ -121,6 +188,7 @@ export class Cyreald {
     this.setupControllerEvents(controller);
     
     this.portControllers.set(portId, controller);
+    this.deviceWatcher?.track(physicalPath);
     
     this.logger.info('Serial port controller created', {
       portId,
@@ -130,6 +198,10 @@ export class Cyreald {
       capabilities: Object.keys(capabilities)
     });
     
+    if (this.isStarted) {
+      await this.startSerialBridge(controller);
+    }
+    
     return controller;
   }
   
@@ -139,8 +211,15 @@ export class Cyreald {
   async removePort(portId: string): Promise<void> {
     const controller = this.portControllers.get(portId);
     if (controller) {
+      this.endPortStream(portId, 'port removed');
+      await this.stopSerialBridge(portId);
       await controller.close();
       this.portControllers.delete(portId);
+      this.portReadBuffers.delete(portId);
+      this.portStatuses.delete(portId);
+      this.provisionedPorts.delete(portId);
+      this.detachedIdentities.delete(portId);
+      this.deviceWatcher?.untrack(controller.physicalPath);
       this.logger.info('Port controller removed', { portId });
     }
   }
@@ -176,6 +255,13 @@ export class Cyreald {
     // Set up network event handlers
     this.setupNetworkEvents();
     
+    this.startStatusTimer();
+    
+    // Raw TCP bridges for ports created before the daemon started
+    for (const controller of this.portControllers.values()) {
+      await this.startSerialBridge(controller);
+    }
+    
     // Platform-specific startup procedures
     await this.startPlatformOptimizations();
     
@@ -185,10 +271,21 @@ export class Cyreald {
     }
     
     this.isStarted = true;
+    
+    // Follow USB adapters being unplugged and plugged back in
+    if (this.config.ports.hotplug.enabled) {
+      await this.startDeviceWatcher();
+    }
+    
+    // Bring up the ports declared in ports.specific
+    await this.provisionPorts();
+    
     this.logger.info('Cyreald daemon started successfully', {
       tcp: this.config.network.tcp.enabled ? this.config.network.tcp.port : 'disabled',
       udp: this.config.network.udp.enabled ? this.config.network.udp.port : 'disabled',
-      websocket: this.config.network.websocket.enabled ? this.config.network.websocket.port : 'disabled'
+      websocket: this.config.network.websocket.enabled ? this.config.network.websocket.port : 'disabled',
+      ports: this.portControllers.size,
+      missingPorts: Array.from(this.missingPorts)
     });
   }
   
@@ -208,12 +305,37 @@ export class Cyreald {
       this.networkServer = undefined;
     }
     
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = undefined;
+    }
+    
+    this.stopDeviceWatcher();
+    
+    // Let a provisioning run finish so it cannot schedule another retry
+    await this.provisioning;
+    if (this.provisionTimer) {
+      clearTimeout(this.provisionTimer);
+      this.provisionTimer = undefined;
+    }
+    
+    // Stop raw TCP bridges
+    for (const portId of Array.from(this.serialBridges.keys())) {
+      await this.stopSerialBridge(portId);
+    }
+    
     // Close all port controllers
     for (const [portId, controller] of this.portControllers) {
       await controller.close();
     }
     
+    this.portSubscriptions.clear();
+    this.portReadBuffers.clear();
+    this.portStatuses.clear();
     this.portControllers.clear();
+    this.provisionedPorts.clear();
+    this.missingPorts.clear();
+    this.detachedIdentities.clear();
     this.isStarted = false;
     this.logger.info('Cyreald daemon stopped');
   }
@@ -225,6 +347,7 @@ export class Cyreald {
     return {
       platform: this.platform.info,
       activePorts: this.portControllers.size,
+      missingPorts: Array.from(this.missingPorts),
       isStarted: this.isStarted,
       config: {
         tcpPort: this.config.network.tcp.port,
@@ -245,7 +368,11 @@ export class Cyreald {
         status: controller.status,
         metrics: controller.getMetrics(),
         type: controller.type,
-        physicalPath: controller.physicalPath
+        physicalPath: controller.physicalPath,
+        bridge: this.serialBridges.get(id) ? {
+          port: this.config.ports.specific[id]?.bridge?.port,
+          clients: this.serialBridges.get(id)!.getClients().length
+        } : null
       }))
     };
   }
@@ -257,158 +384,1336 @@ export class Cyreald {
     return { ...this.config };
   }
   
+  /**
+   * Record configuration changes in the PCI audit trail
+   */
+  setAuditLogger(auditLogger: PCIAuditLogger): void {
+    this.auditLogger = auditLogger;
+  }
   
   /**
-   * Set up network event handlers
+   * Apply a reloaded configuration to the running daemon. Only network
+   * listeners whose settings changed are restarted, security settings are
+   * updated in place, and open ports pick up changed ports.specific settings.
+   * If the network cannot take the new settings the previous configuration
+   * stays in effect and the error is rethrown.
    */
-  private setupNetworkEvents(): void {
-    if (!this.networkServer) return;
+  async applyConfig(newConfig: CyrealConfig): Promise<ConfigChange[]> {
+    const oldConfig = this.config;
+    const changes = diffConfig(oldConfig, newConfig);
+    if (changes.length === 0) {
+      return changes;
+    }
     
-    // Client connection events
-    this.networkServer.on('client:connected', (event) => {
-      this.logger.info('Network client connected', {
-        clientId: event.clientId,
-        protocol: event.protocol,
-        address: event.clientInfo.address,
-        port: event.clientInfo.port,
-        cybersyn: 'Connected to Project Cybersyn tribute port 3500'
-      });
-    });
+    let restarted: string[] = [];
+    if (this.networkServer) {
+      try {
+        restarted = await this.networkServer.updateConfig(newConfig);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error('Configuration reload rejected, keeping previous configuration', { error: message });
+        await this.auditConfigChange(changes, 'failure', { error: message });
+        throw error;
+      }
+    }
     
-    this.networkServer.on('client:disconnected', (event) => {
-      this.logger.info('Network client disconnected', {
-        clientId: event.clientId,
-        protocol: event.client.protocol,
-        duration: Date.now() - event.client.connectedAt.getTime()
-      });
-    });
+    this.config = newConfig;
     
-    // Data received from network clients
-    this.networkServer.on('data:received', (event) => {
-      this.handleNetworkCommand(event.clientId, event.data, event.protocol);
+    if (newConfig.daemon.logLevel !== oldConfig.daemon.logLevel) {
+      this.logger.level = newConfig.daemon.logLevel;
+    }
+    
+    if (this.statusTimer && newConfig.governors.operational.probeInterval !== oldConfig.governors.operational.probeInterval) {
+      this.startStatusTimer();
+    }
+    
+    if (this.isStarted && JSON.stringify(newConfig.ports.hotplug) !== JSON.stringify(oldConfig.ports.hotplug)) {
+      this.stopDeviceWatcher();
+      if (newConfig.ports.hotplug.enabled) {
+        await this.startDeviceWatcher();
+      }
+    }
+    
+    const reconfiguredPorts: string[] = [];
+    const portErrors: Record<string, string> = {};
+    
+    const removedPorts: string[] = [];
+    
+    for (const [portId, controller] of Array.from(this.portControllers)) {
+      const oldPort = oldConfig.ports.specific[portId];
+      const newPort = newConfig.ports.specific[portId];
+      
+      // Provisioned ports follow their entry: dropped with it, re-matched when it points elsewhere
+      if (this.provisionedPorts.has(portId) && (
+        !newPort || JSON.stringify(this.portIdentity(oldPort)) !== JSON.stringify(this.portIdentity(newPort))
+      )) {
+        await this.removePort(portId);
+        removedPorts.push(portId);
+        continue;
+      }
+      
+      // Bridges follow their own settings and are refused once clients must authenticate
+      if (this.isStarted && (
+        JSON.stringify(oldPort?.bridge) !== JSON.stringify(newPort?.bridge) ||
+        this.bridgesAllowed(oldConfig) !== this.bridgesAllowed(newConfig)
+      )) {
+        await this.stopSerialBridge(portId);
+        await this.startSerialBridge(controller);
+      }
+      
+      // Ports opened without a ports.specific entry keep the options they were given
+      if (!oldPort && !newPort) {
+        continue;
+      }
+      
+      const options = this.portOptionsFromConfig(portId, newConfig);
+      if (!controller.getOptions() ||
+          JSON.stringify(options) === JSON.stringify(this.portOptionsFromConfig(portId, oldConfig))) {
+        continue;
+      }
+      
+      try {
+        await controller.updateOptions(options);
+        reconfiguredPorts.push(portId);
+      } catch (error) {
+        portErrors[portId] = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to apply reloaded port settings', { portId, error: portErrors[portId] });
+      }
+    }
+    
+    // New or re-pointed entries, and entries still waiting for their device
+    if (this.isStarted) {
+      await this.provisionPorts();
+    }
+    
+    const restartRequired = changes
+      .map(change => change.path)
+      .filter(path => RESTART_REQUIRED_SETTINGS.includes(path));
+    if (restartRequired.length > 0) {
+      this.logger.warn('Some settings only take effect after a restart', { settings: restartRequired });
+    }
+    
+    this.logger.info('Configuration reloaded', {
+      changes: changes.map(change => change.path),
+      restartedListeners: restarted,
+      reconfiguredPorts,
+      removedPorts
     });
     
-    // Metrics updates
-    this.networkServer.on('metrics:updated', (metrics) => {
-      this.logger.debug('Network metrics updated', {
-        tcpConnections: metrics.tcpConnections,
-        udpPackets: metrics.udpPackets,
-        websocketConnections: metrics.websocketConnections,
-        bytesTransmitted: metrics.bytesTransmitted,
-        bytesReceived: metrics.bytesReceived,
-        uptime: metrics.uptime
-      });
+    await this.auditConfigChange(changes, 'success', {
+      restartedListeners: restarted,
+      reconfiguredPorts,
+      removedPorts,
+      ...(Object.keys(portErrors).length > 0 ? { portErrors } : {}),
+      ...(restartRequired.length > 0 ? { restartRequired } : {})
     });
+    
+    return changes;
   }
   
   /**
-   * Handle commands received from network clients
+   * Audit a configuration reload that was rejected before it reached the daemon
    */
-  private handleNetworkCommand(clientId: string, data: any, protocol: string): void {
-    try {
-      const { command, portId, params } = data;
-      
-      switch (command) {
-        case 'list_ports':
-          this.sendPortList(clientId);
-          break;
-          
-        case 'port_status':
-          this.sendPortStatus(clientId, portId);
-          break;
-          
-        case 'send_data':
-          this.sendDataToPort(clientId, portId, params.data);
-          break;
-          
-        case 'daemon_status':
-          this.sendDaemonStatus(clientId);
-          break;
-          
-        default:
-          this.sendError(clientId, `Unknown command: ${command}`);
+  async auditRejectedConfig(error: Error): Promise<void> {
+    await this.auditConfigChange([], 'failure', { error: error.message });
+  }
+  
+  /**
+   * List system serial ports, annotated with the controllers managing them
+   */
+  async listPorts(): Promise<A2ASerialPortInfo[]> {
+    const systemPorts = await this.platform.listSerialPortInfo();
+    const controllers = Array.from(this.portControllers.entries());
+    
+    const ports: A2ASerialPortInfo[] = systemPorts.map(port => {
+      const managed = controllers.find(([, controller]) => controller.physicalPath === port.path);
+      return {
+        path: port.path,
+        portId: managed?.[0],
+        type: managed?.[1].type,
+        status: managed?.[1].status,
+        manufacturer: port.manufacturer,
+        vendorId: port.vendorId,
+        productId: port.productId,
+        serialNumber: port.serialNumber
+      };
+    });
+    
+    // Controllers on devices the platform does not enumerate (e.g. PTYs)
+    for (const [id, controller] of controllers) {
+      if (!systemPorts.some(port => port.path === controller.physicalPath)) {
+        ports.push({
+          path: controller.physicalPath,
+          portId: id,
+          type: controller.type,
+          status: controller.status
+        });
       }
-    } catch (error) {
-      this.logger.error('Error handling network command', { clientId, error });
-      this.sendError(clientId, 'Invalid command format');
     }
+    
+    return ports;
   }
   
-  private sendPortList(clientId: string): void {
-    const ports = Array.from(this.portControllers.entries()).map(([id, controller]) => ({
-      id,
-      physicalPath: controller.physicalPath,
-      type: controller.type,
-      status: controller.status,
-      metrics: controller.getMetrics()
-    }));
+  /**
+   * Read up to maxBytes from a port, resolving early when full or after timeout ms
+   */
+  async readPort(portId: string, options: { maxBytes: number; timeout: number }): Promise<Buffer> {
+    const controller = this.portControllers.get(portId);
+    if (!controller) {
+      throw new Error(`Port not found: ${portId}`);
+    }
     
-    this.networkServer?.sendToClient(clientId, {
-      type: 'port_list',
-      ports,
-      timestamp: new Date().toISOString()
-    });
+    const chunks: Buffer[] = [];
+    let received = 0;
+    
+    // Bytes left over from the previous read come first
+    const pending = this.portReadBuffers.get(portId);
+    if (pending) {
+      chunks.push(pending);
+      received = pending.length;
+      this.portReadBuffers.delete(portId);
+    }
+    
+    if (received < options.maxBytes && options.timeout > 0) {
+      await new Promise<void>(resolve => {
+        const finish = () => {
+          clearTimeout(timer);
+          controller.off('data:received', onData);
+          controller.off('port:closed', finish);
+          resolve();
+        };
+        const onData = (event: { data: Buffer }) => {
+          chunks.push(event.data);
+          received += event.data.length;
+          if (received >= options.maxBytes) {
+            finish();
+          }
+        };
+        const timer = setTimeout(finish, options.timeout);
+        
+        controller.on('data:received', onData);
+        controller.once('port:closed', finish);
+      });
+    }
+    
+    const data = Buffer.concat(chunks);
+    if (data.length > options.maxBytes) {
+      this.portReadBuffers.set(portId, data.subarray(options.maxBytes));
+    }
+    
+    return data.subarray(0, options.maxBytes);
   }
   
-  private sendPortStatus(clientId: string, portId: string): void {
+  /**
+   * Write data to a port, returning the number of bytes written
+   */
+  async writePort(portId: string, data: Buffer): Promise<number> {
     const controller = this.portControllers.get(portId);
+    if (!controller) {
+      throw new Error(`Port not found: ${portId}`);
+    }
     
+    await controller.write(data);
+    return data.length;
+  }
+  
+  /**
+   * Apply line settings to an open port, returning the resulting options
+   */
+  async configurePort(portId: string, options: Partial<PortOptions>): Promise<PortOptions | undefined> {
+    const controller = this.portControllers.get(portId);
     if (!controller) {
-      this.sendError(clientId, `Port not found: ${portId}`);
-      return;
+      throw new Error(`Port not found: ${portId}`);
     }
     
-    this.networkServer?.sendToClient(clientId, {
-      type: 'port_status',
-      portId,
-      status: controller.status,
-      metrics: controller.getMetrics(),
-      // fingerprint removed - pending manufacturer consultation
-      timestamp: new Date().toISOString()
+    await controller.updateOptions(options);
+    return controller.getOptions();
+  }
+  
+  /**
+   * Subscribe to serial and governance events for A2A push notifications
+   */
+  onNotification(callback: (notification: A2ANotification) => void): void {
+    this.notificationListeners.push(callback);
+  }
+  
+  /**
+   * Validate every port governor and collect its learning metrics
+   */
+  async getGovernorStatus(): Promise<A2AGovernorStatus[]> {
+    return Array.from(this.portControllers.entries()).map(([id, controller]) => ({
+      name: controller.name,
+      level: controller.level,
+      domain: controller.domain,
+      portId: id,
+      validation: controller.validate(),
+      learning: controller.getLearningMetrics()
+    }));
+  }
+  
+  
+  /**
+   * Line settings for a port: ports.default overlaid with its ports.specific entry
+   */
+  private portOptionsFromConfig(portId: string, config: CyrealConfig): PortOptions {
+    const entry = config.ports.specific[portId];
+    const {
+      baudRate, dataBits, stopBits, parity, flowControl,
+      bufferMode, lineDelimiter, bufferSize, idleTimeout
+    } = {
+      ...config.ports.default,
+      ...entry
+    };
+    const options: PortOptions = {
+      baudRate, dataBits, stopBits, parity, flowControl,
+      bufferMode: bufferMode as BufferMode,
+      lineDelimiter,
+      maxLineLength: bufferSize,
+      idleTimeout
+    };
+    
+    if (entry?.rs485) {
+      options.rs485 = {
+        enabled: entry.rs485.enabled,
+        rtsPin: entry.rs485.rtsPin,
+        // The driver stays enabled this long after the last byte before releasing the bus
+        delayRtsAfterSend: entry.rs485.turnaroundDelay
+      };
+    }
+    
+    return options;
+  }
+  
+  /**
+   * The settings that decide which device a ports.specific entry is bound to
+   */
+  private portIdentity(entry: CyrealConfig['ports']['specific'][string] | undefined) {
+    return entry ? { path: entry.path, usb: entry.usb, type: entry.type, rs485: entry.rs485?.enabled } : undefined;
+  }
+  
+  /**
+   * Create and open a controller for every ports.specific entry that does
+   * not have one yet. Entries whose device is absent or fails to open are
+   * retried every ports.retryInterval.
+   */
+  private provisionPorts(): Promise<void> {
+    // Serialise runs so an entry is never provisioned twice
+    if (this.provisioning) {
+      return this.provisioning.then(() => this.provisionPorts());
+    }
+    
+    this.provisioning = this.reconcileConfiguredPorts().finally(() => {
+      this.provisioning = undefined;
     });
+    return this.provisioning;
   }
   
-  private async sendDataToPort(clientId: string, portId: string, data: string): Promise<void> {
-    const controller = this.portControllers.get(portId);
+  private async reconcileConfiguredPorts(): Promise<void> {
+    if (this.provisionTimer) {
+      clearTimeout(this.provisionTimer);
+      this.provisionTimer = undefined;
+    }
     
-    if (!controller) {
-      this.sendError(clientId, `Port not found: ${portId}`);
+    const pending = Object.entries(this.config.ports.specific)
+      .filter(([portId]) => !this.portControllers.has(portId));
+    
+    if (pending.length === 0) {
+      this.missingPorts.clear();
       return;
     }
     
+    let systemPorts: SystemPortInfo[] = [];
     try {
-      await controller.write(Buffer.from(data));
-      this.networkServer?.sendToClient(clientId, {
-        type: 'data_sent',
-        portId,
-        success: true,
-        timestamp: new Date().toISOString()
-      });
+      systemPorts = await this.platform.listSerialPortInfo();
     } catch (error) {
-      this.sendError(clientId, `Failed to send data: ${error}`);
+      this.logger.warn('Failed to list serial ports', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    const claimed = new Set(Array.from(this.portControllers.values()).map(controller => controller.physicalPath));
+    const missing = new Set<string>();
+    
+    for (const [portId, entry] of pending) {
+      const devicePath = this.findConfiguredDevice(portId, entry, systemPorts, claimed);
+      if (!devicePath) {
+        if (!this.missingPorts.has(portId)) {
+          this.logger.warn('Configured port not present, will keep looking', {
+            portId,
+            path: entry.usb ? undefined : entry.path || portId,
+            usb: entry.usb
+          });
+        }
+        missing.add(portId);
+        continue;
+      }
+      
+      claimed.add(devicePath);
+      
+      try {
+        const type = entry.type || (entry.rs485?.enabled ? 'rs485' : 'usb-serial');
+        const controller = await this.createPort(portId, devicePath, type);
+        this.provisionedPorts.add(portId);
+        await controller.open(this.portOptionsFromConfig(portId, this.config));
+        
+        this.logger.info('Configured port provisioned', {
+          portId,
+          name: entry.name,
+          path: devicePath,
+          type
+        });
+      } catch (error) {
+        this.logger.error('Failed to open configured port, will retry', {
+          portId,
+          path: devicePath,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        await this.removePort(portId);
+        missing.add(portId);
+      }
+    }
+    
+    this.missingPorts = missing;
+    
+    if (missing.size > 0 && this.isStarted) {
+      this.provisionTimer = setTimeout(() => {
+        this.provisionTimer = undefined;
+        this.provisionPorts();
+      }, this.config.ports.retryInterval);
     }
   }
   
-  private sendDaemonStatus(clientId: string): void {
-    this.networkServer?.sendToClient(clientId, {
-      type: 'daemon_status',
-      ...this.getStatus(),
-      timestamp: new Date().toISOString()
-    });
+  /**
+   * Find the device for a ports.specific entry: by USB identity when one is
+   * configured, otherwise by path (the entry key unless path is set)
+   */
+  private findConfiguredDevice(
+    portId: string,
+    entry: CyrealConfig['ports']['specific'][string],
+    systemPorts: SystemPortInfo[],
+    claimed: Set<string>
+  ): string | undefined {
+    const usb = entry.usb;
+    if (usb) {
+      const match = systemPorts.find(port => !claimed.has(port.path) && this.matchesUsbIdentity(port, usb));
+      return match?.path;
+    }
+    
+    const devicePath = entry.path || portId;
+    if (claimed.has(devicePath)) {
+      return undefined;
+    }
+    
+    // Aliases such as /dev/serial/by-id links are not listed, so also check the file system
+    const present = systemPorts.some(port => port.path === devicePath) ||
+      (this.platform.info.name !== 'Windows' && fs.existsSync(devicePath));
+    return present ? devicePath : undefined;
   }
   
-  private sendError(clientId: string, message: string): void {
-    this.networkServer?.sendToClient(clientId, {
-      type: 'error',
-      message,
-      timestamp: new Date().toISOString()
-    });
+  private matchesUsbIdentity(
+    port: SystemPortInfo | undefined,
+    usb: NonNullable<CyrealConfig['ports']['specific'][string]['usb']>
+  ): boolean {
+    return !!port &&
+      port.vendorId?.toLowerCase() === usb.vendorId.toLowerCase() &&
+      port.productId?.toLowerCase() === usb.productId.toLowerCase() &&
+      (!usb.serialNumber || port.serialNumber === usb.serialNumber);
+  }
+  
+  private async startDeviceWatcher(): Promise<void> {
+    const watcher = new DeviceWatcher(this.platform, this.logger, this.config.ports.hotplug);
+    
+    // Ports opened by an alias path are not in the port list
+    for (const controller of this.portControllers.values()) {
+      watcher.track(controller.physicalPath);
+    }
+    
+    watcher.on('device:detached', (device: DeviceEvent) => this.handleDeviceDetached(device));
+    watcher.on('device:attached', (device: DeviceEvent) => this.handleDeviceAttached(device));
+    
+    this.deviceWatcher = watcher;
+    await watcher.start();
+  }
+  
+  private stopDeviceWatcher(): void {
+    this.deviceWatcher?.stop();
+    this.deviceWatcher?.removeAllListeners();
+    this.deviceWatcher = undefined;
   }
   
   /**
-   * Set up cybernetic event monitoring for controllers
+   * A device went away: the controller using it turns red and keeps its
+   * settings and subscribers until the device returns
    */
-  private setupControllerEvents(controller: SerialPortController): void {
+  private async handleDeviceDetached(device: DeviceEvent): Promise<void> {
+    const controller = Array.from(this.portControllers.values())
+      .find(candidate => candidate.physicalPath === device.path);
+    
+    if (controller) {
+      // A no-op when the driver already reported the disconnect
+      await controller.deviceDetached();
+      if (controller.isDetached) {
+        this.detachedIdentities.set(controller.id, device.info);
+      }
+    }
+    
+    this.publishDeviceNotification('detached', device, controller?.id);
+  }
+  
+  /**
+   * A device appeared: reopen the detached controller it belongs to, or
+   * hand it to provisioning when a ports.specific entry is waiting for it
+   */
+  private async handleDeviceAttached(device: DeviceEvent): Promise<void> {
+    const controller = Array.from(this.portControllers.values())
+      .find(candidate => candidate.isDetached && this.isReturningDevice(candidate, device));
+    
+    if (controller) {
+      const { retryAttempts, retryDelay } = this.config.governors.operational;
+      
+      // The device node can appear before it is ready to be opened
+      for (let attempt = 0; attempt <= retryAttempts && controller.isDetached; attempt++) {
+        try {
+          await controller.reattachDevice(device.path);
+          this.detachedIdentities.delete(controller.id);
+        } catch (error) {
+          this.logger.warn('Failed to reopen returning device', {
+            portId: controller.id,
+            path: device.path,
+            attempt: attempt + 1,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          if (attempt < retryAttempts) {
+            await new Promise(resolve => setTimeout(resolve, retryDelay));
+          }
+        }
+      }
+    }
+    
+    this.publishDeviceNotification('attached', device, controller?.id);
+    
+    if (!controller && this.missingPorts.size > 0) {
+      await this.provisionPorts();
+    }
+  }
+  
+  /**
+   * Whether an attached device is the one a detached controller lost. Ports
+   * provisioned by USB identity accept any adapter matching their entry;
+   * otherwise a known serial number is followed to a new path, and a device
+   * without one has to come back at the same path.
+   */
+  private isReturningDevice(controller: SerialPortController, device: DeviceEvent): boolean {
+    const usb = this.provisionedPorts.has(controller.id) ? this.config.ports.specific[controller.id]?.usb : undefined;
+    if (usb) {
+      return this.matchesUsbIdentity(device.info, usb);
+    }
+    
+    const lost = this.detachedIdentities.get(controller.id);
+    if (lost?.serialNumber) {
+      return this.matchesUsbIdentity(device.info, {
+        vendorId: lost.vendorId || '',
+        productId: lost.productId || '',
+        serialNumber: lost.serialNumber
+      });
+    }
+    
+    if (device.path !== controller.physicalPath) {
+      return false;
+    }
+    
+    return !lost || !device.info || (device.info.vendorId === lost.vendorId && device.info.productId === lost.productId);
+  }
+  
+  private publishDeviceNotification(event: 'attached' | 'detached', device: DeviceEvent, portId?: string): void {
+    this.publishNotification({
+      method: 'serial.device',
+      portId,
+      params: {
+        event,
+        path: device.path,
+        vendorId: device.info?.vendorId,
+        productId: device.info?.productId,
+        serialNumber: device.info?.serialNumber,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+  
+  /**
+   * Inactivity turns a port yellow without any event, so poll for changes
+   */
+  private startStatusTimer(): void {
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+    }
+    
+    this.statusTimer = setInterval(() => {
+      for (const controller of this.portControllers.values()) {
+        this.checkPortStatus(controller);
+      }
+    }, this.config.governors.operational.probeInterval);
+  }
+  
+  /**
+   * Write a CONFIG_CHANGE audit event when security.audit covers config events.
+   * Credentials are masked so the trail never holds a token.
+   */
+  private async auditConfigChange(
+    changes: ConfigChange[],
+    result: 'success' | 'failure',
+    details: Record<string, any>
+  ): Promise<void> {
+    const audit = this.config.security.audit;
+    if (!this.auditLogger || !audit.enabled || !audit.events.includes('config')) {
+      return;
+    }
+    
+    try {
+      await this.auditLogger.logEvent({
+        userId: 'SYSTEM',
+        eventType: PCIAuditEventType.CONFIG_CHANGE,
+        result,
+        resource: 'cyreald-config',
+        sourceIP: '127.0.0.1',
+        component: 'Cyreald',
+        action: 'config-reload',
+        details: {
+          changes: changes.map(change => this.maskConfigChange(change)),
+          ...details
+        },
+        riskScore: result === 'failure' ? 40 : 30
+      });
+    } catch (error) {
+      this.logger.error('Failed to audit configuration change', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  private maskConfigChange(change: ConfigChange): ConfigChange {
+    const mask = (value: unknown) => value === undefined ? value : '********';
+    const maskTokens = (value: unknown) => Array.isArray(value)
+      ? value.map(entry => ({ ...entry, token: mask(entry.token) }))
+      : value;
+    
+    switch (change.path) {
+      case 'security.authToken':
+        return { ...change, from: mask(change.from), to: mask(change.to) };
+      case 'security.tokens':
+        return { ...change, from: maskTokens(change.from), to: maskTokens(change.to) };
+      default:
+        return change;
+    }
+  }
+  
+  /**
+   * Start the raw TCP bridge for a port if ports.specific configures one
+   */
+  private async startSerialBridge(controller: SerialPortController): Promise<void> {
+    const bridgeConfig = this.config.ports.specific[controller.id]?.bridge;
+    if (!bridgeConfig?.enabled || this.serialBridges.has(controller.id)) {
+      return;
+    }
+    
+    if (!this.bridgesAllowed(this.config)) {
+      this.logger.warn('Serial bridge disabled: bridge clients cannot authenticate', {
+        portId: controller.id,
+        securityLevel: this.config.security.level
+      });
+      return;
+    }
+    
+    const bridge = new SerialBridge(
+      controller,
+      {
+        port: bridgeConfig.port,
+        host: bridgeConfig.host,
+        rfc2217: bridgeConfig.rfc2217,
+        maxClients: bridgeConfig.maxClients
+      },
+      this.logger,
+      (address) => this.networkServer ? this.networkServer.isConnectionAllowed(address) : false
+    );
+    
+    try {
+      await bridge.start();
+      this.serialBridges.set(controller.id, bridge);
+    } catch (error) {
+      this.logger.error('Failed to start serial bridge', {
+        portId: controller.id,
+        port: bridgeConfig.port,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  /**
+   * Raw sockets cannot take part in the auth handshake or present a client
+   * certificate, so bridges only run where the network server lets
+   * anonymous clients in anyway
+   */
+  private bridgesAllowed(config: CyrealConfig): boolean {
+    return config.security.level !== 'paranoid' && !new ClientAuthenticator(config.security).isConfigured;
+  }
+  
+  private async stopSerialBridge(portId: string): Promise<void> {
+    const bridge = this.serialBridges.get(portId);
+    if (bridge) {
+      await bridge.stop();
+      this.serialBridges.delete(portId);
+    }
+  }
+  
+  /**
+   * Set up network event handlers
+   */
+  private setupNetworkEvents(): void {
+    if (!this.networkServer) return;
+    
+    // Client connection events
+    this.networkServer.on('client:connected', (event) => {
+      this.logger.info('Network client connected', {
+        clientId: event.clientId,
+        protocol: event.protocol,
+        address: event.clientInfo.address,
+        port: event.clientInfo.port,
+        cybersyn: 'Connected to Project Cybersyn tribute port 3500'
+      });
+    });
+    
+    this.networkServer.on('client:disconnected', (event) => {
+      this.logger.info('Network client disconnected', {
+        clientId: event.clientId,
+        protocol: event.client.protocol,
+        duration: Date.now() - event.client.connectedAt.getTime()
+      });
+      
+      this.removeClientSubscriptions(event.clientId);
+    });
+    
+    // A config reload changed what the client may read
+    this.networkServer.on('client:reauthorized', (event) => {
+      this.pruneClientSubscriptions(event.clientId, event.client.permissions);
+    });
+    
+    // Data received from network clients
+    this.networkServer.on('data:received', (event) => {
+      this.handleNetworkCommand(event.clientId, event.data, event.protocol, event.client.permissions);
+    });
+    
+    // Metrics updates
+    this.networkServer.on('metrics:updated', (metrics) => {
+      this.logger.debug('Network metrics updated', {
+        tcpConnections: metrics.tcpConnections,
+        udpPackets: metrics.udpPackets,
+        websocketConnections: metrics.websocketConnections,
+        bytesTransmitted: metrics.bytesTransmitted,
+        bytesReceived: metrics.bytesReceived,
+        uptime: metrics.uptime
+      });
+    });
+  }
+  
+  /**
+   * Handle commands received from network clients
+   * 
+   * A requestId sent with a command is echoed on its reply, so clients
+   * with several commands in flight can match replies to requests.
+   */
+  private handleNetworkCommand(clientId: string, data: any, protocol: string, permissions: string[]): void {
+    try {
+      const { command, portId, params, requestId } = data;
+      
+      switch (command) {
+        case 'list_ports':
+          this.sendPortList(clientId, permissions, requestId);
+          break;
+          
+        case 'list_system_ports':
+          this.sendSystemPortList(clientId, permissions, requestId);
+          break;
+          
+        case 'port_status':
+          if (this.authorize(clientId, permissions, 'read', portId, requestId)) {
+            this.sendPortStatus(clientId, portId, requestId);
+          }
+          break;
+          
+        case 'send_data':
+          if (this.authorize(clientId, permissions, 'write', portId, requestId)) {
+            this.sendDataToPort(clientId, portId, params.data, params.encoding, requestId);
+          }
+          break;
+          
+        case 'read_port':
+          if (this.authorize(clientId, permissions, 'read', portId, requestId)) {
+            this.readDataFromPort(clientId, portId, params, requestId);
+          }
+          break;
+          
+        case 'configure_port':
+          if (this.authorize(clientId, permissions, 'configure', portId, requestId)) {
+            this.configurePortForClient(clientId, portId, params?.options, requestId);
+          }
+          break;
+          
+        case 'daemon_status':
+          this.sendDaemonStatus(clientId, requestId);
+          break;
+          
+        case 'governor_status':
+          this.sendGovernorStatus(clientId, permissions, requestId);
+          break;
+          
+        case 'subscribe_port':
+          if (this.authorize(clientId, permissions, 'read', portId, requestId)) {
+            this.subscribeToPort(clientId, portId, params?.encoding, requestId);
+          }
+          break;
+          
+        case 'unsubscribe_port':
+          this.unsubscribeFromPort(clientId, portId, requestId);
+          break;
+          
+        case 'subscribe_notifications':
+          this.subscribeToNotifications(clientId, requestId);
+          break;
+          
+        case 'unsubscribe_notifications':
+          this.unsubscribeFromNotifications(clientId, requestId);
+          break;
+          
+        default:
+          this.sendError(clientId, `Unknown command: ${command}`, requestId);
+      }
+    } catch (error) {
+      this.logger.error('Error handling network command', { clientId, error });
+      this.sendError(clientId, 'Invalid command format', data?.requestId);
+    }
+  }
+  
+  /**
+   * Check a client's permission scopes for a port operation, replying on denial
+   */
+  private authorize(clientId: string, permissions: string[], operation: PortOperation, portId: string, requestId?: unknown): boolean {
+    if (hasPortPermission(permissions, operation, portId)) {
+      return true;
+    }
+    
+    this.logger.warn('Network command denied', { clientId, operation, portId });
+    this.sendError(clientId, `Permission denied: ${operation} access to port ${portId}`, requestId);
+    return false;
+  }
+  
+  /**
+   * Send the reply to a command, tagged with the command's requestId
+   */
+  private reply(clientId: string, requestId: unknown, message: Record<string, any>): boolean {
+    return this.networkServer?.sendToClient(clientId, requestId === undefined ? message : { ...message, requestId }) ?? false;
+  }
+  
+  private sendPortList(clientId: string, permissions: string[], requestId?: unknown): void {
+    const readable = Array.from(this.portControllers.entries())
+      .filter(([id]) => hasPortPermission(permissions, 'read', id));
+    
+    const ports = readable.map(([id, controller]) => ({
+      id,
+      physicalPath: controller.physicalPath,
+      type: controller.type,
+      status: controller.status,
+      metrics: controller.getMetrics()
+    }));
+    
+    this.reply(clientId, requestId, {
+      type: 'port_list',
+      ports,
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  /**
+   * Every serial device on the system; managed ports only when readable
+   */
+  private async sendSystemPortList(clientId: string, permissions: string[], requestId?: unknown): Promise<void> {
+    try {
+      const ports = (await this.listPorts())
+        .filter(port => !port.portId || hasPortPermission(permissions, 'read', port.portId));
+      
+      this.reply(clientId, requestId, {
+        type: 'system_port_list',
+        ports,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.sendError(clientId, `Failed to list serial ports: ${error instanceof Error ? error.message : String(error)}`, requestId);
+    }
+  }
+  
+  private sendPortStatus(clientId: string, portId: string, requestId?: unknown): void {
+    const controller = this.portControllers.get(portId);
+    
+    if (!controller) {
+      this.sendError(clientId, `Port not found: ${portId}`, requestId);
+      return;
+    }
+    
+    this.reply(clientId, requestId, {
+      type: 'port_status',
+      portId,
+      status: controller.status,
+      metrics: controller.getMetrics(),
+      // fingerprint removed - pending manufacturer consultation
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  private async sendDataToPort(clientId: string, portId: string, data: string, encoding: BufferEncoding = 'utf8', requestId?: unknown): Promise<void> {
+    const controller = this.portControllers.get(portId);
+    
+    if (!controller) {
+      this.sendError(clientId, `Port not found: ${portId}`, requestId);
+      return;
+    }
+    
+    if (!STREAM_ENCODINGS.includes(encoding)) {
+      this.sendError(clientId, `Unsupported encoding: ${encoding}`, requestId);
+      return;
+    }
+    
+    try {
+      const buffer = Buffer.from(data, encoding);
+      await controller.write(buffer);
+      this.reply(clientId, requestId, {
+        type: 'data_sent',
+        portId,
+        success: true,
+        bytes: buffer.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.sendError(clientId, `Failed to send data: ${error}`, requestId);
+    }
+  }
+  
+  /**
+   * One-shot read: up to maxBytes, answered when full or after timeout ms
+   */
+  private async readDataFromPort(clientId: string, portId: string, params: any, requestId?: unknown): Promise<void> {
+    const maxBytes = Number(params?.maxBytes ?? DEFAULT_READ_BYTES);
+    const timeout = Number(params?.timeout ?? DEFAULT_READ_TIMEOUT);
+    
+    if (!Number.isInteger(maxBytes) || maxBytes < 1 || maxBytes > MAX_READ_BYTES) {
+      this.sendError(clientId, `maxBytes must be between 1 and ${MAX_READ_BYTES}`, requestId);
+      return;
+    }
+    if (!Number.isInteger(timeout) || timeout < 0 || timeout > MAX_READ_TIMEOUT) {
+      this.sendError(clientId, `timeout must be between 0 and ${MAX_READ_TIMEOUT}`, requestId);
+      return;
+    }
+    
+    try {
+      const data = await this.readPort(portId, { maxBytes, timeout });
+      this.reply(clientId, requestId, {
+        type: 'port_read',
+        portId,
+        encoding: 'base64',
+        data: data.toString('base64'),
+        bytes: data.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.sendError(clientId, `Failed to read data: ${error instanceof Error ? error.message : String(error)}`, requestId);
+    }
+  }
+  
+  private async configurePortForClient(clientId: string, portId: string, options: Partial<PortOptions>, requestId?: unknown): Promise<void> {
+    if (!options || typeof options !== 'object') {
+      this.sendError(clientId, 'Port options required', requestId);
+      return;
+    }
+    
+    try {
+      const applied = await this.configurePort(portId, options);
+      this.reply(clientId, requestId, {
+        type: 'port_configured',
+        portId,
+        options: applied,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.sendError(clientId, `Failed to configure port: ${error instanceof Error ? error.message : String(error)}`, requestId);
+    }
+  }
+  
+  private sendDaemonStatus(clientId: string, requestId?: unknown): void {
+    this.reply(clientId, requestId, {
+      type: 'daemon_status',
+      ...this.getStatus(),
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  /**
+   * PSRLV validation and learning metrics of the governors on readable ports
+   */
+  private async sendGovernorStatus(clientId: string, permissions: string[], requestId?: unknown): Promise<void> {
+    try {
+      const governors = (await this.getGovernorStatus())
+        .filter(governor => !governor.portId || hasPortPermission(permissions, 'read', governor.portId));
+      
+      this.reply(clientId, requestId, {
+        type: 'governor_status',
+        governors,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.sendError(clientId, `Failed to collect governor status: ${error instanceof Error ? error.message : String(error)}`, requestId);
+    }
+  }
+  
+  /**
+   * Subscribe a network client to the RX stream of a port
+   */
+  private subscribeToPort(clientId: string, portId: string, encoding: BufferEncoding = 'base64', requestId?: unknown): void {
+    const controller = this.portControllers.get(portId);
+    
+    if (!controller) {
+      this.sendError(clientId, `Port not found: ${portId}`, requestId);
+      return;
+    }
+    
+    if (!STREAM_ENCODINGS.includes(encoding)) {
+      this.sendError(clientId, `Unsupported encoding: ${encoding}`, requestId);
+      return;
+    }
+    
+    let subscribers = this.portSubscriptions.get(portId);
+    if (!subscribers) {
+      subscribers = new Map();
+      this.portSubscriptions.set(portId, subscribers);
+    }
+    
+    subscribers.set(clientId, {
+      sequence: 0,
+      encoding,
+      subscribedAt: new Date()
+    });
+    
+    this.logger.info('Client subscribed to port', {
+      clientId,
+      portId,
+      encoding,
+      subscribers: subscribers.size
+    });
+    
+    this.reply(clientId, requestId, {
+      type: 'port_subscribed',
+      portId,
+      encoding,
+      timestamp: new Date().toISOString()
+    });
+    
+    if (!this.activePortStreams.has(portId)) {
+      this.streamPortData(portId, controller);
+    }
+  }
+  
+  private unsubscribeFromPort(clientId: string, portId: string, requestId?: unknown): void {
+    const subscribers = this.portSubscriptions.get(portId);
+    
+    if (!subscribers || !subscribers.delete(clientId)) {
+      this.sendError(clientId, `Not subscribed to port: ${portId}`, requestId);
+      return;
+    }
+    
+    if (subscribers.size === 0) {
+      this.portSubscriptions.delete(portId);
+    }
+    
+    this.logger.info('Client unsubscribed from port', { clientId, portId });
+    
+    this.reply(clientId, requestId, {
+      type: 'port_unsubscribed',
+      portId,
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  /**
+   * Forward A2A notifications (serial, status and governance events) to a network client
+   */
+  private subscribeToNotifications(clientId: string, requestId?: unknown): void {
+    this.notificationSubscribers.add(clientId);
+    this.logger.info('Client subscribed to notifications', { clientId });
+    
+    this.reply(clientId, requestId, {
+      type: 'notifications_subscribed',
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  private unsubscribeFromNotifications(clientId: string, requestId?: unknown): void {
+    if (!this.notificationSubscribers.delete(clientId)) {
+      this.sendError(clientId, 'Not subscribed to notifications', requestId);
+      return;
+    }
+    
+    this.logger.info('Client unsubscribed from notifications', { clientId });
+    
+    this.reply(clientId, requestId, {
+      type: 'notifications_unsubscribed',
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  /**
+   * End the port streams a client can no longer read
+   */
+  private pruneClientSubscriptions(clientId: string, permissions: string[]): void {
+    for (const [portId, subscribers] of this.portSubscriptions) {
+      if (!subscribers.has(clientId) || hasPortPermission(permissions, 'read', portId)) {
+        continue;
+      }
+      
+      subscribers.delete(clientId);
+      if (subscribers.size === 0) {
+        this.portSubscriptions.delete(portId);
+      }
+      
+      this.networkServer?.sendToClient(clientId, {
+        type: 'port_stream_ended',
+        portId,
+        reason: 'read access revoked',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+  
+  private removeClientSubscriptions(clientId: string): void {
+    for (const [portId, subscribers] of this.portSubscriptions) {
+      subscribers.delete(clientId);
+      if (subscribers.size === 0) {
+        this.portSubscriptions.delete(portId);
+      }
+    }
+    
+    this.notificationSubscribers.delete(clientId);
+  }
+  
+  /**
+   * Pump data from a port to its subscribers until none remain or the port closes
+   */
+  private async streamPortData(portId: string, controller: SerialPortController): Promise<void> {
+    this.activePortStreams.add(portId);
+    let reason = 'port closed';
+    
+    try {
+      const reader = controller.read();
+      
+      try {
+        while (true) {
+          const { value, done } = await reader.next();
+          if (done) {
+            break;
+          }
+          
+          const subscribers = this.portSubscriptions.get(portId);
+          if (!subscribers) {
+            reason = 'no subscribers';
+            break;
+          }
+          
+          this.forwardPortData(portId, value, subscribers);
+        }
+      } finally {
+        await reader.return?.();
+      }
+    } catch (error) {
+      reason = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Port data stream stopped', { portId, error: reason });
+    } finally {
+      this.activePortStreams.delete(portId);
+
+      // Clients may subscribe while the reader is being torn down; they
+      // get a new pump instead of an immediate port_stream_ended
+      const controllerCurrent = this.portControllers.get(portId) === controller;
+      if (reason === 'no subscribers' && controllerCurrent && this.portSubscriptions.has(portId)) {
+        this.streamPortData(portId, controller);
+      } else {
+        this.endPortStream(portId, reason);
+      }
+    }
+  }
+  
+  private forwardPortData(portId: string, data: Buffer, subscribers: Map<string, PortSubscription>): void {
+    const timestamp = new Date().toISOString();
+    
+    for (const [clientId, subscription] of subscribers) {
+      const delivered = this.networkServer?.sendToClient(clientId, {
+        type: 'port_data',
+        portId,
+        sequence: subscription.sequence++,
+        encoding: subscription.encoding,
+        data: data.toString(subscription.encoding),
+        bytes: data.length,
+        timestamp
+      });
+      
+      // Drop subscribers whose connection has gone away
+      if (!delivered) {
+        subscribers.delete(clientId);
+      }
+    }
+    
+    if (subscribers.size === 0) {
+      this.portSubscriptions.delete(portId);
+    }
+  }
+  
+  /**
+   * Notify remaining subscribers that a port stream has ended
+   */
+  private endPortStream(portId: string, reason: string): void {
+    const subscribers = this.portSubscriptions.get(portId);
+    if (!subscribers) {
+      return;
+    }
+    
+    this.portSubscriptions.delete(portId);
+    
+    for (const clientId of subscribers.keys()) {
+      this.networkServer?.sendToClient(clientId, {
+        type: 'port_stream_ended',
+        portId,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+  
+  private sendError(clientId: string, message: string, requestId?: unknown): void {
+    this.reply(clientId, requestId, {
+      type: 'error',
+      message,
+      timestamp: new Date().toISOString()
+    });
+  }
+  
+  /**
+   * Deliver a notification to in-process listeners and subscribed network clients
+   */
+  private publishNotification(notification: A2ANotification): void {
+    for (const listener of this.notificationListeners) {
+      try {
+        listener(notification);
+      } catch (error) {
+        this.logger.error('Notification listener failed', { method: notification.method, error });
+      }
+    }
+    
+    for (const clientId of this.notificationSubscribers) {
+      // Current permissions, not those at subscription time
+      const client = this.networkServer?.getClient(clientId);
+      if (!client) {
+        this.notificationSubscribers.delete(clientId);
+        continue;
+      }
+      
+      if (notification.portId && !hasPortPermission(client.permissions, 'read', notification.portId)) {
+        continue;
+      }
+      
+      this.networkServer?.sendToClient(clientId, { type: 'notification', notification });
+    }
+  }
+  
+  private hasNotificationSubscribers(): boolean {
+    return this.notificationListeners.length > 0 || this.notificationSubscribers.size > 0;
+  }
+  
+  /**
+   * Publish a serial.status notification when a port's indicator color changes
+   */
+  private checkPortStatus(controller: SerialPortController): void {
+    const status = controller.status;
+    const previous = this.portStatuses.get(controller.id);
+    
+    if (status === previous) {
+      return;
+    }
+    
+    this.portStatuses.set(controller.id, status);
+    
+    // The first observation is a baseline, not a change
+    if (previous === undefined) {
+      return;
+    }
+    
+    this.publishNotification({
+      method: 'serial.status',
+      portId: controller.id,
+      params: {
+        status,
+        color: STATUS_COLORS[status],
+        previousStatus: previous,
+        previousColor: STATUS_COLORS[previous],
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+  
+  /**
+   * Set up cybernetic event monitoring for controllers
+   */
+  private setupControllerEvents(controller: SerialPortController): void {
+    this.portStatuses.set(controller.id, controller.status);
+    
+    // A2A push notifications
+    controller.on('data:received', (data) => {
+      if (this.hasNotificationSubscribers()) {
+        this.publishNotification({
+          method: 'serial.data',
+          portId: data.id,
+          params: {
+            data: data.data.toString('base64'),
+            encoding: 'base64',
+            bytes: data.bytes,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+      this.checkPortStatus(controller);
+    });
+    
+    controller.on('port:error', (data) => {
+      this.publishNotification({
+        method: 'serial.error',
+        portId: data.id,
+        params: {
+          error: data.error instanceof Error ? data.error.message : String(data.error),
+          timestamp: new Date().toISOString()
+        }
+      });
+      this.checkPortStatus(controller);
+    });
+    
+    controller.on('port:opened', () => this.checkPortStatus(controller));
+    controller.on('port:closed', () => this.checkPortStatus(controller));
+    controller.on('device:detached', () => this.checkPortStatus(controller));
+    
+    controller.on('action:initiated', (data) => {
+      this.publishNotification({
+        method: 'governance.action',
+        portId: controller.id,
+        params: {
+          governor: controller.name,
+          action: data.action,
+          timestamp: new Date().toISOString()
+        }
+      });
+    });
+    
     // Learning events
     controller.on('learning:complete', (data) => {
       this.logger.debug('Governor learning completed', {
@@ -617,4 +1922,5 @@ export class Cyreald {
 // Export for use as a library
 export * from './governors/serial-port-controller';
 export * from './serial/platform-adapter';
+export * from './network/serial-bridge';
 export { PlatformAdapter };
\ No newline at end of file
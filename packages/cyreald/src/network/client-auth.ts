@@ -0,0 +1,147 @@
+/**
+ * Client Authentication - Token handshake and port permission scopes
+ *
+ * Network clients prove themselves with the `auth` command. The master
+ * security.authToken grants full access; named entries in security.tokens
+ * grant read/write/configure per port ID, mirroring TokenPermissions.
+ *
+ * Granted scopes are stored on ClientInfo.permissions as
+ * "<operation>:<portId>" strings, where a portId of "*" covers every port.
+ *
+ * With mutual TLS, entries in security.clientCertificates grant scopes to a
+ * verified client certificate by subject CN or subject alternative name.
+ */
+
+import * as crypto from 'crypto';
+import * as tls from 'tls';
+import { TokenPermissions } from '@cyreal/core';
+import { CyrealConfig } from '../config/config-manager';
+
+export type PortOperation = 'read' | 'write' | 'configure';
+
+export interface ClientAuthResult {
+  success: boolean;
+  name?: string;
+  permissions: string[];
+  reason?: string;
+}
+
+export const FULL_ACCESS: string[] = ['read:*', 'write:*', 'configure:*'];
+
+/**
+ * Convert TokenPermissions-style entries into permission scope strings
+ */
+export function toPermissionScopes(permissions: Omit<TokenPermissions, 'securityLevel'>[]): string[] {
+  const scopes: string[] = [];
+
+  for (const permission of permissions) {
+    if (permission.read) scopes.push(`read:${permission.portId}`);
+    if (permission.write) scopes.push(`write:${permission.portId}`);
+    if (permission.configure) scopes.push(`configure:${permission.portId}`);
+  }
+
+  return scopes;
+}
+
+/**
+ * Check whether a client's scopes allow an operation on a port
+ */
+export function hasPortPermission(permissions: string[], operation: PortOperation, portId: string): boolean {
+  return permissions.includes(`${operation}:*`) || permissions.includes(`${operation}:${portId}`);
+}
+
+export class ClientAuthenticator {
+  constructor(private security: CyrealConfig['security']) {}
+
+  /**
+   * Whether any credential is configured to authenticate against
+   */
+  get isConfigured(): boolean {
+    return !!this.security.authToken || this.security.tokens.length > 0 ||
+      this.security.clientCertificates.length > 0;
+  }
+
+  /**
+   * Scopes a client holds before authenticating, by security level:
+   * - debug: full access, no handshake
+   * - paranoid: nothing until authenticated
+   * - balanced: nothing until authenticated, when credentials are configured
+   * - permissive: read-only until authenticated, when credentials are configured
+   */
+  getInitialPermissions(): string[] {
+    switch (this.security.level) {
+      case 'debug':
+        return [...FULL_ACCESS];
+      case 'paranoid':
+        return [];
+      case 'permissive':
+        return this.isConfigured ? ['read:*'] : [...FULL_ACCESS];
+      default:
+        return this.isConfigured ? [] : [...FULL_ACCESS];
+    }
+  }
+
+  authenticate(token: unknown): ClientAuthResult {
+    if (typeof token !== 'string' || token.length === 0) {
+      return { success: false, permissions: [], reason: 'Token required' };
+    }
+
+    if (!this.isConfigured) {
+      return { success: false, permissions: [], reason: 'No credentials configured' };
+    }
+
+    // Check every credential so timing does not reveal which one matched
+    let result: ClientAuthResult = { success: false, permissions: [], reason: 'Invalid token' };
+
+    if (this.security.authToken && this.tokensEqual(token, this.security.authToken)) {
+      result = { success: true, name: 'master', permissions: [...FULL_ACCESS] };
+    }
+
+    for (const entry of this.security.tokens) {
+      if (this.tokensEqual(token, entry.token) && !result.success) {
+        result = { success: true, name: entry.name, permissions: toPermissionScopes(entry.permissions) };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Map a CA-verified client certificate to the scopes of every matching entry
+   */
+  authenticateCertificate(certificate: tls.PeerCertificate): ClientAuthResult {
+    const commonName = this.firstValue(certificate.subject?.CN);
+    const altNames = (certificate.subjectaltname || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0);
+
+    const matches = this.security.clientCertificates.filter(entry =>
+      (!entry.subject || entry.subject === commonName) &&
+      (!entry.san || altNames.includes(entry.san))
+    );
+
+    if (matches.length === 0) {
+      return { success: false, permissions: [], reason: 'No permissions mapped to client certificate' };
+    }
+
+    return {
+      success: true,
+      name: matches.map(entry => entry.name).join(','),
+      permissions: Array.from(new Set(matches.flatMap(entry => toPermissionScopes(entry.permissions))))
+    };
+  }
+
+  private firstValue(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  /**
+   * Constant-time comparison; hashing first equalises the lengths
+   */
+  private tokensEqual(candidate: string, expected: string): boolean {
+    const a = crypto.createHash('sha256').update(candidate).digest();
+    const b = crypto.createHash('sha256').update(expected).digest();
+    return crypto.timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Message Framer - Stream-to-message boundary handling for TCP clients
+ *
+ * TCP delivers a byte stream, not messages: one command can arrive split
+ * across several segments and several pipelined commands can share one.
+ * Each connection gets its own framer that buffers partial input and
+ * yields complete messages.
+ *
+ * Supported framings:
+ * - ndjson: one JSON document per line, terminated by \n (\r\n tolerated)
+ * - length-prefixed: 4-byte big-endian payload length, then UTF-8 JSON
+ */
+
+export type FramingMode = 'ndjson' | 'length-prefixed';
+
+export interface FrameResult {
+  frames: string[];
+  error?: string;
+  fatal?: boolean;
+}
+
+const NEWLINE = 0x0a;
+const LENGTH_PREFIX_BYTES = 4;
+
+export class MessageFramer {
+  private buffer: Buffer = Buffer.alloc(0);
+  private discarding: boolean = false;
+
+  constructor(
+    public readonly mode: FramingMode,
+    private maxMessageSize: number
+  ) {}
+
+  /**
+   * Feed received bytes and collect every message they complete
+   */
+  push(chunk: Buffer): FrameResult {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    return this.mode === 'length-prefixed'
+      ? this.extractLengthPrefixed()
+      : this.extractLines();
+  }
+
+  /**
+   * Encode an outgoing message in this connection's framing
+   */
+  encode(message: string): Buffer {
+    if (this.mode === 'length-prefixed') {
+      const payload = Buffer.from(message, 'utf8');
+      const prefix = Buffer.alloc(LENGTH_PREFIX_BYTES);
+      prefix.writeUInt32BE(payload.length);
+      return Buffer.concat([prefix, payload]);
+    }
+
+    return Buffer.from(message + '\n', 'utf8');
+  }
+
+  /**
+   * Bytes currently held waiting for the rest of a message
+   */
+  get pendingBytes(): number {
+    return this.buffer.length;
+  }
+
+  private extractLines(): FrameResult {
+    const frames: string[] = [];
+    let error: string | undefined;
+    let start = 0;
+    let newline: number;
+
+    while ((newline = this.buffer.indexOf(NEWLINE, start)) !== -1) {
+      if (this.discarding) {
+        // End of an oversized line; resume with the next one
+        this.discarding = false;
+      } else if (newline - start > this.maxMessageSize) {
+        error = `Message exceeds maximum size of ${this.maxMessageSize} bytes`;
+      } else {
+        const line = this.buffer.toString('utf8', start, newline).trim();
+        if (line) {
+          frames.push(line);
+        }
+      }
+      start = newline + 1;
+    }
+
+    this.buffer = this.buffer.subarray(start);
+
+    // Guard against a client streaming an endless line at us
+    if (this.buffer.length > this.maxMessageSize) {
+      if (!this.discarding) {
+        error = `Message exceeds maximum size of ${this.maxMessageSize} bytes`;
+      }
+      this.discarding = true;
+      this.buffer = Buffer.alloc(0);
+    }
+
+    return { frames, error };
+  }
+
+  private extractLengthPrefixed(): FrameResult {
+    const frames: string[] = [];
+
+    while (this.buffer.length >= LENGTH_PREFIX_BYTES) {
+      const length = this.buffer.readUInt32BE(0);
+
+      // The stream cannot be resynchronised after a bad length prefix
+      if (length > this.maxMessageSize) {
+        this.buffer = Buffer.alloc(0);
+        return {
+          frames,
+          error: `Declared message length ${length} exceeds maximum size of ${this.maxMessageSize} bytes`,
+          fatal: true
+        };
+      }
+
+      if (this.buffer.length < LENGTH_PREFIX_BYTES + length) {
+        break;
+      }
+
+      const payload = this.buffer.toString('utf8', LENGTH_PREFIX_BYTES, LENGTH_PREFIX_BYTES + length);
+      this.buffer = this.buffer.subarray(LENGTH_PREFIX_BYTES + length);
+
+      if (payload.trim()) {
+        frames.push(payload);
+      }
+    }
+
+    return { frames };
+  }
+}
@@ -11,6 +11,7 @@
  */
 
 import * as net from 'net';
+import * as tls from 'tls';
 import * as dgram from 'dgram';
 import * as http from 'http';
 import * as https from 'https';
@@ -18,7 +19,10 @@ import { WebSocketServer } from 'ws';
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as winston from 'winston';
+import { RFC1918Validator } from '@cyreal/core';
 import { CyrealConfig } from '../config/config-manager';
+import { MessageFramer } from './message-framer';
+import { ClientAuthenticator } from './client-auth';
 
 export interface NetworkMetrics {
   tcpConnections: number;
@@ -38,15 +42,24 @@ export interface ClientInfo {
   connectedAt: Date;
   authenticated: boolean;
   permissions: string[];
+  certificate?: {
+    subject?: string;
+    fingerprint: string;
+    credential?: string;              // Matching security.clientCertificates entries
+  };
 }
 
+const CERTIFICATE_POLL_INTERVAL = 5000;
+
+export type NetworkListener = 'tcp' | 'udp' | 'websocket';
+
 export class NetworkServer extends EventEmitter {
   private config: CyrealConfig;
   private logger: winston.Logger;
   private metrics: NetworkMetrics;
   
   // Server instances
-  private tcpServer?: net.Server;
+  private tcpServer?: net.Server | tls.Server;
   private udpServer?: dgram.Socket;
   private httpServer?: http.Server | https.Server;
   private wsServer?: WebSocketServer;
@@ -54,16 +67,27 @@ export class NetworkServer extends EventEmitter {
   // Client tracking
   private clients: Map<string, ClientInfo> = new Map();
   private tcpSockets: Map<string, net.Socket> = new Map();
+  private tcpFramers: Map<string, MessageFramer> = new Map();
   private wsConnections: Map<string, any> = new Map();
+  private watchedCertificates: string[] = [];
+  private certificateReloadTimer?: NodeJS.Timeout;
   
   // Rate limiting
   private rateLimiter: Map<string, { requests: number; resetTime: number }> = new Map();
   private blacklist: Set<string> = new Set();
+  
+  // Authentication
+  private authenticator: ClientAuthenticator;
+  private authFailures: Map<string, number> = new Map();
+  private clientCredentials: Map<string, { token?: string; certificate?: tls.PeerCertificate }> = new Map();
+  private rejectedCertificates: Set<string> = new Set();
+  private addressValidator = new RFC1918Validator();
 
   constructor(config: CyrealConfig, logger: winston.Logger) {
     super();
     this.config = config;
     this.logger = logger;
+    this.authenticator = new ClientAuthenticator(config.security);
     
     this.metrics = {
       tcpConnections: 0,
@@ -80,6 +104,10 @@ export class NetworkServer extends EventEmitter {
       cybersyn: 'Port 3500 honors Burroughs 3500 from Chile\'s Project Cybersyn (1973)',
       securityLevel: this.config.security.level
     });
+    
+    if (this.config.security.level === 'paranoid' && !this.authenticator.isConfigured) {
+      this.logger.warn('Paranoid security level without authToken or tokens: all clients will be refused');
+    }
   }
 
   async start(): Promise<void> {
@@ -101,6 +129,11 @@ export class NetworkServer extends EventEmitter {
         await this.startWebSocketServer();
       }
       
+      // Pick up renewed certificates without dropping connections
+      if (this.config.network.ssl.enabled) {
+        this.watchCertificates();
+      }
+      
       // Start metrics collection
       this.startMetricsCollection();
       
@@ -117,15 +150,53 @@ export class NetworkServer extends EventEmitter {
   }
 
   private async startTcpServer(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.tcpServer = net.createServer((socket) => {
+    const ssl = this.config.network.ssl;
+    
+    if (ssl.enabled) {
+      if (ssl.requestClientCert && !ssl.ca) {
+        throw new Error('ssl.requestClientCert requires ssl.ca');
+      }
+      
+      const server = tls.createServer({
+        ...this.loadSecureContextOptions(),
+        requestCert: ssl.requestClientCert,
+        // Without mutual TLS there is no client certificate to reject
+        rejectUnauthorized: ssl.requestClientCert && ssl.rejectUnauthorized
+      }, (socket) => {
         this.handleTcpConnection(socket);
       });
       
-      this.tcpServer.listen(this.config.network.tcp.port, this.config.network.tcp.host, () => {
+      server.on('tlsClientError', (error, socket) => {
+        this.logger.warn('TLS handshake failed', {
+          address: socket.remoteAddress,
+          error: error.message
+        });
+      });
+      
+      this.tcpServer = server;
+    } else {
+      this.tcpServer = net.createServer((socket) => {
+        this.handleTcpConnection(socket);
+      });
+    }
+    
+    // Refuse blacklisted and disallowed addresses before spending a handshake on them
+    if (ssl.enabled) {
+      this.tcpServer.on('connection', (socket: net.Socket) => {
+        if (!this.isConnectionAllowed(socket.remoteAddress || 'unknown')) {
+          this.logger.warn('Connection rejected from blacklisted IP', { address: socket.remoteAddress });
+          socket.destroy();
+        }
+      });
+    }
+    
+    return new Promise((resolve, reject) => {
+      this.tcpServer!.listen(this.config.network.tcp.port, this.config.network.tcp.host, () => {
         this.logger.info('🇨🇱 TCP server listening on Cybersyn tribute port', {
           port: this.config.network.tcp.port,
           host: this.config.network.tcp.host,
+          tls: ssl.enabled ? ssl.minVersion : false,
+          mutualTls: ssl.enabled && ssl.requestClientCert,
           historical: 'Honoring Burroughs 3500 mainframe from Chile\'s Project Cybersyn',
           year: '1973',
           architect: 'Stafford Beer'
@@ -133,20 +204,36 @@ export class NetworkServer extends EventEmitter {
         resolve();
       });
       
-      this.tcpServer.on('error', (error) => {
+      this.tcpServer!.on('error', (error) => {
         this.logger.error('TCP server error:', error);
         reject(error);
       });
       
       // Configure keep-alive
       if (this.config.network.tcp.keepAlive) {
-        this.tcpServer.on('connection', (socket) => {
+        this.tcpServer!.on('connection', (socket: net.Socket) => {
           socket.setKeepAlive(true, this.config.network.tcp.keepAliveDelay);
         });
       }
     });
   }
 
+  /**
+   * Close the TCP listener and drop the clients connected through it
+   */
+  private async stopTcpServer(): Promise<void> {
+    for (const [clientId, socket] of Array.from(this.tcpSockets)) {
+      socket.destroy();
+      this.handleClientDisconnect(clientId);
+    }
+    
+    const server = this.tcpServer;
+    this.tcpServer = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
   private async startUdpServer(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.udpServer = dgram.createSocket('udp4');
@@ -173,15 +260,18 @@ export class NetworkServer extends EventEmitter {
     });
   }
 
+  private async stopUdpServer(): Promise<void> {
+    const server = this.udpServer;
+    this.udpServer = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
   private async startWebSocketServer(): Promise<void> {
     // Create HTTP/HTTPS server first
     if (this.config.network.ssl.enabled) {
-      const options = {
-        cert: fs.readFileSync(this.config.network.ssl.cert!),
-        key: fs.readFileSync(this.config.network.ssl.key!),
-        ca: this.config.network.ssl.ca ? fs.readFileSync(this.config.network.ssl.ca) : undefined
-      };
-      this.httpServer = https.createServer(options);
+      this.httpServer = https.createServer(this.loadSecureContextOptions());
     } else {
       this.httpServer = http.createServer();
     }
@@ -209,6 +299,156 @@ export class NetworkServer extends EventEmitter {
     });
   }
 
+  /**
+   * Close the WebSocket listener and drop its clients
+   */
+  private async stopWebSocketServer(): Promise<void> {
+    for (const [clientId, ws] of Array.from(this.wsConnections)) {
+      ws.terminate();
+      this.handleClientDisconnect(clientId);
+    }
+    
+    this.wsServer?.close();
+    this.wsServer = undefined;
+    
+    const server = this.httpServer;
+    this.httpServer = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Apply a reloaded configuration. Security settings (tokens, allowedIPs,
+   * rate limits) take effect in place; a listener is only restarted when its
+   * own settings or the TLS settings it uses changed, which drops the clients
+   * connected through it. Returns the restarted listeners.
+   */
+  public async updateConfig(config: CyrealConfig): Promise<NetworkListener[]> {
+    const previous = this.config;
+    const changed = (section: keyof CyrealConfig['network']) =>
+      JSON.stringify(previous.network[section]) !== JSON.stringify(config.network[section]);
+    
+    const ssl = config.network.ssl;
+    const sslChanged = changed('ssl') && (previous.network.ssl.enabled || ssl.enabled);
+    
+    // Fail before anything is torn down if the new certificate cannot be used
+    if (ssl.enabled && changed('ssl')) {
+      tls.createSecureContext(this.loadSecureContextOptions(ssl));
+    }
+    
+    this.config = config;
+    this.authenticator = new ClientAuthenticator(config.security);
+    
+    if (!config.security.rateLimit.enabled) {
+      this.rateLimiter.clear();
+    }
+    
+    const listeners: NetworkListener[] = [];
+    if (changed('tcp') || sslChanged) listeners.push('tcp');
+    if (changed('udp')) listeners.push('udp');
+    if (changed('websocket') || sslChanged) listeners.push('websocket');
+    
+    try {
+      for (const listener of listeners) {
+        await this.restartListener(listener);
+      }
+    } catch (error) {
+      // Put the previous listeners back, e.g. when the new port is in use
+      this.logger.error('Listener restart failed, restoring previous network configuration', { error });
+      this.config = previous;
+      this.authenticator = new ClientAuthenticator(previous.security);
+      for (const listener of listeners) {
+        await this.restartListener(listener).catch(() => undefined);
+      }
+      throw error;
+    }
+    
+    if (changed('ssl')) {
+      this.unwatchCertificates();
+      if (ssl.enabled) {
+        this.watchCertificates();
+      }
+    }
+    
+    this.reauthorizeClients();
+    
+    const restarted = listeners.filter(listener =>
+      config.network[listener].enabled || previous.network[listener].enabled
+    );
+    if (restarted.length > 0) {
+      this.logger.info('Network listeners restarted for new configuration', { listeners: restarted });
+    }
+    
+    return restarted;
+  }
+
+  /**
+   * Hold connected clients to the current allowedIPs, credentials and
+   * security level: revoked credentials and disallowed addresses are
+   * disconnected, everyone else gets the scopes the settings now grant
+   */
+  private reauthorizeClients(): void {
+    for (const client of Array.from(this.clients.values())) {
+      if (!this.isConnectionAllowed(client.address)) {
+        this.logger.warn('Disconnecting client no longer allowed by configuration', {
+          clientId: client.id,
+          address: client.address
+        });
+        client.permissions = [];
+        this.disconnectClient(client.id, 'Connection not allowed');
+        continue;
+      }
+      
+      const credential = this.clientCredentials.get(client.id);
+      let permissions = this.rejectedCertificates.has(client.id) ? [] : this.authenticator.getInitialPermissions();
+      if (credential) {
+        const result = credential.certificate
+          ? this.authenticator.authenticateCertificate(credential.certificate)
+          : this.authenticator.authenticate(credential.token);
+        
+        if (!result.success) {
+          this.logger.warn('Disconnecting client whose credential was revoked', {
+            clientId: client.id,
+            address: client.address
+          });
+          client.permissions = [];
+          this.disconnectClient(client.id, 'Credential revoked');
+          continue;
+        }
+        permissions = result.permissions;
+      }
+      
+      if (JSON.stringify(permissions) !== JSON.stringify(client.permissions)) {
+        this.logger.info('Client permissions changed by configuration', {
+          clientId: client.id,
+          from: client.permissions,
+          to: permissions
+        });
+        client.permissions = permissions;
+        client.authenticated = !!credential || this.config.security.level === 'debug';
+        this.emit('client:reauthorized', { clientId: client.id, client });
+      }
+    }
+  }
+
+  private async restartListener(listener: NetworkListener): Promise<void> {
+    switch (listener) {
+      case 'tcp':
+        await this.stopTcpServer();
+        if (this.config.network.tcp.enabled) await this.startTcpServer();
+        break;
+      case 'udp':
+        await this.stopUdpServer();
+        if (this.config.network.udp.enabled) await this.startUdpServer();
+        break;
+      case 'websocket':
+        await this.stopWebSocketServer();
+        if (this.config.network.websocket.enabled) await this.startWebSocketServer();
+        break;
+    }
+  }
+
   private handleTcpConnection(socket: net.Socket): void {
     const clientId = `tcp_${socket.remoteAddress}_${socket.remotePort}_${Date.now()}`;
     const clientInfo: ClientInfo = {
@@ -217,8 +457,8 @@ export class NetworkServer extends EventEmitter {
       port: socket.remotePort || 0,
       protocol: 'tcp',
       connectedAt: new Date(),
-      authenticated: false,
-      permissions: []
+      authenticated: this.config.security.level === 'debug',
+      permissions: this.authenticator.getInitialPermissions()
     };
     
     // Security checks
@@ -234,8 +474,18 @@ export class NetworkServer extends EventEmitter {
       return;
     }
     
+    if (socket instanceof tls.TLSSocket && this.config.network.ssl.requestClientCert) {
+      this.applyClientCertificate(socket, clientInfo);
+    }
+    
+    const framer = new MessageFramer(
+      this.config.network.tcp.framing,
+      this.config.network.tcp.maxMessageSize
+    );
+    
     this.clients.set(clientId, clientInfo);
     this.tcpSockets.set(clientId, socket);
+    this.tcpFramers.set(clientId, framer);
     this.metrics.tcpConnections++;
     
     this.logger.info('New TCP connection established', {
@@ -246,16 +496,20 @@ export class NetworkServer extends EventEmitter {
     });
     
     // Send welcome message with Cybersyn context
-    const welcomeMessage = JSON.stringify({
+    const welcomeMessage = framer.encode(JSON.stringify({
       type: 'welcome',
       message: 'Welcome to Cyreal - Cybernetic Serial Port Bridge',
       port: this.config.network.tcp.port,
       tribute: 'Port 3500 honors the Burroughs 3500 mainframe from Chile\'s Project Cybersyn (1973)',
       architect: 'Stafford Beer',
       capabilities: ['serial-bridge', 'vsm-governance', 'real-time-adaptation'],
+      framing: framer.mode,
+      maxMessageSize: this.config.network.tcp.maxMessageSize,
       securityLevel: this.config.security.level,
+      tls: socket instanceof tls.TLSSocket,
+      authRequired: clientInfo.permissions.length === 0,
       timestamp: new Date().toISOString()
-    }) + '\n';
+    }));
     
     socket.write(welcomeMessage);
     
@@ -277,6 +531,130 @@ export class NetworkServer extends EventEmitter {
     this.emit('client:connected', { clientId, clientInfo, protocol: 'tcp' });
   }
 
+  /**
+   * Grant the scopes mapped to a verified client certificate; clients
+   * without one keep their initial scopes, clients whose certificate is
+   * untrusted or unmapped get none. Both can still use the auth command
+   */
+  private applyClientCertificate(socket: tls.TLSSocket, clientInfo: ClientInfo): void {
+    const certificate = socket.getPeerCertificate();
+    if (!certificate || !certificate.fingerprint256) {
+      return;
+    }
+    
+    if (!socket.authorized) {
+      this.logger.warn('Client certificate not trusted', {
+        address: clientInfo.address,
+        reason: socket.authorizationError?.toString()
+      });
+      this.rejectCertificate(clientInfo);
+      return;
+    }
+    
+    const subject = Array.isArray(certificate.subject?.CN) ? certificate.subject.CN[0] : certificate.subject?.CN;
+    const result = this.authenticator.authenticateCertificate(certificate);
+    
+    clientInfo.certificate = {
+      subject,
+      fingerprint: certificate.fingerprint256,
+      credential: result.name
+    };
+    
+    if (!result.success) {
+      this.logger.warn('Client certificate has no mapped permissions', {
+        address: clientInfo.address,
+        subject,
+        fingerprint: certificate.fingerprint256
+      });
+      this.rejectCertificate(clientInfo);
+      return;
+    }
+    
+    clientInfo.authenticated = true;
+    clientInfo.permissions = result.permissions;
+    this.clientCredentials.set(clientInfo.id, { certificate });
+    
+    this.logger.info('Client authenticated by certificate', {
+      address: clientInfo.address,
+      subject,
+      credential: result.name,
+      permissions: result.permissions
+    });
+  }
+
+  private rejectCertificate(clientInfo: ClientInfo): void {
+    clientInfo.permissions = [];
+    this.rejectedCertificates.add(clientInfo.id);
+  }
+
+  /**
+   * Certificate, key, CA and protocol settings shared by the TLS listeners
+   */
+  private loadSecureContextOptions(ssl = this.config.network.ssl): tls.SecureContextOptions {
+    return {
+      cert: fs.readFileSync(ssl.cert!),
+      key: fs.readFileSync(ssl.key!),
+      ca: ssl.ca ? fs.readFileSync(ssl.ca) : undefined,
+      minVersion: ssl.minVersion,
+      ciphers: ssl.ciphers
+    };
+  }
+
+  /**
+   * Poll the certificate files; polling also follows renewals that replace
+   * the file by rename, which fs.watch loses track of
+   */
+  private watchCertificates(): void {
+    const ssl = this.config.network.ssl;
+    const files = [ssl.cert, ssl.key, ssl.ca].filter((file): file is string => !!file);
+    
+    for (const file of files) {
+      fs.watchFile(file, { interval: CERTIFICATE_POLL_INTERVAL }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs || current.ino !== previous.ino) {
+          // Certificate and key are usually replaced together; reload once
+          clearTimeout(this.certificateReloadTimer);
+          this.certificateReloadTimer = setTimeout(() => this.reloadCertificates(), 1000);
+        }
+      });
+      this.watchedCertificates.push(file);
+    }
+  }
+
+  private unwatchCertificates(): void {
+    for (const file of this.watchedCertificates) {
+      fs.unwatchFile(file);
+    }
+    this.watchedCertificates = [];
+    clearTimeout(this.certificateReloadTimer);
+  }
+
+  /**
+   * Swap in the current certificate files; established connections keep the
+   * context they negotiated, new handshakes use the new one
+   */
+  public reloadCertificates(): boolean {
+    let options: tls.SecureContextOptions;
+    try {
+      options = this.loadSecureContextOptions();
+      // Fails on a mismatched or half-written key/certificate pair
+      tls.createSecureContext(options);
+    } catch (error: any) {
+      this.logger.error('Certificate reload failed, keeping current certificate', { error: error.message });
+      return false;
+    }
+    
+    if (this.tcpServer instanceof tls.Server) {
+      this.tcpServer.setSecureContext(options);
+    }
+    if (this.httpServer instanceof https.Server) {
+      this.httpServer.setSecureContext(options);
+    }
+    
+    this.logger.info('🔐 TLS certificates reloaded', { cert: this.config.network.ssl.cert });
+    this.emit('tls:reloaded');
+    return true;
+  }
+
   private handleUdpMessage(message: Buffer, rinfo: dgram.RemoteInfo): void {
     const clientId = `udp_${rinfo.address}_${rinfo.port}`;
     
@@ -296,10 +674,32 @@ export class NetworkServer extends EventEmitter {
     
     try {
       const data = JSON.parse(message.toString());
+      
+      // UDP is connectionless, so credentials travel with each datagram
+      const permissions = data.token !== undefined
+        ? this.authenticator.authenticate(data.token).permissions
+        : this.authenticator.getInitialPermissions();
+      
+      if (permissions.length === 0) {
+        this.logger.warn('Unauthenticated UDP message rejected', { clientId });
+        return;
+      }
+      
+      const clientInfo: ClientInfo = {
+        id: clientId,
+        address: rinfo.address,
+        port: rinfo.port,
+        protocol: 'udp',
+        connectedAt: new Date(),
+        authenticated: data.token !== undefined,
+        permissions
+      };
+      
       this.emit('data:received', { 
         clientId, 
         data, 
         protocol: 'udp',
+        client: clientInfo,
         address: rinfo.address,
         port: rinfo.port
       });
@@ -320,8 +720,8 @@ export class NetworkServer extends EventEmitter {
       port: request.socket.remotePort || 0,
       protocol: 'websocket',
       connectedAt: new Date(),
-      authenticated: false,
-      permissions: []
+      authenticated: this.config.security.level === 'debug',
+      permissions: this.authenticator.getInitialPermissions()
     };
     
     // Security checks
@@ -345,6 +745,7 @@ export class NetworkServer extends EventEmitter {
       type: 'welcome',
       message: 'WebSocket connection to Cyreal established',
       clientId,
+      authRequired: clientInfo.permissions.length === 0,
       timestamp: new Date().toISOString()
     }));
     
@@ -367,25 +768,139 @@ export class NetworkServer extends EventEmitter {
   private handleTcpData(clientId: string, data: Buffer): void {
     this.metrics.bytesReceived += data.length;
     
-    try {
-      const message = data.toString().trim();
-      if (message) {
-        const parsed = JSON.parse(message);
-        this.emit('data:received', { clientId, data: parsed, protocol: 'tcp' });
+    const framer = this.tcpFramers.get(clientId);
+    if (!framer) {
+      return;
+    }
+    
+    // A segment may hold part of a message, or several pipelined ones
+    const result = framer.push(data);
+    
+    for (const frame of result.frames) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(frame);
+      } catch (error) {
+        this.logger.warn('Invalid TCP message format', { clientId, error });
+        this.sendToClient(clientId, {
+          type: 'error',
+          message: 'Invalid JSON message',
+          timestamp: new Date().toISOString()
+        });
+        continue;
+      }
+      
+      this.dispatchMessage(clientId, parsed);
+    }
+    
+    if (result.error) {
+      this.logger.warn('TCP framing error', { clientId, error: result.error, fatal: !!result.fatal });
+      this.sendToClient(clientId, {
+        type: 'error',
+        message: result.error,
+        timestamp: new Date().toISOString()
+      });
+      
+      if (result.fatal) {
+        this.tcpSockets.get(clientId)?.end();
       }
-    } catch (error) {
-      this.logger.warn('Invalid TCP message format', { clientId, error });
     }
   }
 
   private handleWebSocketData(clientId: string, data: Buffer): void {
     this.metrics.bytesReceived += data.length;
     
+    let parsed: any;
     try {
-      const parsed = JSON.parse(data.toString());
-      this.emit('data:received', { clientId, data: parsed, protocol: 'websocket' });
+      parsed = JSON.parse(data.toString());
     } catch (error) {
       this.logger.warn('Invalid WebSocket message format', { clientId, error });
+      return;
+    }
+    
+    this.dispatchMessage(clientId, parsed);
+  }
+
+  /**
+   * Handle the auth handshake and hold back commands from clients without access
+   */
+  private dispatchMessage(clientId: string, message: any): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    
+    if (message?.command === 'auth') {
+      this.handleAuth(client, message.params?.token);
+      return;
+    }
+    
+    if (client.permissions.length === 0) {
+      this.logger.warn('Command rejected from unauthenticated client', {
+        clientId,
+        command: message?.command
+      });
+      this.sendToClient(clientId, {
+        type: 'error',
+        message: 'Authentication required',
+        ...(message?.requestId !== undefined && { requestId: message.requestId }),
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    
+    this.emit('data:received', { clientId, data: message, protocol: client.protocol, client });
+  }
+
+  private handleAuth(client: ClientInfo, token: unknown): void {
+    const result = this.authenticator.authenticate(token);
+    
+    if (result.success) {
+      client.authenticated = true;
+      client.permissions = result.permissions;
+      this.clientCredentials.set(client.id, { token: token as string });
+      this.authFailures.delete(client.id);
+      
+      this.logger.info('Client authenticated', {
+        clientId: client.id,
+        address: client.address,
+        credential: result.name,
+        permissions: result.permissions
+      });
+      
+      this.sendToClient(client.id, {
+        type: 'auth_result',
+        success: true,
+        permissions: result.permissions,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    
+    const failures = (this.authFailures.get(client.id) || 0) + 1;
+    this.authFailures.set(client.id, failures);
+    
+    this.logger.warn('Client authentication failed', {
+      clientId: client.id,
+      address: client.address,
+      reason: result.reason,
+      failures
+    });
+    
+    this.sendToClient(client.id, {
+      type: 'auth_result',
+      success: false,
+      reason: result.reason,
+      timestamp: new Date().toISOString()
+    });
+    
+    if (failures >= this.config.security.maxAuthFailures) {
+      this.logger.warn('Too many authentication failures, blacklisting address', {
+        address: client.address,
+        duration: this.config.security.rateLimit.blacklistDuration
+      });
+      this.blacklistAddress(client.address);
+      this.disconnectClient(client.id);
     }
   }
 
@@ -400,27 +915,41 @@ export class NetworkServer extends EventEmitter {
       
       this.clients.delete(clientId);
       this.tcpSockets.delete(clientId);
+      this.tcpFramers.delete(clientId);
+      this.authFailures.delete(clientId);
+      this.clientCredentials.delete(clientId);
+      this.rejectedCertificates.delete(clientId);
       this.wsConnections.delete(clientId);
       
       this.emit('client:disconnected', { clientId, client });
     }
   }
 
-  private isConnectionAllowed(address: string): boolean {
+  /**
+   * Check an address against the blacklist and allowedIPs
+   */
+  public isConnectionAllowed(address: string): boolean {
     // Check blacklist
     if (this.blacklist.has(address)) {
       return false;
     }
     
-    // Check whitelist if configured
-    if (this.config.security.allowedIPs.length > 0) {
-      return this.config.security.allowedIPs.some(allowedIP => {
-        if (allowedIP.includes('/')) {
-          // CIDR notation support would go here
-          return false; // Simplified for now
+    // Entries are IPs or CIDR blocks; a leading "!" denies instead of allows
+    const allowed: string[] = [];
+    for (const entry of this.config.security.allowedIPs) {
+      if (entry.startsWith('!')) {
+        // Deny entries take precedence over any allow entry
+        if (this.addressValidator.matchesAddressPattern(address, entry.slice(1))) {
+          return false;
         }
-        return allowedIP === address;
-      });
+      } else {
+        allowed.push(entry);
+      }
+    }
+    
+    // Check whitelist if configured; a deny-only list allows everything else
+    if (allowed.length > 0) {
+      return allowed.some(pattern => this.addressValidator.matchesAddressPattern(address, pattern));
     }
     
     return true;
@@ -443,12 +972,7 @@ export class NetworkServer extends EventEmitter {
     }
     
     if (clientLimit.requests >= limit) {
-      // Add to blacklist for configured duration
-      this.blacklist.add(address);
-      setTimeout(() => {
-        this.blacklist.delete(address);
-      }, this.config.security.rateLimit.blacklistDuration);
-      
+      this.blacklistAddress(address);
       return false;
     }
     
@@ -456,6 +980,28 @@ export class NetworkServer extends EventEmitter {
     return true;
   }
 
+  /**
+   * Add an address to the blacklist for the configured duration
+   */
+  private blacklistAddress(address: string): void {
+    this.blacklist.add(address);
+    setTimeout(() => {
+      this.blacklist.delete(address);
+    }, this.config.security.rateLimit.blacklistDuration);
+  }
+
+  private disconnectClient(clientId: string, reason: string = 'Authentication failed'): void {
+    const socket = this.tcpSockets.get(clientId);
+    if (socket) {
+      socket.end();
+    }
+    
+    const ws = this.wsConnections.get(clientId);
+    if (ws) {
+      ws.close(1008, reason);
+    }
+  }
+
   private startMetricsCollection(): void {
     setInterval(() => {
       this.metrics.uptime = Date.now() - this.metrics.startTime.getTime();
@@ -477,8 +1023,9 @@ export class NetworkServer extends EventEmitter {
       switch (client.protocol) {
         case 'tcp':
           const socket = this.tcpSockets.get(clientId);
-          if (socket && !socket.destroyed) {
-            socket.write(message + '\n');
+          const framer = this.tcpFramers.get(clientId);
+          if (socket && framer && !socket.destroyed) {
+            socket.write(framer.encode(message));
             this.metrics.bytesTransmitted += messageBytes;
             return true;
           }
@@ -518,6 +1065,10 @@ export class NetworkServer extends EventEmitter {
     return { ...this.metrics };
   }
 
+  public getClient(clientId: string): ClientInfo | undefined {
+    return this.clients.get(clientId);
+  }
+
   public getClients(): ClientInfo[] {
     return Array.from(this.clients.values());
   }
@@ -525,33 +1076,18 @@ export class NetworkServer extends EventEmitter {
   public async stop(): Promise<void> {
     this.logger.info('Stopping network services');
     
-    // Close all client connections
-    for (const [clientId] of this.clients) {
-      this.handleClientDisconnect(clientId);
-    }
+    this.unwatchCertificates();
     
-    // Close servers
-    const closePromises: Promise<void>[] = [];
+    // Close servers along with their client connections
+    await Promise.all([
+      this.stopTcpServer(),
+      this.stopUdpServer(),
+      this.stopWebSocketServer()
+    ]);
     
-    if (this.tcpServer) {
-      closePromises.push(new Promise(resolve => {
-        this.tcpServer!.close(() => resolve());
-      }));
-    }
-    
-    if (this.udpServer) {
-      closePromises.push(new Promise(resolve => {
-        this.udpServer!.close(() => resolve());
-      }));
-    }
-    
-    if (this.httpServer) {
-      closePromises.push(new Promise(resolve => {
-        this.httpServer!.close(() => resolve());
-      }));
+    for (const [clientId] of this.clients) {
+      this.handleClientDisconnect(clientId);
     }
-    
-    await Promise.all(closePromises);
     this.logger.info('Network services stopped');
   }
 }
\ No newline at end of file
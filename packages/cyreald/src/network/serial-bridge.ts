@@ -0,0 +1,624 @@
+/**
+ * Serial Bridge - Raw TCP-to-Serial Listener
+ *
+ * Gives a single serial port its own TCP socket, piping bytes in both
+ * directions without the JSON command protocol. This is what legacy SCADA
+ * and terminal tools expect from a terminal server.
+ *
+ * With rfc2217 enabled the stream is Telnet-encoded and clients may use the
+ * COM-PORT-OPTION (RFC 2217) to change baud rate, framing and control lines
+ * of the remote port.
+ */
+
+import * as net from 'net';
+import { EventEmitter } from 'events';
+import * as winston from 'winston';
+import { PortOptions } from '@cyreal/core';
+import { SerialPortController } from '../governors/serial-port-controller';
+
+export interface SerialBridgeOptions {
+  port: number;
+  host: string;
+  rfc2217: boolean;
+  maxClients: number;
+}
+
+export interface BridgeClientInfo {
+  id: string;
+  address: string;
+  port: number;
+  connectedAt: Date;
+  bytesToSerial: number;
+  bytesFromSerial: number;
+}
+
+interface BridgeClient extends BridgeClientInfo {
+  socket: net.Socket;
+  telnet?: TelnetCodec;
+  localOptions: Set<number>;
+  remoteOptions: Set<number>;
+  suspended: boolean;
+  commandQueue: Promise<void>;
+  lineStateMask: number;
+  modemStateMask: number;
+}
+
+// Telnet commands (RFC 854)
+const TELNET = {
+  SE: 240,
+  SB: 250,
+  WILL: 251,
+  WONT: 252,
+  DO: 253,
+  DONT: 254,
+  IAC: 255
+} as const;
+
+// Telnet options we are willing to negotiate
+const TELNET_OPTION = {
+  BINARY: 0,
+  SGA: 3,
+  COM_PORT: 44
+} as const;
+
+// COM-PORT-OPTION client commands (RFC 2217); server replies add 100
+const COM_PORT = {
+  SIGNATURE: 0,
+  SET_BAUDRATE: 1,
+  SET_DATASIZE: 2,
+  SET_PARITY: 3,
+  SET_STOPSIZE: 4,
+  SET_CONTROL: 5,
+  NOTIFY_LINESTATE: 6,
+  NOTIFY_MODEMSTATE: 7,
+  FLOWCONTROL_SUSPEND: 8,
+  FLOWCONTROL_RESUME: 9,
+  SET_LINESTATE_MASK: 10,
+  SET_MODEMSTATE_MASK: 11,
+  PURGE_DATA: 12
+} as const;
+
+const SERVER_REPLY_OFFSET = 100;
+const MAX_SUBNEGOTIATION_LENGTH = 64;
+
+const PARITY_CODES: NonNullable<PortOptions['parity']>[] = ['none', 'odd', 'even', 'mark', 'space'];
+const STOPSIZE_CODES: Record<number, NonNullable<PortOptions['stopBits']>> = { 1: 1, 2: 2, 3: 1.5 };
+const FLOW_CONTROL_CODES: Record<number, NonNullable<PortOptions['flowControl']>> = {
+  1: 'none',
+  2: 'software',
+  3: 'hardware'
+};
+
+type TelnetState = 'data' | 'iac' | 'option' | 'subnegotiation' | 'subnegotiation_iac';
+
+/**
+ * Incremental Telnet decoder that strips commands out of the data stream
+ */
+class TelnetCodec {
+  private state: TelnetState = 'data';
+  private verb = 0;
+  private subnegotiation: number[] = [];
+
+  constructor(
+    private onNegotiate: (verb: number, option: number) => void,
+    private onSubnegotiation: (payload: Buffer) => void
+  ) {}
+
+  decode(chunk: Buffer): Buffer {
+    const data: number[] = [];
+
+    for (const byte of chunk) {
+      switch (this.state) {
+        case 'data':
+          if (byte === TELNET.IAC) {
+            this.state = 'iac';
+          } else {
+            data.push(byte);
+          }
+          break;
+
+        case 'iac':
+          if (byte === TELNET.IAC) {
+            data.push(byte);
+            this.state = 'data';
+          } else if (byte >= TELNET.WILL && byte <= TELNET.DONT) {
+            this.verb = byte;
+            this.state = 'option';
+          } else if (byte === TELNET.SB) {
+            this.subnegotiation = [];
+            this.state = 'subnegotiation';
+          } else {
+            // NOP, GA and friends carry no payload
+            this.state = 'data';
+          }
+          break;
+
+        case 'option':
+          this.onNegotiate(this.verb, byte);
+          this.state = 'data';
+          break;
+
+        case 'subnegotiation':
+          if (byte === TELNET.IAC) {
+            this.state = 'subnegotiation_iac';
+          } else if (this.subnegotiation.length < MAX_SUBNEGOTIATION_LENGTH) {
+            this.subnegotiation.push(byte);
+          }
+          break;
+
+        case 'subnegotiation_iac':
+          if (byte === TELNET.SE) {
+            this.onSubnegotiation(Buffer.from(this.subnegotiation));
+            this.state = 'data';
+          } else {
+            // Escaped IAC inside the subnegotiation payload
+            if (this.subnegotiation.length < MAX_SUBNEGOTIATION_LENGTH) {
+              this.subnegotiation.push(byte);
+            }
+            this.state = 'subnegotiation';
+          }
+          break;
+      }
+    }
+
+    return Buffer.from(data);
+  }
+
+  /**
+   * Escape IAC bytes for transmission inside a Telnet stream
+   */
+  static escape(data: Buffer): Buffer {
+    if (!data.includes(TELNET.IAC)) {
+      return data;
+    }
+
+    const escaped: number[] = [];
+    for (const byte of data) {
+      escaped.push(byte);
+      if (byte === TELNET.IAC) {
+        escaped.push(TELNET.IAC);
+      }
+    }
+    return Buffer.from(escaped);
+  }
+}
+
+export class SerialBridge extends EventEmitter {
+  private server?: net.Server;
+  private clients: Map<string, BridgeClient> = new Map();
+  private signals = { dtr: true, rts: true, brk: false };
+  private dataHandler = (event: { data: Buffer }) => this.forwardToClients(event.data);
+
+  constructor(
+    private controller: SerialPortController,
+    private options: SerialBridgeOptions,
+    private logger: winston.Logger,
+    private allowConnection: (address: string) => boolean = () => true
+  ) {
+    super();
+  }
+
+  get portId(): string {
+    return this.controller.id;
+  }
+
+  async start(): Promise<void> {
+    // Raw bytes straight from the controller, independent of read() framing
+    this.controller.on('data:received', this.dataHandler);
+
+    return new Promise((resolve, reject) => {
+      this.server = net.createServer((socket) => {
+        this.handleConnection(socket);
+      });
+
+      this.server.once('error', (error) => {
+        this.logger.error('Serial bridge error:', error);
+        this.controller.off('data:received', this.dataHandler);
+        reject(error);
+      });
+
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.logger.info('Serial bridge listening', {
+          portId: this.portId,
+          physicalPath: this.controller.physicalPath,
+          port: this.options.port,
+          host: this.options.host,
+          rfc2217: this.options.rfc2217
+        });
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.controller.off('data:received', this.dataHandler);
+
+    for (const client of this.clients.values()) {
+      client.socket.destroy();
+    }
+    this.clients.clear();
+
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = undefined;
+      this.logger.info('Serial bridge stopped', { portId: this.portId });
+    }
+  }
+
+  getClients(): BridgeClientInfo[] {
+    return Array.from(this.clients.values()).map(client => ({
+      id: client.id,
+      address: client.address,
+      port: client.port,
+      connectedAt: client.connectedAt,
+      bytesToSerial: client.bytesToSerial,
+      bytesFromSerial: client.bytesFromSerial
+    }));
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const address = socket.remoteAddress || 'unknown';
+
+    if (!this.allowConnection(address)) {
+      this.logger.warn('Serial bridge connection rejected', { portId: this.portId, address });
+      socket.destroy();
+      return;
+    }
+
+    if (this.clients.size >= this.options.maxClients) {
+      this.logger.warn('Serial bridge connection rejected: port busy', {
+        portId: this.portId,
+        address,
+        maxClients: this.options.maxClients
+      });
+      socket.destroy();
+      return;
+    }
+
+    const client: BridgeClient = {
+      id: `bridge_${this.portId}_${address}_${socket.remotePort}_${Date.now()}`,
+      address,
+      port: socket.remotePort || 0,
+      connectedAt: new Date(),
+      bytesToSerial: 0,
+      bytesFromSerial: 0,
+      socket,
+      localOptions: new Set(),
+      remoteOptions: new Set(),
+      suspended: false,
+      commandQueue: Promise.resolve(),
+      lineStateMask: 0,
+      modemStateMask: 0
+    };
+
+    socket.setNoDelay(true);
+    this.clients.set(client.id, client);
+
+    if (this.options.rfc2217) {
+      client.telnet = new TelnetCodec(
+        (verb, option) => this.handleNegotiation(client, verb, option),
+        (payload) => {
+          // Apply commands in order; several may arrive in one segment
+          client.commandQueue = client.commandQueue
+            .then(() => this.handleComPortCommand(client, payload))
+            .catch(error => {
+              this.logger.warn('RFC 2217 command failed', { portId: this.portId, error });
+            });
+        }
+      );
+      this.startNegotiation(client);
+    }
+
+    this.logger.info('Serial bridge client connected', {
+      portId: this.portId,
+      clientId: client.id,
+      address
+    });
+
+    socket.on('data', (data) => {
+      this.handleClientData(client, data);
+    });
+
+    socket.on('close', () => {
+      this.clients.delete(client.id);
+      this.logger.info('Serial bridge client disconnected', {
+        portId: this.portId,
+        clientId: client.id,
+        bytesToSerial: client.bytesToSerial,
+        bytesFromSerial: client.bytesFromSerial
+      });
+      this.emit('client:disconnected', { portId: this.portId, clientId: client.id });
+    });
+
+    socket.on('error', (error) => {
+      this.logger.warn('Serial bridge socket error', { portId: this.portId, clientId: client.id, error });
+    });
+
+    this.emit('client:connected', { portId: this.portId, clientId: client.id, address });
+  }
+
+  private handleClientData(client: BridgeClient, chunk: Buffer): void {
+    const data = client.telnet ? client.telnet.decode(chunk) : chunk;
+    if (data.length === 0) {
+      return;
+    }
+
+    // Hold further input until the serial side has drained this chunk
+    client.socket.pause();
+    this.controller.write(data)
+      .then(() => {
+        client.bytesToSerial += data.length;
+      })
+      .catch(error => {
+        this.logger.warn('Serial bridge write failed', {
+          portId: this.portId,
+          clientId: client.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      })
+      .finally(() => {
+        if (!client.socket.destroyed) {
+          client.socket.resume();
+        }
+      });
+  }
+
+  private forwardToClients(data: Buffer): void {
+    for (const client of this.clients.values()) {
+      if (client.suspended || client.socket.destroyed) {
+        continue;
+      }
+
+      client.socket.write(client.telnet ? TelnetCodec.escape(data) : data);
+      client.bytesFromSerial += data.length;
+    }
+  }
+
+  /**
+   * Offer binary, full-duplex operation; the client initiates COM-PORT-OPTION
+   */
+  private startNegotiation(client: BridgeClient): void {
+    for (const option of [TELNET_OPTION.BINARY, TELNET_OPTION.SGA]) {
+      client.localOptions.add(option);
+      client.remoteOptions.add(option);
+      this.sendTelnet(client, TELNET.WILL, option);
+      this.sendTelnet(client, TELNET.DO, option);
+    }
+  }
+
+  private handleNegotiation(client: BridgeClient, verb: number, option: number): void {
+    const supported = option === TELNET_OPTION.BINARY ||
+                      option === TELNET_OPTION.SGA ||
+                      option === TELNET_OPTION.COM_PORT;
+
+    // Only answer state changes, otherwise two peers can loop forever
+    switch (verb) {
+      case TELNET.WILL:
+        if (!client.remoteOptions.has(option)) {
+          if (supported) {
+            client.remoteOptions.add(option);
+            this.sendTelnet(client, TELNET.DO, option);
+          } else {
+            this.sendTelnet(client, TELNET.DONT, option);
+          }
+        }
+        break;
+
+      case TELNET.WONT:
+        if (client.remoteOptions.delete(option)) {
+          this.sendTelnet(client, TELNET.DONT, option);
+        }
+        break;
+
+      case TELNET.DO:
+        if (!client.localOptions.has(option)) {
+          // COM-PORT-OPTION is only ever performed by the client side
+          if (supported && option !== TELNET_OPTION.COM_PORT) {
+            client.localOptions.add(option);
+            this.sendTelnet(client, TELNET.WILL, option);
+          } else {
+            this.sendTelnet(client, TELNET.WONT, option);
+          }
+        }
+        break;
+
+      case TELNET.DONT:
+        if (client.localOptions.delete(option)) {
+          this.sendTelnet(client, TELNET.WONT, option);
+        }
+        break;
+    }
+
+    if (verb === TELNET.WILL && option === TELNET_OPTION.COM_PORT && supported) {
+      this.logger.info('RFC 2217 COM port control negotiated', {
+        portId: this.portId,
+        clientId: client.id
+      });
+    }
+  }
+
+  private async handleComPortCommand(client: BridgeClient, payload: Buffer): Promise<void> {
+    if (payload.length < 2 || payload[0] !== TELNET_OPTION.COM_PORT) {
+      return;
+    }
+
+    if (!client.remoteOptions.has(TELNET_OPTION.COM_PORT)) {
+      this.logger.warn('RFC 2217 command before negotiation', { portId: this.portId, clientId: client.id });
+      return;
+    }
+
+    const command = payload[1];
+    const value = payload.subarray(2);
+    const current = this.controller.getOptions();
+
+    switch (command) {
+      case COM_PORT.SIGNATURE:
+        if (value.length === 0) {
+          this.sendComPort(client, command, Buffer.from(`Cyreal ${this.portId}`));
+        } else {
+          this.logger.info('RFC 2217 client signature', {
+            portId: this.portId,
+            signature: value.toString()
+          });
+        }
+        break;
+
+      case COM_PORT.SET_BAUDRATE: {
+        const baudRate = value.length >= 4 ? value.readUInt32BE(0) : 0;
+        if (baudRate > 0) {
+          await this.applyOptions({ baudRate });
+        }
+        const reply = Buffer.alloc(4);
+        reply.writeUInt32BE(this.controller.getOptions()?.baudRate ?? 0);
+        this.sendComPort(client, command, reply);
+        break;
+      }
+
+      case COM_PORT.SET_DATASIZE: {
+        const dataBits = value[0];
+        if (dataBits >= 5 && dataBits <= 8) {
+          await this.applyOptions({ dataBits: dataBits as PortOptions['dataBits'] });
+        }
+        this.sendComPort(client, command, Buffer.from([this.controller.getOptions()?.dataBits ?? 8]));
+        break;
+      }
+
+      case COM_PORT.SET_PARITY: {
+        const parity = PARITY_CODES[value[0] - 1];
+        if (parity) {
+          await this.applyOptions({ parity });
+        }
+        const active = this.controller.getOptions()?.parity ?? 'none';
+        this.sendComPort(client, command, Buffer.from([PARITY_CODES.indexOf(active) + 1]));
+        break;
+      }
+
+      case COM_PORT.SET_STOPSIZE: {
+        const stopBits = STOPSIZE_CODES[value[0]];
+        if (stopBits) {
+          await this.applyOptions({ stopBits });
+        }
+        const active = this.controller.getOptions()?.stopBits ?? 1;
+        const code = Object.entries(STOPSIZE_CODES).find(([, bits]) => bits === active)?.[0];
+        this.sendComPort(client, command, Buffer.from([Number(code ?? 1)]));
+        break;
+      }
+
+      case COM_PORT.SET_CONTROL:
+        await this.handleControl(client, value[0] ?? 0, current);
+        break;
+
+      case COM_PORT.SET_LINESTATE_MASK:
+        client.lineStateMask = value[0] ?? 0;
+        this.sendComPort(client, command, Buffer.from([client.lineStateMask]));
+        break;
+
+      case COM_PORT.SET_MODEMSTATE_MASK:
+        client.modemStateMask = value[0] ?? 0;
+        this.sendComPort(client, command, Buffer.from([client.modemStateMask]));
+        break;
+
+      case COM_PORT.FLOWCONTROL_SUSPEND:
+        client.suspended = true;
+        break;
+
+      case COM_PORT.FLOWCONTROL_RESUME:
+        client.suspended = false;
+        break;
+
+      case COM_PORT.PURGE_DATA:
+        await this.controller.flush();
+        this.sendComPort(client, command, Buffer.from([value[0] ?? 0]));
+        break;
+
+      default:
+        this.logger.debug('Unsupported RFC 2217 command', { portId: this.portId, command });
+    }
+  }
+
+  private async handleControl(client: BridgeClient, code: number, current?: PortOptions): Promise<void> {
+    let reply = code;
+
+    switch (code) {
+      case 0: { // Request flow control setting
+        const flowControl = current?.flowControl ?? 'none';
+        reply = Number(Object.entries(FLOW_CONTROL_CODES).find(([, mode]) => mode === flowControl)?.[0] ?? 1);
+        break;
+      }
+      case 1:
+      case 2:
+      case 3:
+        await this.applyOptions({ flowControl: FLOW_CONTROL_CODES[code] });
+        break;
+      case 4: // Request break state
+        reply = this.signals.brk ? 5 : 6;
+        break;
+      case 5:
+      case 6:
+        await this.setSignal('brk', code === 5);
+        break;
+      case 7: // Request DTR state
+        reply = this.signals.dtr ? 8 : 9;
+        break;
+      case 8:
+      case 9:
+        await this.setSignal('dtr', code === 8);
+        break;
+      case 10: // Request RTS state
+        reply = this.signals.rts ? 11 : 12;
+        break;
+      case 11:
+      case 12:
+        await this.setSignal('rts', code === 11);
+        break;
+      default:
+        this.logger.debug('Unsupported RFC 2217 control code', { portId: this.portId, code });
+    }
+
+    this.sendComPort(client, COM_PORT.SET_CONTROL, Buffer.from([reply]));
+  }
+
+  private async applyOptions(options: Partial<PortOptions>): Promise<void> {
+    try {
+      await this.controller.updateOptions(options);
+      this.logger.info('Port options changed by bridge client', { portId: this.portId, options });
+    } catch (error) {
+      this.logger.warn('Failed to apply port options from bridge client', {
+        portId: this.portId,
+        options,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async setSignal(signal: 'dtr' | 'rts' | 'brk', value: boolean): Promise<void> {
+    try {
+      await this.controller.setSignals({ [signal]: value });
+      this.signals[signal] = value;
+    } catch (error) {
+      this.logger.warn('Failed to set control line', {
+        portId: this.portId,
+        signal,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private sendTelnet(client: BridgeClient, verb: number, option: number): void {
+    if (!client.socket.destroyed) {
+      client.socket.write(Buffer.from([TELNET.IAC, verb, option]));
+    }
+  }
+
+  private sendComPort(client: BridgeClient, command: number, value: Buffer): void {
+    if (client.socket.destroyed) {
+      return;
+    }
+
+    client.socket.write(Buffer.concat([
+      Buffer.from([TELNET.IAC, TELNET.SB, TELNET_OPTION.COM_PORT, command + SERVER_REPLY_OFFSET]),
+      TelnetCodec.escape(value),
+      Buffer.from([TELNET.IAC, TELNET.SE])
+    ]));
+  }
+}
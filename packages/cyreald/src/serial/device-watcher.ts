@@ -0,0 +1,215 @@
+/**
+ * Device Watcher - USB serial hot-plug monitoring
+ *
+ * Keeps a snapshot of the serial devices present and emits device:attached
+ * and device:detached as adapters come and go. On Linux, inotify on /dev
+ * reports device nodes being created and removed; each report triggers a
+ * rescan after a short settle delay, giving udev time to publish the USB
+ * identity that SerialPort.list() reads from /sys/class/tty. Elsewhere, or
+ * when /dev cannot be watched, the device list is polled.
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as winston from 'winston';
+import { PlatformAdapter, SystemPortInfo } from './platform-adapter';
+
+export interface DeviceWatcherOptions {
+  mode: 'auto' | 'poll';      // auto: inotify on Linux, polling elsewhere
+  pollInterval: number;       // ms between scans when polling
+  settleDelay?: number;       // ms to wait after a /dev change before scanning
+}
+
+export interface DeviceEvent {
+  path: string;
+  info?: SystemPortInfo;      // USB identity, when the device is listed
+}
+
+const DEFAULT_SETTLE_DELAY = 500;
+
+export class DeviceWatcher extends EventEmitter {
+  private devices: Map<string, DeviceEvent> = new Map();
+  private trackedPaths: Set<string> = new Set();
+  private watcher?: fs.FSWatcher;
+  private pollTimer?: NodeJS.Timeout;
+  private settleTimer?: NodeJS.Timeout;
+  private scanning?: Promise<void>;
+  private rescanRequested = false;
+  private running = false;
+
+  constructor(
+    private platform: PlatformAdapter,
+    private logger: winston.Logger,
+    private options: DeviceWatcherOptions
+  ) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    // Devices present at start are the baseline, not attachments
+    this.devices = await this.snapshot();
+
+    if (this.options.mode === 'auto' && process.platform === 'linux') {
+      try {
+        this.watcher = fs.watch('/dev', () => this.scheduleScan());
+        this.watcher.on('error', (error) => {
+          this.logger.warn('Watching /dev failed, polling for serial devices instead', { error: error.message });
+          this.watcher?.close();
+          this.watcher = undefined;
+          this.startPolling();
+        });
+      } catch (error: any) {
+        this.logger.warn('Cannot watch /dev, polling for serial devices instead', { error: error.message });
+      }
+    }
+
+    if (!this.watcher) {
+      this.startPolling();
+    }
+
+    this.logger.info('Serial device watcher started', {
+      mode: this.watcher ? 'inotify' : 'polling',
+      devices: Array.from(this.devices.keys())
+    });
+  }
+
+  stop(): void {
+    this.running = false;
+    this.watcher?.close();
+    this.watcher = undefined;
+    clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+    clearTimeout(this.settleTimer);
+    this.settleTimer = undefined;
+  }
+
+  /**
+   * Also watch a path the port list does not show, such as a
+   * /dev/serial/by-id link; its presence is checked on the file system
+   */
+  track(path: string): void {
+    this.trackedPaths.add(path);
+    if (!this.devices.has(path) && fs.existsSync(path)) {
+      this.devices.set(path, { path });
+    }
+  }
+
+  untrack(path: string): void {
+    this.trackedPaths.delete(path);
+    // Forget unlisted paths so they do not show up as detached
+    if (this.devices.get(path)?.info === undefined) {
+      this.devices.delete(path);
+    }
+  }
+
+  isPresent(path: string): boolean {
+    return this.devices.has(path);
+  }
+
+  getDevices(): DeviceEvent[] {
+    return Array.from(this.devices.values());
+  }
+
+  /**
+   * Compare the devices present now with the last snapshot and emit the
+   * difference. A device replaced by a different adapter at the same path
+   * is reported as a detach followed by an attach.
+   */
+  scan(): Promise<void> {
+    if (this.scanning) {
+      this.rescanRequested = true;
+      return this.scanning;
+    }
+
+    this.scanning = (async () => {
+      do {
+        this.rescanRequested = false;
+        const previous = this.devices;
+        const current = await this.snapshot();
+
+        if (!this.running) {
+          return;
+        }
+        this.devices = current;
+
+        for (const [path, device] of previous) {
+          const now = current.get(path);
+          if (!now || this.replaced(device, now)) {
+            this.logger.info('Serial device detached', { path, serialNumber: device.info?.serialNumber });
+            this.emit('device:detached', device);
+          }
+        }
+
+        for (const [path, device] of current) {
+          const before = previous.get(path);
+          if (!before || this.replaced(before, device)) {
+            this.logger.info('Serial device attached', {
+              path,
+              vendorId: device.info?.vendorId,
+              productId: device.info?.productId,
+              serialNumber: device.info?.serialNumber
+            });
+            this.emit('device:attached', device);
+          }
+        }
+      } while (this.rescanRequested && this.running);
+    })().finally(() => {
+      this.scanning = undefined;
+    });
+
+    return this.scanning;
+  }
+
+  private async snapshot(): Promise<Map<string, DeviceEvent>> {
+    const devices = new Map<string, DeviceEvent>();
+
+    try {
+      for (const info of await this.platform.listSerialPortInfo()) {
+        devices.set(info.path, { path: info.path, info });
+      }
+    } catch (error: any) {
+      this.logger.debug('Serial port listing failed', { error: error.message });
+    }
+
+    for (const path of this.trackedPaths) {
+      if (!devices.has(path) && fs.existsSync(path)) {
+        devices.set(path, { path });
+      }
+    }
+
+    return devices;
+  }
+
+  /**
+   * Whether a different adapter now sits at the same path. Only listed
+   * devices carry a USB identity; an unlisted path only has its presence.
+   */
+  private replaced(before: DeviceEvent, after: DeviceEvent): boolean {
+    if (!before.info || !after.info) {
+      return false;
+    }
+    return before.info.vendorId !== after.info.vendorId ||
+      before.info.productId !== after.info.productId ||
+      before.info.serialNumber !== after.info.serialNumber;
+  }
+
+  private scheduleScan(): void {
+    clearTimeout(this.settleTimer);
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = undefined;
+      this.scan();
+    }, this.options.settleDelay ?? DEFAULT_SETTLE_DELAY);
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer || !this.running) {
+      return;
+    }
+    this.pollTimer = setInterval(() => this.scan(), this.options.pollInterval);
+  }
+}
@@ -10,6 +10,8 @@ import * as os from 'os';
 import * as fs from 'fs';
 import * as winston from 'winston';
 
+export type SystemPortInfo = Awaited<ReturnType<typeof SerialPort.list>>[number];
+
 export interface PlatformInfo {
   name: string;
   arch: string;
@@ -385,16 +387,23 @@ export class PlatformAdapter {
    * List available serial ports for the current platform
    */
   async listSerialPorts(): Promise<string[]> {
+    const ports = await this.listSerialPortInfo();
+    return ports.map(p => p.path);
+  }
+  
+  /**
+   * List available serial ports with USB identity details
+   */
+  async listSerialPortInfo(): Promise<SystemPortInfo[]> {
     const ports = await SerialPort.list();
     
     if (this.platformInfo.name === 'Windows') {
       // Filter Windows COM ports
       return ports
         .filter(p => p.path.match(/^COM\d+$/))
-        .map(p => p.path)
         .sort((a, b) => {
-          const numA = parseInt(a.replace('COM', ''));
-          const numB = parseInt(b.replace('COM', ''));
+          const numA = parseInt(a.path.replace('COM', ''));
+          const numB = parseInt(b.path.replace('COM', ''));
           return numA - numB;
         });
     }
@@ -402,7 +411,6 @@ export class PlatformAdapter {
     // Unix-like systems - filter by known prefixes
     return ports
       .filter(p => this.platformInfo.serialPrefix.some(prefix => p.path.startsWith(prefix)))
-      .map(p => p.path)
-      .sort();
+      .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
   }
 }
\ No newline at end of file
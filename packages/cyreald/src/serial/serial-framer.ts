@@ -0,0 +1,205 @@
+/**
+ * Serial Framer - Chunk-to-frame boundary handling for serial readers
+ *
+ * A serial read returns whatever bytes the driver has collected, so one
+ * device message can be split across chunks and several can share one.
+ * Each read() iterator gets its own framer, chosen by PortOptions.bufferMode:
+ * - line: split on a delimiter (default \n, which also drops a trailing \r);
+ *   a line reaching maxLineLength is emitted at that length
+ * - stream: collect bytes until the line has been idle for idleTimeout ms;
+ *   a device that never pauses gets frames of maxLineLength bytes
+ * - raw: pass chunks through as the driver returned them
+ * - auto: sample the first bytes, then frame text traffic as lines and
+ *   binary traffic as stream
+ */
+
+import { BufferMode } from '@cyreal/core';
+
+export interface SerialFramingOptions {
+  mode: BufferMode;
+  delimiter: string;
+  maxLineLength: number;
+  idleTimeout: number;
+}
+
+export const DEFAULT_FRAMING: SerialFramingOptions = {
+  mode: BufferMode.RAW,
+  delimiter: '\n',
+  maxLineLength: 2048,
+  idleTimeout: 50
+};
+
+// Bytes auto mode looks at before deciding, unless a delimiter or idle gap comes first
+const AUTO_SAMPLE_SIZE = 64;
+// Share of printable bytes above which traffic counts as text
+const TEXT_THRESHOLD = 0.95;
+
+const CARRIAGE_RETURN = 0x0d;
+
+export class SerialFramer {
+  private buffer: Buffer = Buffer.alloc(0);
+  // Stream mode keeps chunks as received and joins them once per frame
+  private streamChunks: Buffer[] = [];
+  private streamLength = 0;
+  private detectedMode?: BufferMode;
+  private delimiter: Buffer;
+
+  constructor(private options: SerialFramingOptions) {
+    this.delimiter = Buffer.from(options.delimiter, 'utf8');
+    if (this.delimiter.length === 0) {
+      throw new Error('Line delimiter must not be empty');
+    }
+  }
+
+  /**
+   * Effective mode; auto reports itself until it has decided
+   */
+  get mode(): BufferMode {
+    return this.detectedMode || this.options.mode;
+  }
+
+  /**
+   * Whether held bytes should be flushed after idleTimeout ms of silence
+   */
+  get waitingForIdle(): boolean {
+    return (this.buffer.length > 0 || this.streamLength > 0) &&
+      (this.mode === BufferMode.STREAM || this.mode === BufferMode.AUTO);
+  }
+
+  get idleTimeout(): number {
+    return this.options.idleTimeout;
+  }
+
+  /**
+   * Feed received bytes and collect every frame they complete
+   */
+  push(chunk: Buffer): Buffer[] {
+    switch (this.mode) {
+      case BufferMode.RAW:
+        return [chunk];
+      case BufferMode.STREAM:
+        return this.collect(chunk);
+      case BufferMode.LINE_ORIENTED:
+        this.append(chunk);
+        return this.extractLines();
+      default:
+        this.append(chunk);
+        return this.detect();
+    }
+  }
+
+  /**
+   * Hand over held bytes: called when the line goes idle or the port closes
+   */
+  flush(): Buffer[] {
+    // Auto traffic that stops before revealing its type is treated as binary
+    if (this.mode === BufferMode.AUTO && this.buffer.length > 0) {
+      this.detectedMode = BufferMode.STREAM;
+    }
+
+    if (this.buffer.length === 0 && this.streamLength === 0) {
+      return [];
+    }
+
+    const frame = this.streamLength > 0
+      ? Buffer.concat([this.buffer, ...this.streamChunks])
+      : this.buffer;
+    this.buffer = Buffer.alloc(0);
+    this.streamChunks = [];
+    this.streamLength = 0;
+    return [frame];
+  }
+
+  /**
+   * Hold stream bytes for the idle flush, emitting full maxLineLength frames
+   */
+  private collect(chunk: Buffer): Buffer[] {
+    this.streamChunks.push(chunk);
+    this.streamLength += chunk.length;
+    if (this.streamLength < this.options.maxLineLength) {
+      return [];
+    }
+
+    const held = Buffer.concat(this.streamChunks, this.streamLength);
+    const frames: Buffer[] = [];
+    let offset = 0;
+    while (held.length - offset >= this.options.maxLineLength) {
+      frames.push(held.subarray(offset, offset + this.options.maxLineLength));
+      offset += this.options.maxLineLength;
+    }
+
+    const rest = held.subarray(offset);
+    this.streamChunks = rest.length > 0 ? [rest] : [];
+    this.streamLength = rest.length;
+    return frames;
+  }
+
+  private append(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+  }
+
+  private detect(): Buffer[] {
+    const sawDelimiter = this.buffer.indexOf(this.delimiter) !== -1;
+    if (!sawDelimiter && this.buffer.length < AUTO_SAMPLE_SIZE) {
+      return [];
+    }
+
+    const sample = this.buffer.subarray(0, Math.max(AUTO_SAMPLE_SIZE, this.buffer.indexOf(this.delimiter) + 1));
+    this.detectedMode = sawDelimiter && this.isText(sample) ? BufferMode.LINE_ORIENTED : BufferMode.STREAM;
+    if (this.detectedMode === BufferMode.LINE_ORIENTED) {
+      return this.extractLines();
+    }
+
+    const held = this.buffer;
+    this.buffer = Buffer.alloc(0);
+    return this.collect(held);
+  }
+
+  /**
+   * Printable ASCII, whitespace and UTF-8 continuation bytes count as text
+   */
+  private isText(sample: Buffer): boolean {
+    let printable = 0;
+    for (const byte of sample) {
+      if ((byte >= 0x20 && byte < 0x7f) || byte === 0x09 || byte === 0x0a || byte === 0x0d || byte >= 0x80) {
+        printable++;
+      }
+    }
+    return printable / sample.length >= TEXT_THRESHOLD;
+  }
+
+  private extractLines(): Buffer[] {
+    const frames: Buffer[] = [];
+    const stripReturn = this.options.delimiter === '\n';
+    let start = 0;
+    let index: number;
+
+    while ((index = this.buffer.indexOf(this.delimiter, start)) !== -1) {
+      let end = index;
+      if (stripReturn && end > start && this.buffer[end - 1] === CARRIAGE_RETURN) {
+        end--;
+      }
+      frames.push(...this.splitLong(this.buffer.subarray(start, end)));
+      start = index + this.delimiter.length;
+    }
+
+    this.buffer = this.buffer.subarray(start);
+
+    // A device that never sends the delimiter must not grow the buffer forever
+    while (this.buffer.length >= this.options.maxLineLength) {
+      frames.push(this.buffer.subarray(0, this.options.maxLineLength));
+      this.buffer = this.buffer.subarray(this.options.maxLineLength);
+    }
+
+    return frames;
+  }
+
+  private splitLong(line: Buffer): Buffer[] {
+    const pieces: Buffer[] = [];
+    for (let offset = 0; offset < line.length; offset += this.options.maxLineLength) {
+      pieces.push(line.subarray(offset, offset + this.options.maxLineLength));
+    }
+    // Keep empty lines: a blank line can be meaningful to the device protocol
+    return pieces.length > 0 ? pieces : [line];
+  }
+}